@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseCampaignFilters, applyCampaignFilters } from '../../../../src/lib/campaign-filters';
+import {
+  AGGREGATE_DIMENSIONS,
+  AggregateDimension,
+  DemographicDimension,
+  aggregateRegions,
+  aggregateWeekly,
+  aggregateDevices,
+  aggregateDemographics,
+  ESTIMATED_AGGREGATE_FIELDS,
+} from '../../../../src/lib/aggregates';
+import { summarizeTotals } from '../../../../src/lib/metrics';
+import { getMarketingData, InvalidMarketingDataError } from '../../../../src/lib/server/marketing-data';
+import { getRequestRole } from '../../../../src/lib/server/session';
+import { canViewFinancials, isFinancialField, omitFinancialFields } from '../../../../src/lib/access';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+};
+
+const DEMOGRAPHIC_DIMENSIONS: DemographicDimension[] = ['segment', 'age_group', 'gender'];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ dimension: string }> }
+) {
+  const { dimension } = await params;
+
+  if (!AGGREGATE_DIMENSIONS.includes(dimension as AggregateDimension)) {
+    return NextResponse.json(
+      {
+        error: 'Unknown aggregate',
+        message: `Unknown aggregate "${dimension}". Expected one of: ${AGGREGATE_DIMENSIONS.join(', ')}`,
+      },
+      { status: 404, headers: CORS_HEADERS }
+    );
+  }
+
+  const by = request.nextUrl.searchParams.get('by') || 'segment';
+  if (dimension === 'demographics' && !DEMOGRAPHIC_DIMENSIONS.includes(by as DemographicDimension)) {
+    return NextResponse.json(
+      {
+        error: 'Invalid query parameters',
+        message: `Unknown demographic grouping "${by}"`,
+        details: [{ parameter: 'by', value: by, message: `Unknown demographic grouping "${by}"`, allowed: DEMOGRAPHIC_DIMENSIONS }]
+      },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+
+  try {
+    const { data } = await getMarketingData();
+
+    const parsed = parseCampaignFilters(request.nextUrl.searchParams, data.filters);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          message: parsed.errors.map(detail => detail.message).join('; '),
+          details: parsed.errors
+        },
+        { status: 400, headers: CORS_HEADERS }
+      );
+    }
+
+    const { campaigns } = applyCampaignFilters(data, parsed.filters);
+
+    let rows;
+    switch (dimension as AggregateDimension) {
+      case 'regions':
+        // A region filter selects campaigns; only report the regions asked for
+        rows = aggregateRegions(campaigns).filter(row =>
+          !parsed.filters.region || parsed.filters.region.includes(row.region)
+        );
+        break;
+      case 'weekly':
+        rows = aggregateWeekly(campaigns);
+        break;
+      case 'devices':
+        rows = aggregateDevices(campaigns);
+        break;
+      case 'demographics':
+        rows = aggregateDemographics(campaigns, by as DemographicDimension);
+        break;
+    }
+
+    const totals = summarizeTotals(rows);
+    const financials = canViewFinancials(await getRequestRole(request));
+    const estimated = ESTIMATED_AGGREGATE_FIELDS[dimension as AggregateDimension];
+
+    return NextResponse.json(
+      {
+        dimension,
+        filters: parsed.filters,
+        campaign_count: campaigns.length,
+        totals: financials ? totals : omitFinancialFields(totals),
+        rows: financials ? rows : rows.map(omitFinancialFields),
+        estimated_fields: financials ? estimated : estimated.filter(field => !isFinancialField(field)),
+      },
+      { headers: CORS_HEADERS }
+    );
+  } catch (error) {
+    if (error instanceof InvalidMarketingDataError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid marketing data',
+          message: error.message,
+          violations: error.violations
+        },
+        { status: 502, headers: CORS_HEADERS }
+      );
+    }
+
+    console.error('Error aggregating marketing data:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to aggregate marketing data',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProvider } from '../../../../src/lib/server/auth-providers';
+import {
+  createSessionToken,
+  sessionCookieOptions,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+} from '../../../../src/lib/server/session';
+
+// Check credentials with the configured provider and start a session cookie
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const username = typeof body?.username === 'string' ? body.username : '';
+  const password = typeof body?.password === 'string' ? body.password : '';
+
+  if (!username) {
+    return NextResponse.json(
+      { error: 'Invalid credentials', message: 'A username is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const provider = getAuthProvider();
+    const user = await provider.authenticate({ username, password, role: body?.role });
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid credentials', message: 'The username or password is incorrect' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ user });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), sessionCookieOptions(SESSION_TTL_SECONDS));
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to sign in',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
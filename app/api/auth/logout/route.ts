@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { sessionCookieOptions, SESSION_COOKIE } from '../../../../src/lib/server/session';
+
+// End the session by expiring its cookie
+export async function POST() {
+  const response = NextResponse.json({ message: 'Signed out' });
+  response.cookies.set(SESSION_COOKIE, '', sessionCookieOptions(0));
+  return response;
+}
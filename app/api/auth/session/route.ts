@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '../../../../src/lib/server/session';
+import { getAuthProvider } from '../../../../src/lib/server/auth-providers';
+
+// The signed-in user and the provider that checks credentials
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  const provider = getAuthProvider().id;
+
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Not signed in', provider },
+      { status: 401 }
+    );
+  }
+
+  const { username, name, role, expires_at } = session;
+  return NextResponse.json({ user: { username, name, role }, expires_at, provider });
+}
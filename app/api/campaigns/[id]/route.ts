@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getMarketingData,
+  createETag,
+  matchesETag,
+  InvalidMarketingDataError,
+} from '../../../../src/lib/server/marketing-data';
+import { getRequestRole } from '../../../../src/lib/server/session';
+import { canViewFinancials, redactCampaign } from '../../../../src/lib/access';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag, X-Cache, X-Data-Stale',
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!/^\d+$/.test(id)) {
+    return NextResponse.json(
+      {
+        error: 'Invalid campaign id',
+        message: `Campaign id must be a positive integer, got "${id}"`,
+      },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+
+  try {
+    const { data, cacheStatus, stale } = await getMarketingData();
+    const campaign = data.campaigns.find(c => c.id === Number(id));
+
+    if (!campaign) {
+      return NextResponse.json(
+        {
+          error: 'Campaign not found',
+          message: `No campaign with id ${id}`,
+        },
+        { status: 404, headers: CORS_HEADERS }
+      );
+    }
+
+    const body = JSON.stringify(canViewFinancials(await getRequestRole(request)) ? campaign : redactCampaign(campaign));
+    const etag = createETag(body);
+    const headers: Record<string, string> = {
+      ...CORS_HEADERS,
+      'ETag': etag,
+      'Cache-Control': 'no-cache',
+      'Vary': 'Cookie, Authorization, X-API-Key',
+      'X-Cache': cacheStatus,
+    };
+    if (stale) {
+      headers['X-Data-Stale'] = 'true';
+    }
+
+    if (matchesETag(request.headers.get('if-none-match'), etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    if (error instanceof InvalidMarketingDataError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid marketing data',
+          message: error.message,
+          violations: error.violations
+        },
+        { status: 502, headers: CORS_HEADERS }
+      );
+    }
+
+    console.error('Error fetching campaign:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch campaign',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { getMarketingData } from '../../../src/lib/server/marketing-data';
+import { createSessionToken, SESSION_COOKIE } from '../../../src/lib/server/session';
+import { validateMarketingData } from '../../../src/lib/validate-marketing-data';
+import { QualityReport } from '../../../src/lib/data-quality';
+import { Role } from '../../../src/lib/access';
+import { fixtureData } from '../../../src/test/fixtures';
+
+vi.mock('../../../src/lib/server/marketing-data', async importOriginal => ({
+  ...await importOriginal<typeof import('../../../src/lib/server/marketing-data')>(),
+  getMarketingData: vi.fn(),
+}));
+
+beforeEach(() => {
+  // Campaign 1 is dropped for a bad spend, campaign 2 for a bad name
+  const payload = fixtureData() as unknown as { campaigns: Record<string, unknown>[] };
+  payload.campaigns[1].spend = 'lots';
+  payload.campaigns[2].name = 42;
+  const { data, warnings } = validateMarketingData(payload, 'lenient');
+
+  vi.mocked(getMarketingData).mockResolvedValue({
+    data: data!,
+    warnings,
+    source: 'fixture',
+    fetchedAt: Date.now(),
+    cacheStatus: 'hit',
+  });
+});
+
+async function scan(role: Role, query = '') {
+  const request = new NextRequest(`http://localhost/api/data-quality${query}`);
+  request.cookies.set(SESSION_COOKIE, await createSessionToken({ username: 'sam', name: 'Sam', role }));
+  return GET(request);
+}
+
+describe('GET /api/data-quality', () => {
+  it('reports the campaigns the validator dropped', async () => {
+    const response = await scan('finance');
+    const report: QualityReport = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(report.dropped_campaigns).toBe(2);
+    expect(report.scanned_campaigns).toBe(fixtureData().campaigns.length - 2);
+    expect(report.issues.map(issue => [issue.kind, issue.path])).toEqual([
+      ['dropped_campaign', 'campaigns[1]'],
+      ['dropped_campaign', 'campaigns[2]'],
+    ]);
+    expect(report.issues[0].message).toContain('campaigns[1].spend');
+  });
+
+  it('leaves redacted fields out of the violations a viewer sees', async () => {
+    const report: QualityReport = await (await scan('viewer')).json();
+
+    expect(report.dropped_campaigns).toBe(2);
+    expect(report.issues.map(issue => [issue.path, issue.value])).toEqual([['campaigns[1]', 0], ['campaigns[2]', 1]]);
+    expect(JSON.stringify(report)).not.toContain('spend');
+  });
+
+  it('filters issues by kind and severity, counting all of them', async () => {
+    const report: QualityReport = await (await scan('admin', '?kind=ctr_mismatch&severity=warning')).json();
+
+    expect(report.issues).toEqual([]);
+    expect(report.counts.dropped_campaign).toBe(2);
+  });
+
+  it('rejects unknown kinds', async () => {
+    const response = await scan('admin', '?kind=typo');
+    expect(response.status).toBe(400);
+    expect((await response.json()).details[0]).toMatchObject({ parameter: 'kind', value: 'typo' });
+  });
+});
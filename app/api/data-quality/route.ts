@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  QUALITY_ISSUE_KINDS,
+  QUALITY_SEVERITIES,
+  QualityIssueKind,
+  QualitySeverity,
+  QualityReport,
+  scanMarketingData,
+} from '../../../src/lib/data-quality';
+import { getMarketingData, InvalidMarketingDataError } from '../../../src/lib/server/marketing-data';
+import { getRequestRole } from '../../../src/lib/server/session';
+import { canViewFinancials, isFinancialField, redactMarketingData } from '../../../src/lib/access';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+};
+
+// Comma-separated values of `parameter`, each of which must be in `allowed`
+function parseList<T extends string>(searchParams: URLSearchParams, parameter: string, allowed: T[]) {
+  const values = (searchParams.get(parameter) ?? '').split(',').map(value => value.trim()).filter(Boolean);
+  const unknown = values.filter(value => !(allowed as string[]).includes(value));
+  const errors = unknown.map(value => ({
+    parameter,
+    value,
+    message: `Unknown ${parameter} "${value}"`,
+    allowed,
+  }));
+  return { values: values as T[], errors };
+}
+
+export async function GET(request: NextRequest) {
+  const kinds = parseList<QualityIssueKind>(request.nextUrl.searchParams, 'kind', QUALITY_ISSUE_KINDS);
+  const severities = parseList<QualitySeverity>(request.nextUrl.searchParams, 'severity', QUALITY_SEVERITIES);
+  const errors = [...kinds.errors, ...severities.errors];
+
+  if (errors.length > 0) {
+    return NextResponse.json(
+      {
+        error: 'Invalid query parameters',
+        message: errors.map(detail => detail.message).join('; '),
+        details: errors
+      },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+
+  try {
+    const { data, warnings } = await getMarketingData();
+    const role = await getRequestRole(request);
+    // Scan only what the caller may see, so issue paths and values never leak redacted fields
+    const visibleWarnings = canViewFinancials(role)
+      ? warnings
+      : warnings.filter(warning => !isFinancialField(warning.path.split('.').pop() ?? ''));
+    const scan = scanMarketingData(redactMarketingData(data, role), visibleWarnings);
+
+    const issues = scan.issues.filter(issue =>
+      (kinds.values.length === 0 || kinds.values.includes(issue.kind)) &&
+      (severities.values.length === 0 || severities.values.includes(issue.severity))
+    );
+
+    const report: QualityReport = {
+      scanned_at: new Date().toISOString(),
+      scanned_campaigns: scan.scanned_campaigns,
+      dropped_campaigns: scan.dropped_campaigns,
+      counts: scan.counts,
+      issues,
+    };
+    return NextResponse.json(report, { headers: CORS_HEADERS });
+  } catch (error) {
+    if (error instanceof InvalidMarketingDataError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid marketing data',
+          message: error.message,
+          violations: error.violations
+        },
+        { status: 502, headers: CORS_HEADERS }
+      );
+    }
+
+    console.error('Error scanning marketing data:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to scan marketing data',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseCampaignFilters, applyCampaignFilters } from '../../../../src/lib/campaign-filters';
+import { EXPORT_DATASETS, isExportDatasetName } from '../../../../src/lib/export-datasets';
+import { toCsv } from '../../../../src/lib/csv';
+import { getMarketingData, InvalidMarketingDataError } from '../../../../src/lib/server/marketing-data';
+import { getRequestRole } from '../../../../src/lib/server/session';
+import { canViewFinancials, isFinancialField } from '../../../../src/lib/access';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+  'Access-Control-Expose-Headers': 'Content-Disposition',
+};
+
+export async function GET(request: NextRequest) {
+  const dataset = request.nextUrl.searchParams.get('dataset') || '';
+
+  if (!isExportDatasetName(dataset)) {
+    const allowed = Object.keys(EXPORT_DATASETS);
+    const message = dataset
+      ? `Unknown dataset "${dataset}"`
+      : 'The dataset parameter is required';
+
+    return NextResponse.json(
+      {
+        error: 'Invalid query parameters',
+        message,
+        details: [{ parameter: 'dataset', value: dataset || undefined, message, allowed }]
+      },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+
+  try {
+    const { data } = await getMarketingData();
+
+    const parsed = parseCampaignFilters(request.nextUrl.searchParams, data.filters);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          message: parsed.errors.map(detail => detail.message).join('; '),
+          details: parsed.errors
+        },
+        { status: 400, headers: CORS_HEADERS }
+      );
+    }
+
+    const { campaigns } = applyCampaignFilters(data, parsed.filters);
+    const { columns, rows } = EXPORT_DATASETS[dataset];
+    const financials = canViewFinancials(await getRequestRole(request));
+    const visibleColumns = financials ? columns : columns.filter(column => !isFinancialField(column.key));
+    const csv = toCsv(visibleColumns, rows(campaigns, parsed.filters));
+    const fileName = `${dataset}-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        ...CORS_HEADERS,
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof InvalidMarketingDataError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid marketing data',
+          message: error.message,
+          violations: error.violations
+        },
+        { status: 502, headers: CORS_HEADERS }
+      );
+    }
+
+    console.error('Error exporting marketing data:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to export marketing data',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseCampaignFilters, applyCampaignFilters } from '../../../../src/lib/campaign-filters';
+import { buildMarketingWorkbook } from '../../../../src/lib/server/workbook';
+import { getMarketingData, InvalidMarketingDataError } from '../../../../src/lib/server/marketing-data';
+import { getRequestRole } from '../../../../src/lib/server/session';
+import { canViewFinancials } from '../../../../src/lib/access';
+import { ApiErrorDetail } from '../../../../src/types/marketing';
+import {
+  CURRENCY_CODES,
+  CurrencySettings,
+  DEFAULT_EXCHANGE_RATES,
+  isCurrencyCode,
+  normalizeCurrencySettings,
+} from '../../../../src/lib/currency';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+  'Access-Control-Expose-Headers': 'Content-Disposition',
+};
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// currency (default USD) and rate, units of it per US dollar (default: the built-in
+// rate), so the workbook matches the amounts the dashboard displays
+function parseCurrency(params: URLSearchParams): { settings: CurrencySettings; errors: ApiErrorDetail[] } {
+  const errors: ApiErrorDetail[] = [];
+  const currency = params.get('currency') ?? 'USD';
+  if (!isCurrencyCode(currency)) {
+    errors.push({ parameter: 'currency', value: currency, message: `Unknown currency "${currency}"`, allowed: CURRENCY_CODES });
+  }
+
+  const rateParam = params.get('rate');
+  const rate = rateParam === null ? undefined : Number(rateParam);
+  if (rate !== undefined && !(Number.isFinite(rate) && rate > 0)) {
+    errors.push({ parameter: 'rate', value: rateParam ?? undefined, message: 'rate must be a positive number' });
+  }
+
+  const code = isCurrencyCode(currency) ? currency : 'USD';
+  return {
+    settings: normalizeCurrencySettings({ currency: code, rates: { ...DEFAULT_EXCHANGE_RATES, ...(rate ? { [code]: rate } : {}) } }),
+    errors,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { data } = await getMarketingData();
+
+    const parsed = parseCampaignFilters(request.nextUrl.searchParams, data.filters);
+    const currency = parseCurrency(request.nextUrl.searchParams);
+    const errors = [...(parsed.ok ? [] : parsed.errors), ...currency.errors];
+    if (!parsed.ok || errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          message: errors.map(detail => detail.message).join('; '),
+          details: errors
+        },
+        { status: 400, headers: CORS_HEADERS }
+      );
+    }
+
+    const filtered = applyCampaignFilters(data, parsed.filters);
+    const workbook = await buildMarketingWorkbook(
+      filtered,
+      parsed.filters,
+      canViewFinancials(await getRequestRole(request)),
+      currency.settings
+    );
+    const fileName = `marketing-report-${new Date().toISOString().slice(0, 10)}.xlsx`;
+
+    return new NextResponse(new Uint8Array(workbook), {
+      status: 200,
+      headers: {
+        ...CORS_HEADERS,
+        'Content-Type': XLSX_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof InvalidMarketingDataError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid marketing data',
+          message: error.message,
+          violations: error.violations
+        },
+        { status: 502, headers: CORS_HEADERS }
+      );
+    }
+
+    console.error('Error building workbook:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to build workbook',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkHealth, summarizeHealth } from '../../../src/lib/server/health';
+import { getRequestRole } from '../../../src/lib/server/session';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+// Pipeline diagnostics for uptime probes: 200 while data can be served (status
+// "ok" or "degraded"), 503 when it cannot ("down"). Only admins get the full
+// report, by session or API key; everyone else gets the status.
+export async function GET(request: NextRequest) {
+  try {
+    const report = await checkHealth();
+    const isAdmin = (await getRequestRole(request)) === 'admin';
+    return NextResponse.json(isAdmin ? report : summarizeHealth(report), {
+      status: report.status === 'down' ? 503 : 200,
+      headers: {
+        ...CORS_HEADERS,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Health check failed:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to check health', message: 'The health check failed; see the server logs' },
+      { status: 500, headers: { ...CORS_HEADERS, 'Cache-Control': 'no-store' } }
+    );
+  }
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
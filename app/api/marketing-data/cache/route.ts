@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  invalidateMarketingDataCache,
+  CACHE_TTL_MS,
+  STALE_WHILE_REVALIDATE_MS,
+} from '../../../../src/lib/server/marketing-data';
+import { getRequestRole } from '../../../../src/lib/server/session';
+
+// Drop the cached payload so the next request reloads it from the data source.
+// Admins only: every reload hits the upstream.
+export async function DELETE(request: NextRequest) {
+  if (await getRequestRole(request) !== 'admin') {
+    return NextResponse.json(
+      { error: 'Forbidden', message: 'Invalidating the cache requires the admin role' },
+      { status: 403 }
+    );
+  }
+
+  invalidateMarketingDataCache();
+
+  return NextResponse.json({
+    message: 'Marketing data cache invalidated',
+    ttl_seconds: CACHE_TTL_MS / 1000,
+    stale_while_revalidate_seconds: STALE_WHILE_REVALIDATE_MS / 1000,
+  });
+}
@@ -0,0 +1,96 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+import { getMarketingData, invalidateMarketingDataCache } from '../../../../src/lib/server/marketing-data';
+import { createSessionToken, SESSION_COOKIE } from '../../../../src/lib/server/session';
+import { readIngestedDataset } from '../../../../src/lib/server/ingest-store';
+import { Role } from '../../../../src/lib/access';
+import { fixtureData } from '../../../../src/test/fixtures';
+
+vi.mock('../../../../src/lib/server/marketing-data', async importOriginal => ({
+  ...await importOriginal<typeof import('../../../../src/lib/server/marketing-data')>(),
+  getMarketingData: vi.fn(),
+  invalidateMarketingDataCache: vi.fn(),
+}));
+
+const ingestDir = mkdtempSync(path.join(tmpdir(), 'import-route-'));
+process.env.MARKETING_INGEST_PATH = path.join(ingestDir, 'ingested.json');
+
+afterAll(() => rmSync(ingestDir, { recursive: true, force: true }));
+
+beforeEach(() => {
+  rmSync(process.env.MARKETING_INGEST_PATH!, { force: true });
+  vi.mocked(invalidateMarketingDataCache).mockClear();
+  vi.mocked(getMarketingData).mockResolvedValue({
+    data: fixtureData(),
+    warnings: [],
+    source: 'fixture',
+    fetchedAt: Date.now(),
+    cacheStatus: 'hit',
+  });
+});
+
+async function importRequest(body: unknown, role?: Role) {
+  const request = new NextRequest('http://localhost/api/marketing-data/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+  if (role) {
+    request.cookies.set(SESSION_COOKIE, await createSessionToken({ username: 'sam', name: 'Sam', role }));
+  }
+  return POST(request);
+}
+
+describe('POST /api/marketing-data/import', () => {
+  const campaign = fixtureData().campaigns[0];
+
+  it('requires a session', async () => {
+    const response = await importRequest({ campaigns: [{ id: campaign.id, status: 'Paused' }] });
+    expect(response.status).toBe(401);
+  });
+
+  it('refuses viewers, who cannot see the financial fields a record may overwrite', async () => {
+    const response = await importRequest({ campaigns: [{ id: campaign.id, status: 'Paused' }] }, 'viewer');
+    expect(response.status).toBe(403);
+    expect((await response.json()).message).toBe('Importing campaigns requires the finance or admin role');
+    expect((await readIngestedDataset()).campaigns).toEqual({});
+  });
+
+  it('upserts records for finance and drops the cache', async () => {
+    const response = await importRequest([{ id: campaign.id, status: 'Paused', spend: 100 }], 'finance');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ received: 1, created: 0, updated: 1, unchanged: 0 });
+    expect((await readIngestedDataset()).campaigns[campaign.id]).toMatchObject({ status: 'Paused', spend: 100 });
+    expect(invalidateMarketingDataCache).toHaveBeenCalledOnce();
+  });
+
+  it('leaves the cache alone when nothing changed', async () => {
+    const response = await importRequest([{ id: campaign.id, status: campaign.status }], 'admin');
+
+    expect(await response.json()).toMatchObject({ unchanged: 1 });
+    expect(invalidateMarketingDataCache).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid records with their violations', async () => {
+    const response = await importRequest({ campaigns: [{ id: campaign.id, spend: 'lots' }] }, 'finance');
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.violations.map((issue: { path: string }) => issue.path)).toEqual(['campaigns[0].spend']);
+  });
+
+  it('rejects bodies that are not JSON or hold no records', async () => {
+    expect((await importRequest('{', 'finance')).status).toBe(400);
+    expect((await importRequest({ campaigns: [] }, 'finance')).status).toBe(400);
+  });
+
+  it('refuses to create incomplete campaigns', async () => {
+    const response = await importRequest([{ id: 999, name: 'New' }], 'finance');
+    expect(response.status).toBe(422);
+  });
+});
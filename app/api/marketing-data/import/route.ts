@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { IngestRejectedError } from '../../../../src/lib/server/ingest-store';
+import { readCampaignRecords, ingestCampaignRecords } from '../../../../src/lib/server/ingest';
+import { getRequestSession } from '../../../../src/lib/server/session';
+import { canViewFinancials, redactedFieldPaths } from '../../../../src/lib/access';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const errorResponse = (status: number, error: string, message: string, extra: object = {}) =>
+  NextResponse.json({ error, message, ...extra }, { status, headers: CORS_HEADERS });
+
+// Upsert campaigns from the import page on behalf of the signed-in user. Takes
+// the same records as the ingest endpoint, but authorizes by session and role
+// instead of an ingest key, so the key never reaches the browser.
+export async function POST(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return errorResponse(401, 'Unauthorized', 'Sign in to import campaigns');
+  }
+  if (!canViewFinancials(session.role)) {
+    return errorResponse(403, 'Forbidden', 'Importing campaigns requires the finance or admin role');
+  }
+
+  const parsed = await readCampaignRecords(request);
+  if (!parsed.ok) {
+    const { status, error, message, violations } = parsed;
+    return errorResponse(status, error, message, violations ? { violations } : {});
+  }
+
+  // A record may only set fields its importer can see; anything else would
+  // overwrite stored values with ones derived from a redacted copy
+  const redacted = parsed.records.flatMap((record, index) =>
+    redactedFieldPaths(record, session.role).map(path => `campaigns[${index}].${path}`)
+  );
+  if (redacted.length > 0) {
+    return errorResponse(403, 'Forbidden', `${redacted.join(', ')} cannot be imported by the ${session.role} role`);
+  }
+
+  try {
+    const summary = await ingestCampaignRecords(parsed.records);
+    return NextResponse.json(summary, { headers: CORS_HEADERS });
+  } catch (error) {
+    if (error instanceof IngestRejectedError) {
+      return errorResponse(422, 'Campaign rejected', error.message);
+    }
+
+    console.error('Error importing campaigns:', error);
+
+    return errorResponse(500, 'Failed to import campaigns', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { IngestRejectedError } from '../../../../src/lib/server/ingest-store';
+import { readCampaignRecords, ingestCampaignRecords } from '../../../../src/lib/server/ingest';
+import { readRequestApiKey, ingestKeys, findIngestKey } from '../../../../src/lib/server/api-clients';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+};
+
+const errorResponse = (status: number, error: string, message: string, extra: object = {}) =>
+  NextResponse.json({ error, message, ...extra }, { status, headers: CORS_HEADERS });
+
+// Upsert full or partial campaigns by id into the locally persisted dataset
+// that GET /api/marketing-data serves on top of the data source
+export async function POST(request: NextRequest) {
+  if (ingestKeys().length === 0) {
+    return errorResponse(503, 'Ingest disabled', 'Set MARKETING_INGEST_API_KEYS to enable ingestion');
+  }
+
+  const apiKey = readRequestApiKey(request);
+  if (!apiKey || !(await findIngestKey(apiKey))) {
+    return errorResponse(401, 'Unauthorized', 'A valid API key is required in the Authorization or X-API-Key header');
+  }
+
+  const parsed = await readCampaignRecords(request);
+  if (!parsed.ok) {
+    const { status, error, message, violations } = parsed;
+    return errorResponse(status, error, message, violations ? { violations } : {});
+  }
+
+  try {
+    const summary = await ingestCampaignRecords(parsed.records);
+    return NextResponse.json(summary, { headers: CORS_HEADERS });
+  } catch (error) {
+    if (error instanceof IngestRejectedError) {
+      return errorResponse(422, 'Campaign rejected', error.message);
+    }
+
+    console.error('Error ingesting campaigns:', error);
+
+    return errorResponse(500, 'Failed to ingest campaigns', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
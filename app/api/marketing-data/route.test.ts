@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { getMarketingData } from '../../../src/lib/server/marketing-data';
+import { createSessionToken, SESSION_COOKIE } from '../../../src/lib/server/session';
+import { Role } from '../../../src/lib/access';
+import { fixtureData } from '../../../src/test/fixtures';
+
+vi.mock('../../../src/lib/server/marketing-data', async importOriginal => ({
+  ...await importOriginal<typeof import('../../../src/lib/server/marketing-data')>(),
+  getMarketingData: vi.fn(),
+}));
+
+const NOW = Date.parse('2025-03-01T12:00:00Z');
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'], now: NOW });
+  vi.mocked(getMarketingData).mockResolvedValue({
+    data: fixtureData(),
+    warnings: [],
+    source: 'fixture',
+    fetchedAt: NOW,
+    cacheStatus: 'hit',
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+async function get(headers: Record<string, string> = {}, role: Role = 'admin', query = '') {
+  const request = new NextRequest(`http://localhost/api/marketing-data${query}`, { headers });
+  request.cookies.set(SESSION_COOKIE, await createSessionToken({ username: 'sam', name: 'Sam', role }));
+  return GET(request);
+}
+
+describe('GET /api/marketing-data', () => {
+  it('answers a matching If-None-Match with an empty 304', async () => {
+    const first = await get();
+    const etag = first.headers.get('ETag')!;
+
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-Cache')).toBe('hit');
+    expect(etag).toMatch(/^".+"$/);
+
+    const revalidated = await get({ 'If-None-Match': etag });
+    expect(revalidated.status).toBe(304);
+    expect(await revalidated.text()).toBe('');
+    expect(revalidated.headers.get('ETag')).toBe(etag);
+  });
+
+  it('matches weak validators and lists, and sends the body for any other tag', async () => {
+    const etag = (await get()).headers.get('ETag')!;
+
+    expect((await get({ 'If-None-Match': `"other", W/${etag}` })).status).toBe(304);
+    expect((await get({ 'If-None-Match': '"other"' })).status).toBe(200);
+  });
+
+  it('gives each role and filter its own ETag', async () => {
+    const admin = (await get()).headers.get('ETag');
+
+    expect((await get({}, 'viewer')).headers.get('ETag')).not.toBe(admin);
+    expect((await get({}, 'admin', '?status=Active')).headers.get('ETag')).not.toBe(admin);
+  });
+
+  it('keeps the ETag of a stale snapshot while its age grows', async () => {
+    vi.mocked(getMarketingData).mockResolvedValue({
+      data: fixtureData(),
+      warnings: [],
+      source: 'fixture',
+      fetchedAt: NOW,
+      cacheStatus: 'miss',
+      stale: { savedAt: NOW - 60_000, reason: 'HTTP error! status: 503' },
+    });
+    const first = await get();
+    vi.setSystemTime(NOW + 30_000);
+    const later = await get({ 'If-None-Match': first.headers.get('ETag')! });
+
+    expect(first.headers.get('X-Data-Age')).toBe('60');
+    expect(later.status).toBe(304);
+    expect(later.headers.get('X-Data-Stale')).toBe('true');
+    expect(later.headers.get('X-Data-Age')).toBe('90');
+  });
+});
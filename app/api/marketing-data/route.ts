@@ -1,41 +1,106 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { parseCampaignFilters, applyCampaignFilters } from '../../../src/lib/campaign-filters';
+import {
+  getMarketingData,
+  createETag,
+  matchesETag,
+  InvalidMarketingDataError,
+} from '../../../src/lib/server/marketing-data';
+import { getRequestRole } from '../../../src/lib/server/session';
+import { redactMarketingData } from '../../../src/lib/access';
+
+// Methods and headers for CORS; the middleware adds Access-Control-Allow-Origin for allowed origins
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag, X-Cache, X-Validation-Warnings, X-Data-Stale, X-Data-Age',
+};
 
 export async function GET(request: NextRequest) {
   try {
-    const response = await fetch('https://www.amanabootcamp.org/api/fs-classwork-data/amana-marketing', {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      // Add cache control to prevent stale data
-      cache: 'no-store'
-    });
+    // Cached, validated payload from the configured data source
+    const { data, warnings, cacheStatus, stale } = await getMarketingData();
+
+    // Filter campaigns server-side using the payload's own filter options
+    const parsed = parseCampaignFilters(request.nextUrl.searchParams, data.filters);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          message: parsed.errors.map(detail => detail.message).join('; '),
+          details: parsed.errors
+        },
+        { status: 400, headers: CORS_HEADERS }
+      );
+    }
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    // Viewers never receive budget, spend or the ratios derived from spend
+    const filtered = redactMarketingData(applyCampaignFilters(data, parsed.filters), await getRequestRole(request));
+    // Upstream is down: mark the last-known-good snapshot as stale and say how old it is
+    const ageSeconds = stale ? Math.floor((Date.now() - stale.savedAt) / 1000) : 0;
+    if (stale) {
+      filtered.freshness = {
+        stale: true,
+        cached_at: new Date(stale.savedAt).toISOString(),
+        age_seconds: ageSeconds,
+        reason: stale.reason,
+      };
     }
 
-    const data = await response.json();
-    
-    return NextResponse.json(data, {
+    const body = JSON.stringify(filtered);
+    // The snapshot's age grows every second while the data stays the same, so it
+    // is left out of the ETag; X-Data-Age carries it, on 304s too
+    const etag = createETag(JSON.stringify(
+      filtered.freshness ? { ...filtered, freshness: { ...filtered.freshness, age_seconds: null } } : filtered
+    ));
+    const headers: Record<string, string> = {
+      ...CORS_HEADERS,
+      'ETag': etag,
+      // Clients may keep the payload but must revalidate it with If-None-Match
+      'Cache-Control': 'no-cache',
+      // The body depends on the caller's role
+      'Vary': 'Cookie, Authorization, X-API-Key',
+      'X-Cache': cacheStatus,
+      'X-Validation-Warnings': String(warnings.length),
+    };
+    if (stale) {
+      headers['X-Data-Stale'] = 'true';
+      headers['X-Data-Age'] = String(ageSeconds);
+    }
+
+    if (matchesETag(request.headers.get('if-none-match'), etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(body, {
       status: 200,
       headers: {
+        ...headers,
         'Content-Type': 'application/json',
-        // Add CORS headers for local development
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
       },
     });
   } catch (error) {
+    if (error instanceof InvalidMarketingDataError) {
+      console.error('Invalid marketing data:', error.violations);
+
+      return NextResponse.json(
+        {
+          error: 'Invalid marketing data',
+          message: error.message,
+          violations: error.violations
+        },
+        { status: 502, headers: CORS_HEADERS }
+      );
+    }
+
     console.error('Error fetching marketing data:', error);
-    
+
     return NextResponse.json(
-      { 
+      {
         error: 'Failed to fetch marketing data',
         message: error instanceof Error ? error.message : 'Unknown error'
       },
-      { status: 500 }
+      { status: 500, headers: CORS_HEADERS }
     );
   }
 }
@@ -44,10 +109,6 @@ export async function GET(request: NextRequest) {
 export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
     status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    },
+    headers: CORS_HEADERS,
   });
 }
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseQuery, runQuery, QUERY_MEASURES } from '../../../src/lib/query';
+import { getMarketingData, InvalidMarketingDataError } from '../../../src/lib/server/marketing-data';
+import { getRequestRole } from '../../../src/lib/server/session';
+import { canViewFinancials, isFinancialField } from '../../../src/lib/access';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+};
+
+export async function GET(request: NextRequest) {
+  const parsed = parseQuery(request.nextUrl.searchParams);
+  if (!parsed.ok) {
+    return NextResponse.json(
+      {
+        error: 'Invalid query parameters',
+        message: parsed.errors.map(detail => detail.message).join('; '),
+        details: parsed.errors
+      },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+
+  const query = parsed.query;
+  if (!canViewFinancials(await getRequestRole(request))) {
+    // Viewers get every measure they may see by default, and are refused the rest
+    const requested = [...(query.measures ?? []), ...(query.sort ? [query.sort.by] : [])];
+    const financial = requested.filter(isFinancialField);
+    if (financial.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Forbidden',
+          message: `${[...new Set(financial)].join(', ')} ${financial.length === 1 ? 'requires' : 'require'} the finance or admin role`
+        },
+        { status: 403, headers: CORS_HEADERS }
+      );
+    }
+    query.measures ??= QUERY_MEASURES.filter(measure => !isFinancialField(measure));
+  }
+
+  try {
+    const { data } = await getMarketingData();
+    const result = runQuery(data.campaigns, query);
+
+    return NextResponse.json({ query, ...result }, { headers: CORS_HEADERS });
+  } catch (error) {
+    if (error instanceof InvalidMarketingDataError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid marketing data',
+          message: error.message,
+          violations: error.violations
+        },
+        { status: 502, headers: CORS_HEADERS }
+      );
+    }
+
+    console.error('Error querying marketing data:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to query marketing data',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
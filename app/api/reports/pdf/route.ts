@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiErrorDetail } from '../../../../src/types/marketing';
+import { parseCampaignFilters, applyCampaignFilters } from '../../../../src/lib/campaign-filters';
+import { buildMarketingReport, REPORT_SECTIONS, ReportSection } from '../../../../src/lib/server/pdf-report';
+import { getMarketingData, InvalidMarketingDataError } from '../../../../src/lib/server/marketing-data';
+import { getRequestRole } from '../../../../src/lib/server/session';
+import { canViewFinancials } from '../../../../src/lib/access';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+  'Access-Control-Expose-Headers': 'Content-Disposition',
+};
+
+const DEFAULT_TOP_COUNT = 10;
+const MAX_TOP_COUNT = 50;
+
+// Report-specific parameters: sections and top. The reporting period is the
+// start_date_from / start_date_to campaign filter, which every section honours.
+function parseReportParameters(params: URLSearchParams) {
+  const errors: ApiErrorDetail[] = [];
+
+  const requested = params.getAll('sections')
+    .flatMap(value => value.split(','))
+    .map(value => value.trim().toLowerCase())
+    .filter(Boolean);
+  requested.forEach(section => {
+    if (!REPORT_SECTIONS.includes(section as ReportSection)) {
+      errors.push({ parameter: 'sections', value: section, message: `Unknown report section "${section}"`, allowed: REPORT_SECTIONS });
+    }
+  });
+  const sections = requested.length > 0 ? requested as ReportSection[] : REPORT_SECTIONS;
+
+  const topParam = params.get('top');
+  const topCount = topParam === null ? DEFAULT_TOP_COUNT : Number(topParam);
+  if (!Number.isInteger(topCount) || topCount < 1 || topCount > MAX_TOP_COUNT) {
+    errors.push({ parameter: 'top', value: topParam ?? undefined, message: `top must be an integer between 1 and ${MAX_TOP_COUNT}` });
+  }
+
+  return { errors, sections, topCount };
+}
+
+export async function GET(request: NextRequest) {
+  // Every report section leads with spend and ROAS figures
+  if (!canViewFinancials(await getRequestRole(request))) {
+    return NextResponse.json(
+      {
+        error: 'Forbidden',
+        message: 'The PDF report includes spend and budget figures and requires the finance or admin role'
+      },
+      { status: 403, headers: CORS_HEADERS }
+    );
+  }
+
+  const params = request.nextUrl.searchParams;
+  const report = parseReportParameters(params);
+
+  try {
+    const { data } = await getMarketingData();
+
+    const parsed = parseCampaignFilters(params, data.filters);
+    const errors = [...report.errors, ...(parsed.ok ? [] : parsed.errors)];
+    if (!parsed.ok || errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          message: errors.map(detail => detail.message).join('; '),
+          details: errors
+        },
+        { status: 400, headers: CORS_HEADERS }
+      );
+    }
+
+    const filtered = applyCampaignFilters(data, parsed.filters);
+    const pdf = await buildMarketingReport(
+      filtered,
+      {
+        sections: report.sections,
+        filters: parsed.filters,
+        topCount: report.topCount,
+      },
+      data.campaigns.length
+    );
+    const fileName = `marketing-report-${new Date().toISOString().slice(0, 10)}.pdf`;
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        ...CORS_HEADERS,
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof InvalidMarketingDataError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid marketing data',
+          message: error.message,
+          violations: error.violations
+        },
+        { status: 502, headers: CORS_HEADERS }
+      );
+    }
+
+    console.error('Error building PDF report:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to build report',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readSnapshot } from '../../../../src/lib/server/snapshot-store';
+import { getRequestRole } from '../../../../src/lib/server/session';
+import { redactMarketingData } from '../../../../src/lib/access';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const snapshot = await readSnapshot(id);
+    if (!snapshot) {
+      return NextResponse.json(
+        {
+          error: 'Snapshot not found',
+          message: `No snapshot with id ${id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ...snapshot, data: redactMarketingData(snapshot.data, await getRequestRole(request)) });
+  } catch (error) {
+    console.error('Error reading snapshot:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to read snapshot',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiErrorDetail } from '../../../../src/types/marketing';
+import { readSnapshot } from '../../../../src/lib/server/snapshot-store';
+import { diffCampaigns } from '../../../../src/lib/campaign-diff';
+import { getRequestRole } from '../../../../src/lib/server/session';
+import { redactMarketingData } from '../../../../src/lib/access';
+
+// Campaign-level diff between two snapshots: ?from=<older id>&to=<newer id>
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const ids = { from: params.get('from'), to: params.get('to') };
+
+  const missing: ApiErrorDetail[] = (['from', 'to'] as const)
+    .filter(parameter => !ids[parameter])
+    .map(parameter => ({ parameter, message: `The ${parameter} parameter is required` }));
+  if (missing.length > 0) {
+    return NextResponse.json(
+      {
+        error: 'Invalid query parameters',
+        message: missing.map(detail => detail.message).join('; '),
+        details: missing
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [from, to] = await Promise.all([readSnapshot(ids.from!), readSnapshot(ids.to!)]);
+    const notFound = [from ? null : ids.from, to ? null : ids.to].filter(Boolean);
+    if (!from || !to) {
+      return NextResponse.json(
+        {
+          error: 'Snapshot not found',
+          message: `No snapshot with id ${notFound.join(', ')}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const { data: before, ...fromSummary } = from;
+    const { data: after, ...toSummary } = to;
+    // Diffing redacted payloads keeps financial fields out of a viewer's diff
+    const role = await getRequestRole(request);
+    const diff = diffCampaigns(redactMarketingData(before, role).campaigns, redactMarketingData(after, role).campaigns);
+
+    return NextResponse.json({
+      from: fromSummary,
+      to: toSummary,
+      summary: {
+        added: diff.added.length,
+        removed: diff.removed.length,
+        changed: diff.changed.length,
+        unchanged: diff.unchanged,
+      },
+      ...diff,
+    });
+  } catch (error) {
+    console.error('Error diffing snapshots:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to diff snapshots',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listSnapshots } from '../../../src/lib/server/snapshot-store';
+
+const DEFAULT_LIMIT = 50;
+
+// Snapshot summaries, newest first; `limit` caps how many are returned
+export async function GET(request: NextRequest) {
+  const limitParam = request.nextUrl.searchParams.get('limit');
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+
+  if (!Number.isInteger(limit) || limit < 1) {
+    const message = 'limit must be a positive integer';
+    return NextResponse.json(
+      {
+        error: 'Invalid query parameters',
+        message,
+        details: [{ parameter: 'limit', value: limitParam ?? undefined, message }]
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const snapshots = await listSnapshots();
+    return NextResponse.json({
+      total: snapshots.length,
+      snapshots: snapshots.slice(0, limit),
+    });
+  } catch (error) {
+    console.error('Error listing snapshots:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list snapshots',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,419 @@
+"use client";
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useMarketingData } from '../../../src/components/providers/marketing-data-provider';
+import { useCurrency } from '../../../src/components/providers/currency-provider';
+import { useSession } from '../../../src/components/providers/session-provider';
+import { fetchCampaign } from '../../../src/lib/api';
+import { isAbortError } from '../../../src/lib/errors';
+import { Campaign } from '../../../src/types/marketing';
+import { visibleColumns } from '../../../src/lib/access';
+import { Navbar } from '../../../src/components/ui/navbar';
+import { Footer } from '../../../src/components/ui/footer';
+import { ErrorBanner } from '../../../src/components/ui/error-banner';
+import { StaleDataNotice } from '../../../src/components/ui/stale-data-notice';
+import { CardMetric } from '../../../src/components/ui/card-metric';
+import { LineChart } from '../../../src/components/ui/line-chart';
+import { Table, TableColumn } from '../../../src/components/ui/table';
+import {
+  ArrowLeft, DollarSign, TrendingUp, Target, MousePointer, Users, Zap,
+  Calendar, MapPin, Monitor, Image as ImageIcon, Crosshair, Clock
+} from 'lucide-react';
+
+const formatWeek = (weekStart: string) =>
+  `Week ${new Date(weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+
+const CENTS = { minimumFractionDigits: 2, maximumFractionDigits: 2 };
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+function TagList({ title, values }: { title: string; values: string[] }) {
+  return (
+    <div>
+      <p className="text-gray-400 text-xs uppercase tracking-wide mb-2">{title}</p>
+      {values.length === 0 ? (
+        <p className="text-gray-500 text-sm">None</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {values.map(value => (
+            <span key={value} className="px-2 py-1 rounded-full text-xs font-medium bg-gray-700 text-gray-200">
+              {value}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CampaignDetailView() {
+  const params = useParams<{ id: string }>();
+  const { data: marketingData, loading, error, refetch } = useMarketingData();
+  const { formatMoney } = useCurrency();
+  const { canViewFinancials } = useSession();
+  // Undefined until loaded, null when there is no such campaign
+  const [campaign, setCampaign] = useState<Campaign | null>();
+  const [campaignError, setCampaignError] = useState<unknown>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  // Fetched on its own, and again whenever the data is reloaded
+  useEffect(() => {
+    const controller = new AbortController();
+    setCampaign(undefined);
+    setCampaignError(null);
+    fetchCampaign(params.id, controller.signal)
+      .then(setCampaign)
+      .catch(fetchError => {
+        if (!isAbortError(fetchError)) setCampaignError(fetchError);
+      });
+    return () => controller.abort();
+  }, [params.id, marketingData, attempt]);
+
+  // Weekly series sorted by week start for the trend charts
+  const weeklyData = useMemo(() => {
+    if (!campaign) return [];
+    return [...campaign.weekly_performance].sort((a, b) =>
+      new Date(a.week_start).getTime() - new Date(b.week_start).getTime()
+    );
+  }, [campaign]);
+
+  if (loading || (campaign === undefined && !campaignError)) {
+    return (
+      <div className="flex h-screen bg-gray-900">
+        <Navbar />
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-white">Loading campaign...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col lg:flex-row min-h-screen bg-gray-900">
+      <Navbar />
+
+      {/* Main Content Area */}
+      <div className="flex-1 flex flex-col transition-all duration-300 ease-in-out overflow-hidden">
+        {/* Hero Section */}
+        <section className="bg-gradient-to-r from-gray-800 to-gray-700 text-white py-8 sm:py-12">
+          <div className="px-4 sm:px-6 lg:px-8">
+            <div className="text-center">
+              {error || campaignError ? (
+                <ErrorBanner
+                  error={error || campaignError}
+                  onRetry={error ? refetch : () => setAttempt(count => count + 1)}
+                />
+              ) : (
+                <>
+                  <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold">
+                    {campaign ? campaign.name : 'Campaign Not Found'}
+                  </h1>
+                  {campaign && (
+                    <div className="flex flex-wrap justify-center gap-2 mt-4 text-xs sm:text-sm">
+                      <span className={`px-2 py-1 rounded-full font-medium ${
+                        campaign.status === 'Active' ? 'bg-green-900 text-green-300' :
+                        campaign.status === 'Paused' ? 'bg-yellow-900 text-yellow-300' :
+                        'bg-gray-700 text-gray-300'
+                      }`}>
+                        {campaign.status}
+                      </span>
+                      <span className="px-2 py-1 rounded-full font-medium bg-blue-900 text-blue-300">{campaign.objective}</span>
+                      <span className="px-2 py-1 rounded-full font-medium bg-gray-700 text-gray-300">{campaign.medium}</span>
+                      <span className="px-2 py-1 rounded-full font-medium bg-gray-700 text-gray-300">{campaign.format}</span>
+                      <span className="px-2 py-1 rounded-full font-medium bg-gray-700 text-gray-300">{campaign.product_category}</span>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </section>
+
+        {/* Content Area */}
+        <div className="flex-1 p-3 sm:p-4 lg:p-6 overflow-y-auto w-full max-w-full">
+          <Link
+            href="/campaign-view"
+            className="inline-flex items-center text-sm text-gray-400 hover:text-white transition-colors mb-4 sm:mb-6"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to campaigns
+          </Link>
+
+          {campaign === null && (
+            <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 text-gray-300">
+              No campaign with id {params.id} exists in the current data.
+            </div>
+          )}
+
+          {campaign && (
+            <>
+              <StaleDataNotice freshness={marketingData?.freshness} />
+
+              {/* Headline Metrics */}
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 mb-4 sm:mb-6">
+                {canViewFinancials && (
+                  <CardMetric
+                    title="Spend / Budget"
+                    value={`${formatMoney(campaign.spend)} / ${formatMoney(campaign.budget)}`}
+                    icon={<DollarSign className="h-5 w-5" />}
+                  />
+                )}
+                <CardMetric
+                  title="Revenue"
+                  value={formatMoney(campaign.revenue)}
+                  icon={<TrendingUp className="h-5 w-5" />}
+                  className="text-green-400"
+                />
+                {canViewFinancials && (
+                  <CardMetric
+                    title="ROAS"
+                    value={`${campaign.roas.toFixed(1)}x`}
+                    icon={<Zap className="h-5 w-5" />}
+                    className="text-blue-400"
+                  />
+                )}
+                <CardMetric
+                  title="Budget Utilization"
+                  value={`${campaign.budget_utilization.toFixed(1)}%`}
+                  icon={<Target className="h-5 w-5" />}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 mb-6 sm:mb-8">
+                <CardMetric
+                  title="Impressions"
+                  value={campaign.impressions.toLocaleString()}
+                  icon={<Target className="h-5 w-5" />}
+                />
+                <CardMetric
+                  title="Clicks (CTR)"
+                  value={`${campaign.clicks.toLocaleString()} (${campaign.ctr.toFixed(2)}%)`}
+                  icon={<MousePointer className="h-5 w-5" />}
+                />
+                <CardMetric
+                  title="Conversions (CVR)"
+                  value={`${campaign.conversions.toLocaleString()} (${campaign.conversion_rate.toFixed(2)}%)`}
+                  icon={<Users className="h-5 w-5" />}
+                  className="text-purple-400"
+                />
+                {canViewFinancials && (
+                  <CardMetric
+                    title="CPC / CPA"
+                    value={`${formatMoney(campaign.cpc, CENTS)} / ${formatMoney(campaign.cpa, CENTS)}`}
+                    icon={<DollarSign className="h-5 w-5" />}
+                  />
+                )}
+              </div>
+
+              {/* Timeline & Targeting */}
+              <div className="grid grid-cols-1 xl:grid-cols-3 gap-4 sm:gap-6 mb-6 sm:mb-8">
+                <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+                  <div className="flex items-center mb-4">
+                    <Clock className="h-5 w-5 text-gray-400 mr-2" />
+                    <h2 className="text-lg font-semibold text-white">Timeline</h2>
+                  </div>
+                  <dl className="space-y-3 text-sm">
+                    <div className="flex justify-between">
+                      <dt className="text-gray-400">Created</dt>
+                      <dd className="text-white">{formatDate(campaign.timeline.created_date)}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-400">Started</dt>
+                      <dd className="text-white">{formatDate(campaign.timeline.start_date)}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-400">Last updated</dt>
+                      <dd className="text-white">{formatDate(campaign.timeline.last_updated)}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-gray-400">Avg. order value</dt>
+                      <dd className="text-white">{formatMoney(campaign.average_order_value)}</dd>
+                    </div>
+                  </dl>
+                </div>
+
+                <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 xl:col-span-2">
+                  <div className="flex items-center mb-4">
+                    <Crosshair className="h-5 w-5 text-gray-400 mr-2" />
+                    <h2 className="text-lg font-semibold text-white">Targeting</h2>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <TagList title="Regions" values={campaign.targeting.regions} />
+                    <TagList title="Interests" values={campaign.targeting.interests} />
+                    <TagList title="Behaviors" values={campaign.targeting.behaviors} />
+                    <TagList title="Custom Audiences" values={campaign.targeting.custom_audiences} />
+                    <TagList title="Age Groups" values={campaign.target_demographics.age_groups} />
+                    <TagList
+                      title="Genders / Primary Device"
+                      values={[...campaign.target_demographics.genders, campaign.target_demographics.primary_device]}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* Weekly Trends */}
+              <div className="mb-6 sm:mb-8">
+                <div className="flex items-center mb-4 sm:mb-6">
+                  <Calendar className="h-5 w-5 text-gray-400 mr-2" />
+                  <h2 className="text-lg sm:text-xl font-semibold text-white">Weekly Performance</h2>
+                </div>
+                <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 sm:gap-6">
+                  <LineChart
+                    title="Revenue by Week"
+                    data={weeklyData.map(week => ({ label: formatWeek(week.week_start), value: week.revenue }))}
+                    lineColor="#10B981"
+                    formatValue={(value) => formatMoney(value, { maximumFractionDigits: 0 })}
+                  />
+                  {canViewFinancials && (
+                    <LineChart
+                      title="Spend by Week"
+                      data={weeklyData.map(week => ({ label: formatWeek(week.week_start), value: week.spend }))}
+                      lineColor="#3B82F6"
+                      formatValue={(value) => formatMoney(value, { maximumFractionDigits: 0 })}
+                    />
+                  )}
+                </div>
+              </div>
+
+              {/* Regional Breakdown */}
+              <div className="mb-6 sm:mb-8">
+                <div className="flex items-center mb-4 sm:mb-6">
+                  <MapPin className="h-5 w-5 text-gray-400 mr-2" />
+                  <h2 className="text-lg sm:text-xl font-semibold text-white">Regional Performance</h2>
+                </div>
+                <div className="overflow-x-auto w-full max-w-full">
+                  <Table
+                    exportFileName={`campaign-${campaign.id}-regions`}
+                    title={`Regions (${campaign.regional_performance.length})`}
+                    maxHeight="400px"
+                    columns={visibleColumns<TableColumn>([
+                      { key: 'region', header: 'Region', sortable: true, sortType: 'string' },
+                      { key: 'impressions', header: 'Impressions', align: 'right', sortable: true, sortType: 'number', render: (value) => value.toLocaleString() },
+                      { key: 'clicks', header: 'Clicks', align: 'right', sortable: true, sortType: 'number', render: (value) => value.toLocaleString() },
+                      { key: 'conversions', header: 'Conversions', align: 'right', sortable: true, sortType: 'number' },
+                      { key: 'spend', header: 'Spend', align: 'right', sortable: true, sortType: 'number', render: (value) => formatMoney(value) },
+                      {
+                        key: 'revenue',
+                        header: 'Revenue',
+                        align: 'right',
+                        sortable: true,
+                        sortType: 'number',
+                        render: (value) => <span className="text-green-400 font-medium">{formatMoney(value)}</span>
+                      },
+                      { key: 'ctr', header: 'CTR', align: 'right', sortable: true, sortType: 'number', render: (value) => `${value.toFixed(2)}%` },
+                      {
+                        key: 'roas',
+                        header: 'ROAS',
+                        align: 'right',
+                        sortable: true,
+                        sortType: 'number',
+                        render: (value) => <span className="text-blue-400 font-medium">{value.toFixed(1)}x</span>
+                      }
+                    ], canViewFinancials)}
+                    defaultSort={{ key: 'revenue', direction: 'desc' }}
+                    data={campaign.regional_performance}
+                    emptyMessage="No regional data for this campaign"
+                  />
+                </div>
+              </div>
+
+              {/* Device & Demographic Breakdown */}
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 sm:gap-6 mb-6 sm:mb-8">
+                <div className="overflow-x-auto w-full max-w-full">
+                  <div className="flex items-center mb-4 sm:mb-6">
+                    <Monitor className="h-5 w-5 text-gray-400 mr-2" />
+                    <h2 className="text-lg sm:text-xl font-semibold text-white">Devices</h2>
+                  </div>
+                  <Table
+                    exportFileName={`campaign-${campaign.id}-devices`}
+                    title="Device Performance"
+                    columns={visibleColumns<TableColumn>([
+                      { key: 'device', header: 'Device', sortable: true, sortType: 'string' },
+                      { key: 'percentage_of_traffic', header: 'Traffic', align: 'right', sortable: true, sortType: 'number', render: (value) => `${value.toFixed(1)}%` },
+                      { key: 'clicks', header: 'Clicks', align: 'right', sortable: true, sortType: 'number', render: (value) => value.toLocaleString() },
+                      { key: 'conversions', header: 'Conversions', align: 'right', sortable: true, sortType: 'number' },
+                      { key: 'spend', header: 'Spend', align: 'right', sortable: true, sortType: 'number', render: (value) => formatMoney(value) },
+                      { key: 'revenue', header: 'Revenue', align: 'right', sortable: true, sortType: 'number', render: (value) => formatMoney(value) }
+                    ], canViewFinancials)}
+                    defaultSort={{ key: 'revenue', direction: 'desc' }}
+                    data={campaign.device_performance}
+                    emptyMessage="No device data for this campaign"
+                  />
+                </div>
+
+                <div className="overflow-x-auto w-full max-w-full">
+                  <div className="flex items-center mb-4 sm:mb-6">
+                    <Users className="h-5 w-5 text-gray-400 mr-2" />
+                    <h2 className="text-lg sm:text-xl font-semibold text-white">Demographics</h2>
+                  </div>
+                  <Table
+                    exportFileName={`campaign-${campaign.id}-demographics`}
+                    title="Demographic Performance"
+                    maxHeight="400px"
+                    columns={[
+                      { key: 'age_group', header: 'Age', sortable: true, sortType: 'string' },
+                      { key: 'gender', header: 'Gender', sortable: true, sortType: 'string' },
+                      { key: 'percentage_of_audience', header: 'Audience', align: 'right', sortable: true, sortType: 'number', render: (value) => `${value.toFixed(1)}%` },
+                      { key: 'clicks', header: 'Clicks', align: 'right', sortable: true, sortType: 'number', render: (value) => value.toLocaleString() },
+                      { key: 'conversions', header: 'Conversions', align: 'right', sortable: true, sortType: 'number' },
+                      { key: 'ctr', header: 'CTR', align: 'right', sortable: true, sortType: 'number', render: (value) => `${value.toFixed(2)}%` }
+                    ]}
+                    defaultSort={{ key: 'percentage_of_audience', direction: 'desc' }}
+                    data={campaign.demographic_breakdown.map(segment => ({
+                      age_group: segment.age_group,
+                      gender: segment.gender,
+                      percentage_of_audience: segment.percentage_of_audience,
+                      ...segment.performance
+                    }))}
+                    emptyMessage="No demographic data for this campaign"
+                  />
+                </div>
+              </div>
+
+              {/* Creatives */}
+              <div className="overflow-x-auto w-full max-w-full">
+                <div className="flex items-center mb-4 sm:mb-6">
+                  <ImageIcon className="h-5 w-5 text-gray-400 mr-2" />
+                  <h2 className="text-lg sm:text-xl font-semibold text-white">Creatives</h2>
+                </div>
+                <Table
+                  exportFileName={`campaign-${campaign.id}-creatives`}
+                  title={`Creatives (${campaign.creatives.length})`}
+                  columns={[
+                    {
+                      key: 'name',
+                      header: 'Creative',
+                      sortable: true,
+                      sortType: 'string',
+                      render: (value, row) => (
+                        <div className="font-medium text-white">
+                          {value}
+                          {row.is_primary && (
+                            <span className="ml-2 px-1.5 py-0.5 rounded-full text-xs font-medium bg-blue-900 text-blue-300">Primary</span>
+                          )}
+                        </div>
+                      )
+                    },
+                    { key: 'format', header: 'Format', align: 'center', sortable: true, sortType: 'string' },
+                    { key: 'a_b_test_variant', header: 'Variant', align: 'center', sortable: true, sortType: 'string' },
+                    { key: 'impressions', header: 'Impressions', align: 'right', sortable: true, sortType: 'number', render: (value) => value.toLocaleString() },
+                    { key: 'clicks', header: 'Clicks', align: 'right', sortable: true, sortType: 'number', render: (value) => value.toLocaleString() },
+                    { key: 'ctr', header: 'CTR', align: 'right', sortable: true, sortType: 'number', render: (value) => `${value.toFixed(2)}%` },
+                    { key: 'performance_score', header: 'Score', align: 'right', sortable: true, sortType: 'number', render: (value) => value.toFixed(1) }
+                  ]}
+                  defaultSort={{ key: 'performance_score', direction: 'desc' }}
+                  data={campaign.creatives}
+                  emptyMessage="No creatives for this campaign"
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <Footer />
+      </div>
+    </div>
+  );
+}
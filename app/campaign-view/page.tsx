@@ -1,42 +1,33 @@
 "use client";
-import { useState, useEffect, useMemo } from 'react';
-import { fetchMarketingData } from '../../src/lib/api';
-import { MarketingData, Campaign } from '../../src/types/marketing';
+import { useState, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { useMarketingData } from '../../src/components/providers/marketing-data-provider';
+import { useCurrency } from '../../src/components/providers/currency-provider';
+import { useSession } from '../../src/components/providers/session-provider';
+import { visibleColumns } from '../../src/lib/access';
+import { Campaign } from '../../src/types/marketing';
+import { runQuery } from '../../src/lib/query';
 import { Navbar } from '../../src/components/ui/navbar';
 import { Footer } from '../../src/components/ui/footer';
+import { ErrorBanner } from '../../src/components/ui/error-banner';
+import { StaleDataNotice } from '../../src/components/ui/stale-data-notice';
 import { CardMetric } from '../../src/components/ui/card-metric';
 import { BarChart } from '../../src/components/ui/bar-chart';
-import { Table } from '../../src/components/ui/table';
+import { Table, TableColumn } from '../../src/components/ui/table';
 import { SearchFilter } from '../../src/components/ui/search-filter';
 import { DropdownFilter } from '../../src/components/ui/dropdown-filter';
 import { Target, DollarSign, TrendingUp, Users, Activity, Zap, Filter } from 'lucide-react';
 
 export default function CampaignView() {
-  const [marketingData, setMarketingData] = useState<MarketingData | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const { data: marketingData, loading, error, refetch } = useMarketingData();
+  const { formatMoney } = useCurrency();
+  const { canViewFinancials } = useSession();
   
   // Filter states
   const [nameFilter, setNameFilter] = useState('');
   const [typeFilter, setTypeFilter] = useState<string[]>([]);
 
-  // Load data on component mount
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const data = await fetchMarketingData();
-        setMarketingData(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load data');
-        console.error('Error loading marketing data:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadData();
-  }, []);
-
   // Filter campaigns based on current filter values
   const filteredCampaigns = useMemo(() => {
     if (!marketingData?.campaigns) return [];
@@ -49,6 +40,12 @@ export default function CampaignView() {
     });
   }, [marketingData?.campaigns, nameFilter, typeFilter]);
 
+  // Totals over the filtered campaigns
+  const filteredTotals = useMemo(
+    () => runQuery(filteredCampaigns, { group_by: [], measures: ['spend', 'revenue', 'conversions'] }).totals,
+    [filteredCampaigns]
+  );
+
   // Get unique campaign types for the dropdown
   const campaignTypes = useMemo(() => {
     if (!marketingData?.campaigns) return [];
@@ -77,9 +74,7 @@ export default function CampaignView() {
           <div className="px-4 sm:px-6 lg:px-8">
             <div className="text-center">
               {error ? (
-                <div className="bg-red-900 border border-red-700 text-red-200 px-3 sm:px-4 py-3 rounded mb-4 max-w-2xl mx-auto text-sm sm:text-base">
-                  Error loading data: {error}
-                </div>
+                <ErrorBanner error={error} onRetry={refetch} />
               ) : (
                 <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold">
                   Campaign Performance
@@ -93,6 +88,8 @@ export default function CampaignView() {
         <div className="flex-1 p-3 sm:p-4 lg:p-6 overflow-y-auto w-full max-w-full">
           {marketingData && (
             <>
+              <StaleDataNotice freshness={marketingData.freshness} />
+
               {/* Filters Section */}
               <div className="mb-6 sm:mb-8">
                 <div className="flex items-center mb-3 sm:mb-4">
@@ -132,21 +129,23 @@ export default function CampaignView() {
                   icon={<Target className="h-5 w-5" />}
                 />
                 
-                <CardMetric
-                  title="Total Spend"
-                  value={`$${filteredCampaigns.reduce((sum, c) => sum + c.spend, 0).toLocaleString()}`}
-                  icon={<DollarSign className="h-5 w-5" />}
-                />
+                {canViewFinancials && (
+                  <CardMetric
+                    title="Total Spend"
+                    value={formatMoney(filteredTotals.spend)}
+                    icon={<DollarSign className="h-5 w-5" />}
+                  />
+                )}
                 
                 <CardMetric
                   title="Total Revenue"
-                  value={`$${filteredCampaigns.reduce((sum, c) => sum + c.revenue, 0).toLocaleString()}`}
+                  value={formatMoney(filteredTotals.revenue)}
                   icon={<TrendingUp className="h-5 w-5" />}
                 />
                 
                 <CardMetric
                   title="Total Conversions"
-                  value={filteredCampaigns.reduce((sum, c) => sum + c.conversions, 0)}
+                  value={filteredTotals.conversions}
                   icon={<Users className="h-5 w-5" />}
                 />
               </div>
@@ -161,19 +160,21 @@ export default function CampaignView() {
                     value: campaign.revenue,
                     color: '#10B981'
                   }))}
-                  formatValue={(value) => `$${value.toLocaleString()}`}
+                  formatValue={(value) => formatMoney(value)}
                 />
 
                 {/* Campaign ROAS Comparison */}
-                <BarChart
-                  title="Campaign ROAS Comparison (Filtered)"
-                  data={filteredCampaigns.slice(0, 6).map(campaign => ({
-                    label: campaign.name.split(' - ')[0],
-                    value: campaign.roas,
-                    color: '#3B82F6'
-                  }))}
-                  formatValue={(value) => `${value.toFixed(1)}x`}
-                />
+                {canViewFinancials && (
+                  <BarChart
+                    title="Campaign ROAS Comparison (Filtered)"
+                    data={filteredCampaigns.slice(0, 6).map(campaign => ({
+                      label: campaign.name.split(' - ')[0],
+                      value: campaign.roas,
+                      color: '#3B82F6'
+                    }))}
+                    formatValue={(value) => `${value.toFixed(1)}x`}
+                  />
+                )}
               </div>
 
               {/* Campaign Medium & Device Performance */}
@@ -181,25 +182,14 @@ export default function CampaignView() {
                 {/* Performance by Medium */}
                 <BarChart
                   title="Campaign Performance by Medium (Filtered)"
-                  data={(() => {
-                    const mediumData: { [key: string]: { revenue: number, conversions: number } } = {};
-                    filteredCampaigns.forEach(campaign => {
-                      if (!mediumData[campaign.medium]) {
-                        mediumData[campaign.medium] = { revenue: 0, conversions: 0 };
-                      }
-                      mediumData[campaign.medium].revenue += campaign.revenue;
-                      mediumData[campaign.medium].conversions += campaign.conversions;
-                    });
-                    
-                    return Object.entries(mediumData).map(([medium, data]) => ({
-                      label: medium,
-                      value: data.revenue,
-                      color: medium === 'Instagram' ? '#E1306C' : 
-                             medium === 'Facebook' ? '#1877F2' : 
-                             medium === 'Google Ads' ? '#4285F4' : '#8B5CF6'
-                    }));
-                  })()}
-                  formatValue={(value) => `$${value.toLocaleString()}`}
+                  data={runQuery(filteredCampaigns, { group_by: ['medium'], measures: ['revenue'] }).rows.map(({ medium, revenue }) => ({
+                    label: medium,
+                    value: revenue,
+                    color: medium === 'Instagram' ? '#E1306C' : 
+                           medium === 'Facebook' ? '#1877F2' : 
+                           medium === 'Google Ads' ? '#4285F4' : '#8B5CF6'
+                  }))}
+                  formatValue={(value) => formatMoney(value)}
                 />
 
                 {/* Campaign Conversion Rates */}
@@ -217,10 +207,11 @@ export default function CampaignView() {
               {/* Campaign Details Table */}
               <div className="overflow-x-auto w-full max-w-full">
                 <Table
+                  exportFileName="campaigns"
                   title={`Campaign Details (${filteredCampaigns.length} campaigns)`}
                   showIndex={true}
                   maxHeight="400px"
-                columns={[
+                columns={visibleColumns<TableColumn>([
                   {
                     key: 'name',
                     header: 'Campaign Name',
@@ -287,7 +278,7 @@ export default function CampaignView() {
                     sortType: 'number',
                     render: (value) => (
                       <span className="text-xs sm:text-sm">
-                        ${value.toLocaleString()}
+                        {formatMoney(value)}
                       </span>
                     )
                   },
@@ -300,7 +291,7 @@ export default function CampaignView() {
                     sortType: 'number',
                     render: (value) => (
                       <span className="text-xs sm:text-sm">
-                        ${value.toLocaleString()}
+                        {formatMoney(value)}
                       </span>
                     )
                   },
@@ -313,7 +304,7 @@ export default function CampaignView() {
                     sortType: 'number',
                     render: (value) => (
                       <span className="text-green-400 font-medium text-xs sm:text-sm">
-                        ${value.toLocaleString()}
+                        {formatMoney(value)}
                       </span>
                     )
                   },
@@ -338,10 +329,11 @@ export default function CampaignView() {
                       </span>
                     )
                   }
-                ]}
+                ], canViewFinancials)}
                 defaultSort={{ key: 'revenue', direction: 'desc' }}
                 data={filteredCampaigns}
                 emptyMessage="No campaigns match the current filters"
+                onRowClick={(campaign: Campaign) => router.push(`/campaign-view/${campaign.id}`)}
               />
               </div>
             </>
@@ -0,0 +1,318 @@
+"use client";
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useMarketingData } from '../../src/components/providers/marketing-data-provider';
+import { useCurrency } from '../../src/components/providers/currency-provider';
+import { useSession } from '../../src/components/providers/session-provider';
+import { comparePayloads, ListChange } from '../../src/lib/payload-changes';
+import { Navbar } from '../../src/components/ui/navbar';
+import { Footer } from '../../src/components/ui/footer';
+import { ErrorBanner } from '../../src/components/ui/error-banner';
+import { StaleDataNotice } from '../../src/components/ui/stale-data-notice';
+import { CardMetric } from '../../src/components/ui/card-metric';
+import { Table } from '../../src/components/ui/table';
+import { GitCompare, ToggleLeft, DollarSign, PlusCircle, MinusCircle, Filter, BarChart3 } from 'lucide-react';
+
+const THRESHOLD_STORAGE_KEY = 'marketing-data:change-threshold';
+const DEFAULT_THRESHOLD = 10;
+
+// Fields of marketing_stats that are money amounts
+const MONEY_STATS = ['total_spend', 'total_revenue'];
+
+const formatLabel = (field: string) =>
+  field.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const formatPercent = (value: number | null | undefined) => {
+  if (value === null) return 'new';
+  if (value === undefined) return '';
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+};
+
+const changeColor = (value: number | undefined) =>
+  !value ? 'text-gray-400' : value > 0 ? 'text-green-400' : 'text-red-400';
+
+function ListChangeCard({ title, change }: { title: string; change: ListChange }) {
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+      <h3 className="text-lg font-semibold text-white mb-4">{title}</h3>
+      {change.added.length === 0 && change.removed.length === 0 ? (
+        <p className="text-gray-400 text-sm">No changes</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {change.added.map(value => (
+            <span key={`added-${value}`} className="px-2 py-1 rounded-full text-xs font-medium bg-green-900 text-green-300">
+              + {value}
+            </span>
+          ))}
+          {change.removed.map(value => (
+            <span key={`removed-${value}`} className="px-2 py-1 rounded-full text-xs font-medium bg-red-900 text-red-300">
+              − {value}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ChangesView() {
+  const router = useRouter();
+  const { data: marketingData, loading, error, refetch, lastFetched, previous } = useMarketingData();
+  const { formatMoney } = useCurrency();
+  const { canViewFinancials } = useSession();
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD);
+
+  // Restore the threshold chosen on an earlier visit
+  useEffect(() => {
+    const stored = Number(window.localStorage.getItem(THRESHOLD_STORAGE_KEY));
+    if (stored > 0) setThreshold(stored);
+  }, []);
+
+  const handleThresholdChange = (value: string) => {
+    const next = Math.max(0, Number(value) || 0);
+    setThreshold(next);
+    window.localStorage.setItem(THRESHOLD_STORAGE_KEY, String(next));
+  };
+
+  const changes = useMemo(() => {
+    if (!marketingData || !previous) return null;
+    return comparePayloads(previous.data, marketingData, threshold);
+  }, [marketingData, previous, threshold]);
+
+  const openCampaign = (row: { id: number }) => router.push(`/campaign-view/${row.id}`);
+
+  if (loading) {
+    return (
+      <div className="flex h-screen bg-gray-900">
+        <Navbar />
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-white">Loading...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col lg:flex-row min-h-screen bg-gray-900">
+      <Navbar />
+
+      {/* Main Content Area */}
+      <div className="flex-1 flex flex-col transition-all duration-300 ease-in-out overflow-hidden">
+        {/* Hero Section */}
+        <section className="bg-gradient-to-r from-gray-800 to-gray-700 text-white py-8 sm:py-12">
+          <div className="px-4 sm:px-6 lg:px-8">
+            <div className="text-center">
+              {error ? (
+                <ErrorBanner error={error} onRetry={refetch} />
+              ) : (
+                <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold">
+                  What Changed
+                </h1>
+              )}
+            </div>
+          </div>
+        </section>
+
+        {/* Content Area */}
+        <div className="flex-1 p-3 sm:p-4 lg:p-6 overflow-y-auto w-full max-w-full">
+          {marketingData && (
+            <>
+              <StaleDataNotice freshness={marketingData.freshness} />
+
+              {/* Comparison Settings */}
+              <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-6 sm:mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div className="flex items-start">
+                  <GitCompare className="h-5 w-5 text-gray-400 mr-2 mt-0.5 flex-shrink-0" />
+                  <p className="text-gray-300 text-sm">
+                    {previous ? (
+                      <>
+                        Comparing data fetched {lastFetched?.toLocaleString()} with the previous version
+                        from {new Date(previous.fetched_at).toLocaleString()}.
+                      </>
+                    ) : (
+                      <>
+                        No earlier version to compare with yet. This page fills in once the data
+                        changes between fetches.
+                      </>
+                    )}
+                  </p>
+                </div>
+                {canViewFinancials && (
+                  <label className="flex items-center text-sm text-gray-300 flex-shrink-0">
+                    Flag budget/spend moves over
+                    <input
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={threshold}
+                      onChange={(event) => handleThresholdChange(event.target.value)}
+                      className="mx-2 w-20 px-2 py-1 rounded-md bg-gray-900 border border-gray-600 text-white text-right"
+                    />
+                    %
+                  </label>
+                )}
+              </div>
+
+              {changes && (
+                <>
+                  {/* Summary Cards */}
+                  <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 mb-6 sm:mb-8">
+                    <CardMetric
+                      title="Status Changes"
+                      value={changes.statusFlips.length}
+                      icon={<ToggleLeft className="h-5 w-5" />}
+                    />
+                    {canViewFinancials && (
+                      <CardMetric
+                        title="Budget/Spend Moves"
+                        value={changes.moneyMoves.length}
+                        icon={<DollarSign className="h-5 w-5" />}
+                      />
+                    )}
+                    <CardMetric
+                      title="New Campaigns"
+                      value={changes.addedCampaigns.length}
+                      icon={<PlusCircle className="h-5 w-5" />}
+                      className="text-green-400"
+                    />
+                    <CardMetric
+                      title="Removed Campaigns"
+                      value={changes.removedCampaigns.length}
+                      icon={<MinusCircle className="h-5 w-5" />}
+                      className="text-red-400"
+                    />
+                  </div>
+
+                  {/* Campaign Changes */}
+                  <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 sm:gap-6 mb-6 sm:mb-8">
+                    <div className="overflow-x-auto w-full max-w-full">
+                      <Table
+                        exportFileName="status-changes"
+                        title="Status Changes"
+                        columns={[
+                          { key: 'name', header: 'Campaign', sortable: true, sortType: 'string' },
+                          { key: 'before', header: 'Before', align: 'center', sortable: true, sortType: 'string' },
+                          {
+                            key: 'after',
+                            header: 'After',
+                            align: 'center',
+                            sortable: true,
+                            sortType: 'string',
+                            render: (value) => <span className="font-medium text-white">{value}</span>
+                          }
+                        ]}
+                        data={changes.statusFlips}
+                        emptyMessage="No campaign changed status"
+                        onRowClick={openCampaign}
+                      />
+                    </div>
+
+                    {canViewFinancials && (
+                      <div className="overflow-x-auto w-full max-w-full">
+                        <Table
+                          exportFileName="budget-spend-moves"
+                          title={`Budget & Spend Moves (≥ ${threshold}%)`}
+                          columns={[
+                            { key: 'name', header: 'Campaign', sortable: true, sortType: 'string' },
+                            { key: 'field', header: 'Field', align: 'center', sortable: true, sortType: 'string', render: (value) => formatLabel(value) },
+                            { key: 'before', header: 'Before', align: 'right', sortable: true, sortType: 'number', render: (value) => formatMoney(value) },
+                            { key: 'after', header: 'After', align: 'right', sortable: true, sortType: 'number', render: (value) => formatMoney(value) },
+                            {
+                              key: 'percent_change',
+                              header: 'Change',
+                              align: 'right',
+                              sortable: true,
+                              sortType: 'number',
+                              render: (value, row) => (
+                                <span className={`font-medium ${changeColor(row.delta)}`}>{formatPercent(value)}</span>
+                              )
+                            }
+                          ]}
+                          defaultSort={{ key: 'percent_change', direction: 'desc' }}
+                          data={changes.moneyMoves}
+                          emptyMessage={`No budget or spend moved by ${threshold}% or more`}
+                          onRowClick={openCampaign}
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  {(changes.addedCampaigns.length > 0 || changes.removedCampaigns.length > 0) && (
+                    <div className="mb-6 sm:mb-8">
+                      <ListChangeCard
+                        title="New & Removed Campaigns"
+                        change={{
+                          added: changes.addedCampaigns.map(campaign => campaign.name),
+                          removed: changes.removedCampaigns.map(campaign => campaign.name)
+                        }}
+                      />
+                    </div>
+                  )}
+
+                  {/* Filter Option Changes */}
+                  <div className="mb-6 sm:mb-8">
+                    <div className="flex items-center mb-4 sm:mb-6">
+                      <Filter className="h-5 w-5 text-gray-400 mr-2" />
+                      <h2 className="text-lg sm:text-xl font-semibold text-white">Regions & Mediums</h2>
+                    </div>
+                    <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 sm:gap-6">
+                      <ListChangeCard title="Available Regions" change={changes.regions} />
+                      <ListChangeCard title="Available Mediums" change={changes.mediums} />
+                    </div>
+                  </div>
+
+                  {/* Marketing Stats Deltas */}
+                  <div className="overflow-x-auto w-full max-w-full">
+                    <div className="flex items-center mb-4 sm:mb-6">
+                      <BarChart3 className="h-5 w-5 text-gray-400 mr-2" />
+                      <h2 className="text-lg sm:text-xl font-semibold text-white">Marketing Stats</h2>
+                    </div>
+                    <Table
+                      exportFileName="marketing-stats-changes"
+                      maxHeight="600px"
+                      columns={[
+                        { key: 'field', header: 'Metric', render: (value) => formatLabel(value) },
+                        {
+                          key: 'before',
+                          header: 'Before',
+                          align: 'right',
+                          render: (value, row) => typeof value === 'number' && MONEY_STATS.includes(row.field)
+                            ? formatMoney(value)
+                            : value.toLocaleString()
+                        },
+                        {
+                          key: 'after',
+                          header: 'After',
+                          align: 'right',
+                          render: (value, row) => typeof value === 'number' && MONEY_STATS.includes(row.field)
+                            ? formatMoney(value)
+                            : value.toLocaleString()
+                        },
+                        {
+                          key: 'delta',
+                          header: 'Change',
+                          align: 'right',
+                          render: (value, row) => value === undefined
+                            ? (row.before !== row.after ? <span className="text-yellow-400">changed</span> : '')
+                            : (
+                              <span className={`font-medium ${changeColor(value)}`}>
+                                {value > 0 ? '+' : ''}{Number(value.toFixed(2)).toLocaleString()}
+                                {value !== 0 && ` (${formatPercent(row.percent_change)})`}
+                              </span>
+                            )
+                        }
+                      ]}
+                      data={changes.stats}
+                    />
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <Footer />
+      </div>
+    </div>
+  );
+}
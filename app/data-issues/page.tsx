@@ -0,0 +1,233 @@
+"use client";
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useMarketingData } from '../../src/components/providers/marketing-data-provider';
+import { fetchDataQuality } from '../../src/lib/api';
+import { isAbortError } from '../../src/lib/errors';
+import {
+  QualityReport,
+  QUALITY_ISSUE_KINDS,
+  QUALITY_ISSUE_LABELS,
+  QUALITY_SEVERITIES,
+  QualitySeverity,
+} from '../../src/lib/data-quality';
+import { Navbar } from '../../src/components/ui/navbar';
+import { Footer } from '../../src/components/ui/footer';
+import { ErrorBanner } from '../../src/components/ui/error-banner';
+import { StaleDataNotice } from '../../src/components/ui/stale-data-notice';
+import { CardMetric } from '../../src/components/ui/card-metric';
+import { SearchFilter } from '../../src/components/ui/search-filter';
+import { DropdownFilter } from '../../src/components/ui/dropdown-filter';
+import { Table } from '../../src/components/ui/table';
+import { FileWarning, Filter, ListChecks, XCircle, AlertTriangle, MapPin, Ban } from 'lucide-react';
+
+const SEVERITY_LABELS: Record<QualitySeverity, string> = {
+  error: 'Error',
+  warning: 'Warning',
+};
+
+const SEVERITY_CLASSES: Record<QualitySeverity, string> = {
+  error: 'bg-red-900/50 text-red-300',
+  warning: 'bg-yellow-900/50 text-yellow-300',
+};
+
+export default function DataIssuesView() {
+  const router = useRouter();
+  const { data: marketingData, loading, error, refetch } = useMarketingData();
+  const [searchFilter, setSearchFilter] = useState('');
+  const [kindFilter, setKindFilter] = useState<string[]>([]);
+  const [severityFilter, setSeverityFilter] = useState<string[]>([]);
+
+  const [scan, setScan] = useState<QualityReport | null>(null);
+  const [scanError, setScanError] = useState<string | null>(null);
+
+  // Scanned on the server, which still has the campaigns the validator dropped;
+  // rescanned whenever the data is reloaded
+  useEffect(() => {
+    if (!marketingData) return;
+    const controller = new AbortController();
+    fetchDataQuality(controller.signal)
+      .then(report => {
+        setScan(report);
+        setScanError(null);
+      })
+      .catch(fetchError => {
+        if (!isAbortError(fetchError)) setScanError(fetchError instanceof Error ? fetchError.message : 'The scan failed');
+      });
+    return () => controller.abort();
+  }, [marketingData]);
+
+  const rows = useMemo(() => {
+    if (!scan) return [];
+    const search = searchFilter.trim().toLowerCase();
+    return scan.issues
+      .filter(issue => kindFilter.length === 0 || kindFilter.includes(QUALITY_ISSUE_LABELS[issue.kind]))
+      .filter(issue => severityFilter.length === 0 || severityFilter.includes(SEVERITY_LABELS[issue.severity]))
+      .filter(issue => !search || [issue.campaign?.name ?? '', issue.path, issue.message].some(text => text.toLowerCase().includes(search)))
+      .map(issue => ({
+        ...issue,
+        kind_label: QUALITY_ISSUE_LABELS[issue.kind],
+        campaign_id: issue.campaign?.id,
+        campaign_name: issue.campaign?.name ?? '',
+        value: issue.value === undefined ? '' : String(issue.value),
+        expected: issue.expected ?? '',
+      }));
+  }, [scan, searchFilter, kindFilter, severityFilter]);
+
+  const countFor = (severity: QualitySeverity) =>
+    scan?.issues.filter(issue => issue.severity === severity).length ?? 0;
+
+  if (loading) {
+    return (
+      <div className="flex h-screen bg-gray-900">
+        <Navbar />
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-white">Loading...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col lg:flex-row min-h-screen bg-gray-900">
+      <Navbar />
+
+      {/* Main Content Area */}
+      <div className="flex-1 flex flex-col transition-all duration-300 ease-in-out overflow-hidden">
+        {/* Hero Section */}
+        <section className="bg-gradient-to-r from-gray-800 to-gray-700 text-white py-8 sm:py-12">
+          <div className="px-4 sm:px-6 lg:px-8">
+            <div className="text-center">
+              {error ? (
+                <ErrorBanner error={error} onRetry={refetch} />
+              ) : (
+                <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold">
+                  Data Issues
+                </h1>
+              )}
+            </div>
+          </div>
+        </section>
+
+        {/* Content Area */}
+        <div className="flex-1 p-3 sm:p-4 lg:p-6 overflow-y-auto w-full max-w-full">
+          {scanError && <p className="text-red-400 text-sm mb-4">Could not scan the data: {scanError}</p>}
+          {marketingData && scan && (
+            <>
+              <StaleDataNotice freshness={marketingData.freshness} />
+
+              {/* Scan Summary */}
+              <div className="mb-6 sm:mb-8">
+                <div className="flex items-center mb-4 sm:mb-6">
+                  <FileWarning className="h-5 w-5 text-gray-400 mr-2" />
+                  <h2 className="text-lg sm:text-xl font-semibold text-white">Data Quality Scan</h2>
+                </div>
+                <p className="text-gray-300 text-sm mb-4">
+                  Every campaign and breakdown row is checked for negative or non-numeric values, ctr that
+                  disagrees with clicks and impressions, audience shares that do not add up to 100%, regions
+                  the map cannot place and weeks that end before they start. Campaigns too malformed to
+                  serve are left out of every view and listed here as dropped.
+                </p>
+                <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4">
+                  <CardMetric
+                    title="Campaigns Scanned"
+                    value={scan.scanned_campaigns}
+                    icon={<ListChecks className="h-5 w-5" />}
+                  />
+                  <CardMetric
+                    title="Dropped Campaigns"
+                    value={scan.dropped_campaigns}
+                    icon={<Ban className="h-5 w-5" />}
+                    className={scan.dropped_campaigns > 0 ? 'text-red-400' : 'text-green-400'}
+                  />
+                  <CardMetric
+                    title="Errors"
+                    value={countFor('error')}
+                    icon={<XCircle className="h-5 w-5" />}
+                    className={countFor('error') > 0 ? 'text-red-400' : 'text-green-400'}
+                  />
+                  <CardMetric
+                    title="Warnings"
+                    value={countFor('warning')}
+                    icon={<AlertTriangle className="h-5 w-5" />}
+                    className={countFor('warning') > 0 ? 'text-yellow-400' : 'text-green-400'}
+                  />
+                  <CardMetric
+                    title="Unmapped Regions"
+                    value={scan.counts.missing_coordinates}
+                    icon={<MapPin className="h-5 w-5" />}
+                  />
+                </div>
+              </div>
+
+              {/* Filters Section */}
+              <div className="mb-6 sm:mb-8">
+                <div className="flex items-center mb-3 sm:mb-4">
+                  <Filter className="h-4 w-4 sm:h-5 sm:w-5 text-gray-400 mr-2" />
+                  <h2 className="text-base sm:text-lg font-semibold text-white">Filters</h2>
+                </div>
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-3 sm:gap-4">
+                  <SearchFilter
+                    title="Search"
+                    placeholder="Campaign, path or message..."
+                    value={searchFilter}
+                    onChange={setSearchFilter}
+                  />
+                  <DropdownFilter
+                    title="Kind"
+                    options={QUALITY_ISSUE_KINDS.map(kind => QUALITY_ISSUE_LABELS[kind])}
+                    selectedValues={kindFilter}
+                    onChange={setKindFilter}
+                    placeholder="All kinds"
+                  />
+                  <DropdownFilter
+                    title="Severity"
+                    options={QUALITY_SEVERITIES.map(severity => SEVERITY_LABELS[severity])}
+                    selectedValues={severityFilter}
+                    onChange={setSeverityFilter}
+                    placeholder="All severities"
+                  />
+                </div>
+              </div>
+
+              {/* Issue List */}
+              <div className="mb-6 sm:mb-8">
+                <div className="overflow-x-auto w-full max-w-full">
+                  <Table
+                    exportFileName="data-issues"
+                    title={`Issues (${rows.length} of ${scan.issues.length})`}
+                    maxHeight="600px"
+                    columns={[
+                      {
+                        key: 'severity',
+                        header: 'Severity',
+                        sortable: true,
+                        sortType: 'string',
+                        render: (value: QualitySeverity) => (
+                          <span className={`px-2 py-1 rounded text-xs font-medium ${SEVERITY_CLASSES[value]}`}>
+                            {SEVERITY_LABELS[value]}
+                          </span>
+                        )
+                      },
+                      { key: 'kind_label', header: 'Kind', sortable: true, sortType: 'string' },
+                      { key: 'campaign_name', header: 'Campaign', sortable: true, sortType: 'string' },
+                      { key: 'path', header: 'Path', sortable: true, sortType: 'string', render: (value) => <code className="text-gray-300 text-xs">{value}</code> },
+                      { key: 'value', header: 'Value', align: 'right' },
+                      { key: 'expected', header: 'Expected', align: 'right' },
+                      { key: 'message', header: 'Message' }
+                    ]}
+                    data={rows}
+                    emptyMessage={scan.issues.length === 0 ? 'No issues found' : 'No issues match the filters'}
+                    onRowClick={(row) => row.campaign_id !== undefined && router.push(`/campaign-view/${row.campaign_id}`)}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <Footer />
+      </div>
+    </div>
+  );
+}
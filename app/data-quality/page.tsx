@@ -0,0 +1,188 @@
+"use client";
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useMarketingData } from '../../src/components/providers/marketing-data-provider';
+import { useCurrency } from '../../src/components/providers/currency-provider';
+import { reconcile, RECONCILIATION_SCOPES, ReconciliationScope } from '../../src/lib/reconciliation';
+import { Navbar } from '../../src/components/ui/navbar';
+import { Footer } from '../../src/components/ui/footer';
+import { ErrorBanner } from '../../src/components/ui/error-banner';
+import { StaleDataNotice } from '../../src/components/ui/stale-data-notice';
+import { CardMetric } from '../../src/components/ui/card-metric';
+import { DropdownFilter } from '../../src/components/ui/dropdown-filter';
+import { Table } from '../../src/components/ui/table';
+import { ShieldCheck, ListChecks, AlertTriangle, BarChart3, Layers } from 'lucide-react';
+
+const SCOPE_LABELS: Record<ReconciliationScope, string> = {
+  marketing_stats: 'Marketing stats',
+  weekly_performance: 'Weekly rows',
+  regional_performance: 'Regional rows',
+  device_performance: 'Device rows',
+};
+
+// Fields holding money amounts, shown in the display currency
+const MONEY_FIELDS = ['total_spend', 'total_revenue', 'spend', 'revenue'];
+
+const formatLabel = (field: string) =>
+  field.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+export default function DataQualityView() {
+  const router = useRouter();
+  const { data: marketingData, loading, error, refetch } = useMarketingData();
+  const { formatMoney } = useCurrency();
+  const [scopeFilter, setScopeFilter] = useState<string[]>([]);
+
+  const report = useMemo(() => marketingData ? reconcile(marketingData) : null, [marketingData]);
+
+  const rows = useMemo(() => {
+    if (!report) return [];
+    return report.discrepancies
+      .filter(entry => scopeFilter.length === 0 || scopeFilter.includes(SCOPE_LABELS[entry.scope]))
+      .map(entry => ({
+        ...entry,
+        scope_label: SCOPE_LABELS[entry.scope],
+        campaign_id: entry.campaign?.id,
+        campaign_name: entry.campaign?.name ?? '',
+      }));
+  }, [report, scopeFilter]);
+
+  const countFor = (scopes: ReconciliationScope[]) =>
+    report?.discrepancies.filter(entry => scopes.includes(entry.scope)).length ?? 0;
+
+  const formatValue = (value: number | string | undefined, field: string) => {
+    if (typeof value !== 'number') return value ?? '';
+    return MONEY_FIELDS.includes(field)
+      ? formatMoney(value, { maximumFractionDigits: 2 })
+      : Number(value.toFixed(2)).toLocaleString();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-screen bg-gray-900">
+        <Navbar />
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-white">Loading...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col lg:flex-row min-h-screen bg-gray-900">
+      <Navbar />
+
+      {/* Main Content Area */}
+      <div className="flex-1 flex flex-col transition-all duration-300 ease-in-out overflow-hidden">
+        {/* Hero Section */}
+        <section className="bg-gradient-to-r from-gray-800 to-gray-700 text-white py-8 sm:py-12">
+          <div className="px-4 sm:px-6 lg:px-8">
+            <div className="text-center">
+              {error ? (
+                <ErrorBanner error={error} onRetry={refetch} />
+              ) : (
+                <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold">
+                  Data Quality
+                </h1>
+              )}
+            </div>
+          </div>
+        </section>
+
+        {/* Content Area */}
+        <div className="flex-1 p-3 sm:p-4 lg:p-6 overflow-y-auto w-full max-w-full">
+          {marketingData && report && (
+            <>
+              <StaleDataNotice freshness={marketingData.freshness} />
+
+              {/* Reconciliation Summary */}
+              <div className="mb-6 sm:mb-8">
+                <div className="flex items-center mb-4 sm:mb-6">
+                  <ShieldCheck className="h-5 w-5 text-gray-400 mr-2" />
+                  <h2 className="text-lg sm:text-xl font-semibold text-white">Reconciliation</h2>
+                </div>
+                <p className="text-gray-300 text-sm mb-4">
+                  Every <code className="text-gray-200">marketing_stats</code> value is recomputed from the campaigns,
+                  and each campaign&apos;s weekly, regional and device rows are summed and compared with the campaign
+                  totals. Differences within rounding are ignored.
+                </p>
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+                  <CardMetric
+                    title="Checks Run"
+                    value={report.checked}
+                    icon={<ListChecks className="h-5 w-5" />}
+                  />
+                  <CardMetric
+                    title="Discrepancies"
+                    value={report.discrepancies.length}
+                    icon={<AlertTriangle className="h-5 w-5" />}
+                    className={report.discrepancies.length > 0 ? 'text-yellow-400' : 'text-green-400'}
+                  />
+                  <CardMetric
+                    title="Stats Mismatches"
+                    value={countFor(['marketing_stats'])}
+                    icon={<BarChart3 className="h-5 w-5" />}
+                  />
+                  <CardMetric
+                    title="Breakdown Mismatches"
+                    value={countFor(['weekly_performance', 'regional_performance', 'device_performance'])}
+                    icon={<Layers className="h-5 w-5" />}
+                  />
+                </div>
+              </div>
+
+              {/* Discrepancy List */}
+              <div className="mb-6 sm:mb-8">
+                <div className="mb-4 max-w-sm">
+                  <DropdownFilter
+                    title="Check"
+                    options={RECONCILIATION_SCOPES.map(scope => SCOPE_LABELS[scope])}
+                    selectedValues={scopeFilter}
+                    onChange={setScopeFilter}
+                    placeholder="All checks"
+                  />
+                </div>
+                <div className="overflow-x-auto w-full max-w-full">
+                  <Table
+                    exportFileName="reconciliation"
+                    title={`Discrepancies (${rows.length})`}
+                    maxHeight="600px"
+                    columns={[
+                      { key: 'scope_label', header: 'Check', sortable: true, sortType: 'string' },
+                      { key: 'campaign_name', header: 'Campaign', sortable: true, sortType: 'string' },
+                      { key: 'field', header: 'Field', sortable: true, sortType: 'string', render: (value) => formatLabel(value) },
+                      { key: 'reported', header: 'Reported', align: 'right', render: (value, row) => formatValue(value, row.field) },
+                      { key: 'recomputed', header: 'Recomputed', align: 'right', render: (value, row) => formatValue(value, row.field) },
+                      {
+                        key: 'difference',
+                        header: 'Difference',
+                        align: 'right',
+                        sortable: true,
+                        sortType: 'number',
+                        render: (value, row) => value === undefined
+                          ? <span className="text-yellow-400">differs</span>
+                          : <span className="font-medium text-yellow-400">{value > 0 ? '+' : ''}{formatValue(value, row.field)}</span>
+                      },
+                      {
+                        key: 'percent_difference',
+                        header: 'Difference %',
+                        align: 'right',
+                        sortable: true,
+                        sortType: 'number',
+                        render: (value) => typeof value === 'number' ? `${value > 0 ? '+' : ''}${value.toFixed(2)}%` : ''
+                      }
+                    ]}
+                    data={rows}
+                    emptyMessage="Everything reconciles: no discrepancies found"
+                    onRowClick={(row) => row.campaign_id !== undefined && router.push(`/campaign-view/${row.campaign_id}`)}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <Footer />
+      </div>
+    </div>
+  );
+}
@@ -1,36 +1,25 @@
 // app/demographic-view/page.tsx
 "use client";
-import { useState, useEffect, useMemo } from 'react';
-import { fetchMarketingData } from '../../src/lib/api';
-import { MarketingData, Campaign, DemographicBreakdown } from '../../src/types/marketing';
+import { useMemo } from 'react';
+import { useMarketingData } from '../../src/components/providers/marketing-data-provider';
+import { useCurrency } from '../../src/components/providers/currency-provider';
+import { useSession } from '../../src/components/providers/session-provider';
+import { visibleColumns } from '../../src/lib/access';
+import { aggregateDemographics } from '../../src/lib/aggregates';
 import { Navbar } from '../../src/components/ui/navbar';
 import { Footer } from '../../src/components/ui/footer';
+import { ErrorBanner } from '../../src/components/ui/error-banner';
+import { StaleDataNotice } from '../../src/components/ui/stale-data-notice';
 import { CardMetric } from '../../src/components/ui/card-metric';
 import { BarChart } from '../../src/components/ui/bar-chart';
-import { Table } from '../../src/components/ui/table';
+import { Table, TableColumn } from '../../src/components/ui/table';
 import { Users, User, Target, DollarSign, TrendingUp, MousePointer, Venus, Mars } from 'lucide-react';
 
 export default function DemographicView() {
-  const [marketingData, setMarketingData] = useState<MarketingData | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { data: marketingData, loading, error, refetch } = useMarketingData();
+  const { formatMoney } = useCurrency();
+  const { canViewFinancials } = useSession();
 
-  // Load data on component mount
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const data = await fetchMarketingData();
-        setMarketingData(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load data');
-        console.error('Error loading marketing data:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadData();
-  }, []);
 
   // Calculate demographic metrics
   const demographicMetrics = useMemo(() => {
@@ -49,112 +38,49 @@ export default function DemographicView() {
       };
     }
 
-    let maleClicks = 0;
-    let maleSpend = 0;
-    let maleRevenue = 0;
-    let femaleClicks = 0;
-    let femaleSpend = 0;
-    let femaleRevenue = 0;
-
-    const ageGroupSpendMap: { [key: string]: number } = {};
-    const ageGroupRevenueMap: { [key: string]: number } = {};
-    const maleAgeGroupMap: { [key: string]: any } = {};
-    const femaleAgeGroupMap: { [key: string]: any } = {};
-
-    marketingData.campaigns.forEach((campaign: Campaign) => {
-      campaign.demographic_breakdown.forEach((breakdown: DemographicBreakdown) => {
-        const { age_group, gender, performance } = breakdown;
-        const audiencePercentage = breakdown.percentage_of_audience / 100;
-
-        // Calculate allocated spend and revenue based on audience percentage
-        const allocatedSpend = campaign.spend * audiencePercentage;
-        const allocatedRevenue = campaign.revenue * audiencePercentage;
-
-        // Initialize age group maps if not exists
-        if (!ageGroupSpendMap[age_group]) ageGroupSpendMap[age_group] = 0;
-        if (!ageGroupRevenueMap[age_group]) ageGroupRevenueMap[age_group] = 0;
-
-        // Aggregate by gender
-        if (gender.toLowerCase() === 'male') {
-          maleClicks += performance.clicks;
-          maleSpend += allocatedSpend;
-          maleRevenue += allocatedRevenue;
-
-          // Initialize male age group data
-          if (!maleAgeGroupMap[age_group]) {
-            maleAgeGroupMap[age_group] = {
-              impressions: 0,
-              clicks: 0,
-              conversions: 0,
-              ctr: 0,
-              conversion_rate: 0
-            };
-          }
-          maleAgeGroupMap[age_group].impressions += performance.impressions;
-          maleAgeGroupMap[age_group].clicks += performance.clicks;
-          maleAgeGroupMap[age_group].conversions += performance.conversions;
-
-        } else if (gender.toLowerCase() === 'female') {
-          femaleClicks += performance.clicks;
-          femaleSpend += allocatedSpend;
-          femaleRevenue += allocatedRevenue;
-
-          // Initialize female age group data
-          if (!femaleAgeGroupMap[age_group]) {
-            femaleAgeGroupMap[age_group] = {
-              impressions: 0,
-              clicks: 0,
-              conversions: 0,
-              ctr: 0,
-              conversion_rate: 0
-            };
-          }
-          femaleAgeGroupMap[age_group].impressions += performance.impressions;
-          femaleAgeGroupMap[age_group].clicks += performance.clicks;
-          femaleAgeGroupMap[age_group].conversions += performance.conversions;
-        }
-
-        // Aggregate age group data (across all genders)
-        ageGroupSpendMap[age_group] += allocatedSpend;
-        ageGroupRevenueMap[age_group] += allocatedRevenue;
-      });
-    });
-
-    // Calculate CTR and Conversion Rate for age groups
-    Object.keys(maleAgeGroupMap).forEach(ageGroup => {
-      const data = maleAgeGroupMap[ageGroup];
-      data.ctr = data.impressions > 0 ? (data.clicks / data.impressions) * 100 : 0;
-      data.conversion_rate = data.clicks > 0 ? (data.conversions / data.clicks) * 100 : 0;
-    });
+    const campaigns = marketingData.campaigns;
+    const byGender = aggregateDemographics(campaigns, 'gender');
+    const byAgeGroup = aggregateDemographics(campaigns, 'age_group');
+    const bySegment = aggregateDemographics(campaigns, 'segment');
 
-    Object.keys(femaleAgeGroupMap).forEach(ageGroup => {
-      const data = femaleAgeGroupMap[ageGroup];
-      data.ctr = data.impressions > 0 ? (data.clicks / data.impressions) * 100 : 0;
-      data.conversion_rate = data.clicks > 0 ? (data.conversions / data.clicks) * 100 : 0;
-    });
+    const genderRow = (gender: string) => byGender.find(row => row.gender?.toLowerCase() === gender);
+    const male = genderRow('male');
+    const female = genderRow('female');
 
-    // Convert maps to arrays for charts and tables
-    const ageGroupSpend = Object.entries(ageGroupSpendMap).map(([label, value]) => ({
-      label,
-      value,
+    // Convert rows to chart and table data
+    const ageGroupSpend = byAgeGroup.map(row => ({
+      label: row.age_group!,
+      value: row.spend,
       color: '#3B82F6'
     }));
 
-    const ageGroupRevenue = Object.entries(ageGroupRevenueMap).map(([label, value]) => ({
-      label,
-      value,
+    const ageGroupRevenue = byAgeGroup.map(row => ({
+      label: row.age_group!,
+      value: row.revenue,
       color: '#10B981'
     }));
 
-    const maleAgeGroups = Object.entries(maleAgeGroupMap).map(([age_group, data]) => ({
-      age_group,
-      ...data
-    }));
+    const ageGroupsFor = (gender: string) => bySegment
+      .filter(row => row.gender?.toLowerCase() === gender)
+      .map(row => ({
+        age_group: row.age_group,
+        impressions: row.impressions,
+        clicks: row.clicks,
+        conversions: row.conversions,
+        ctr: row.ctr,
+        conversion_rate: row.conversion_rate,
+        cpa: row.cpa,
+        roas: row.roas
+      }));
 
-    const femaleAgeGroups = Object.entries(femaleAgeGroupMap).map(([age_group, data]) => ({
-      age_group,
-      ...data
-    }));
+    const maleClicks = male?.clicks ?? 0;
+    const maleSpend = male?.spend ?? 0;
+    const maleRevenue = male?.revenue ?? 0;
+    const femaleClicks = female?.clicks ?? 0;
+    const femaleSpend = female?.spend ?? 0;
+    const femaleRevenue = female?.revenue ?? 0;
+    const maleAgeGroups = ageGroupsFor('male');
+    const femaleAgeGroups = ageGroupsFor('female');
 
     return {
       maleClicks,
@@ -192,9 +118,7 @@ export default function DemographicView() {
           <div className="px-4 sm:px-6 lg:px-8">
             <div className="text-center">
               {error ? (
-                <div className="bg-red-900 border border-red-700 text-red-200 px-3 sm:px-4 py-3 rounded mb-4 max-w-2xl mx-auto text-sm sm:text-base">
-                  Error loading data: {error}
-                </div>
+                <ErrorBanner error={error} onRetry={refetch} />
               ) : (
                 <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold">
                   Demographic Insights
@@ -208,6 +132,14 @@ export default function DemographicView() {
         <div className="flex-1 p-3 sm:p-4 lg:p-6 overflow-y-auto w-full max-w-full">
           {marketingData && (
             <>
+              <StaleDataNotice freshness={marketingData.freshness} />
+
+              {/* Demographic breakdowns record no spend or revenue */}
+              <p className="text-sm text-gray-400 mb-6">
+                Est. figures are estimates: each campaign&apos;s spend and revenue split across its audience
+                segments by their share of the audience, not amounts recorded per segment.
+              </p>
+
               {/* Gender Performance Cards */}
               <div className="mb-6 sm:mb-8">
                 <div className="flex items-center mb-4 sm:mb-6">
@@ -229,15 +161,17 @@ export default function DemographicView() {
                         icon={<MousePointer className="h-4 w-4" />}
                         className="bg-gray-750 border-gray-600"
                       />
+                      {canViewFinancials && (
+                        <CardMetric
+                          title="Est. Spend"
+                          value={formatMoney(demographicMetrics.maleSpend, { maximumFractionDigits: 0 })}
+                          icon={<DollarSign className="h-4 w-4" />}
+                          className="bg-gray-750 border-gray-600"
+                        />
+                      )}
                       <CardMetric
-                        title="Total Spend"
-                        value={`$${demographicMetrics.maleSpend.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
-                        icon={<DollarSign className="h-4 w-4" />}
-                        className="bg-gray-750 border-gray-600"
-                      />
-                      <CardMetric
-                        title="Total Revenue"
-                        value={`$${demographicMetrics.maleRevenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+                        title="Est. Revenue"
+                        value={formatMoney(demographicMetrics.maleRevenue, { maximumFractionDigits: 0 })}
                         icon={<TrendingUp className="h-4 w-4" />}
                         className="bg-gray-750 border-gray-600"
                       />
@@ -257,15 +191,17 @@ export default function DemographicView() {
                         icon={<MousePointer className="h-4 w-4" />}
                         className="bg-gray-750 border-gray-600"
                       />
+                      {canViewFinancials && (
+                        <CardMetric
+                          title="Est. Spend"
+                          value={formatMoney(demographicMetrics.femaleSpend, { maximumFractionDigits: 0 })}
+                          icon={<DollarSign className="h-4 w-4" />}
+                          className="bg-gray-750 border-gray-600"
+                        />
+                      )}
                       <CardMetric
-                        title="Total Spend"
-                        value={`$${demographicMetrics.femaleSpend.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
-                        icon={<DollarSign className="h-4 w-4" />}
-                        className="bg-gray-750 border-gray-600"
-                      />
-                      <CardMetric
-                        title="Total Revenue"
-                        value={`$${demographicMetrics.femaleRevenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+                        title="Est. Revenue"
+                        value={formatMoney(demographicMetrics.femaleRevenue, { maximumFractionDigits: 0 })}
                         icon={<TrendingUp className="h-4 w-4" />}
                         className="bg-gray-750 border-gray-600"
                       />
@@ -282,17 +218,19 @@ export default function DemographicView() {
                 </div>
                 
                 <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 sm:gap-6">
-                  <BarChart
-                    title="Total Spend by Age Group"
-                    data={demographicMetrics.ageGroupSpend}
-                    formatValue={(value) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
-                    height={280}
-                  />
+                  {canViewFinancials && (
+                    <BarChart
+                      title="Estimated Spend by Age Group"
+                      data={demographicMetrics.ageGroupSpend}
+                      formatValue={(value) => formatMoney(value, { maximumFractionDigits: 0 })}
+                      height={280}
+                    />
+                  )}
                   
                   <BarChart
-                    title="Total Revenue by Age Group"
+                    title="Estimated Revenue by Age Group"
                     data={demographicMetrics.ageGroupRevenue}
-                    formatValue={(value) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+                    formatValue={(value) => formatMoney(value, { maximumFractionDigits: 0 })}
                     height={280}
                   />
                 </div>
@@ -308,7 +246,8 @@ export default function DemographicView() {
                   </div>
                   
                   <Table
-                    columns={[
+                    exportFileName="male-age-groups"
+                    columns={visibleColumns<TableColumn>([
                       {
                         key: 'age_group',
                         header: 'Age Group',
@@ -360,8 +299,24 @@ export default function DemographicView() {
                         sortable: true,
                         sortType: 'number',
                         render: (value) => `${value.toFixed(2)}%`
+                      },
+                      {
+                        key: 'cpa',
+                        header: 'Est. CPA',
+                        align: 'right',
+                        sortable: true,
+                        sortType: 'number',
+                        render: (value) => formatMoney(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+                      },
+                      {
+                        key: 'roas',
+                        header: 'Est. ROAS',
+                        align: 'right',
+                        sortable: true,
+                        sortType: 'number',
+                        render: (value) => `${value.toFixed(1)}x`
                       }
-                    ]}
+                    ], canViewFinancials)}
                     data={demographicMetrics.maleAgeGroups}
                     maxHeight="400px"
                     showIndex={true}
@@ -378,7 +333,8 @@ export default function DemographicView() {
                   </div>
                   
                   <Table
-                    columns={[
+                    exportFileName="female-age-groups"
+                    columns={visibleColumns<TableColumn>([
                       {
                         key: 'age_group',
                         header: 'Age Group',
@@ -430,8 +386,24 @@ export default function DemographicView() {
                         sortable: true,
                         sortType: 'number',
                         render: (value) => `${value.toFixed(2)}%`
+                      },
+                      {
+                        key: 'cpa',
+                        header: 'Est. CPA',
+                        align: 'right',
+                        sortable: true,
+                        sortType: 'number',
+                        render: (value) => formatMoney(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+                      },
+                      {
+                        key: 'roas',
+                        header: 'Est. ROAS',
+                        align: 'right',
+                        sortable: true,
+                        sortType: 'number',
+                        render: (value) => `${value.toFixed(1)}x`
                       }
-                    ]}
+                    ], canViewFinancials)}
                     data={demographicMetrics.femaleAgeGroups}
                     maxHeight="400px"
                     showIndex={true}
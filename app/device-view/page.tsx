@@ -1,63 +1,50 @@
 // app/device-view/page.tsx
 "use client";
-import { useState, useEffect, useMemo } from 'react';
-import { fetchMarketingData } from '../../src/lib/api';
-import { MarketingData, Campaign, DevicePerformance } from '../../src/types/marketing';
+import { useMemo } from 'react';
+import { useMarketingData } from '../../src/components/providers/marketing-data-provider';
+import { useCurrency } from '../../src/components/providers/currency-provider';
+import { useSession } from '../../src/components/providers/session-provider';
+import { visibleColumns } from '../../src/lib/access';
+import { Campaign } from '../../src/types/marketing';
+import { aggregateDevices, DeviceAggregate } from '../../src/lib/aggregates';
+import { runQuery } from '../../src/lib/query';
 import { Navbar } from '../../src/components/ui/navbar';
 import { Footer } from '../../src/components/ui/footer';
+import { ErrorBanner } from '../../src/components/ui/error-banner';
+import { StaleDataNotice } from '../../src/components/ui/stale-data-notice';
 import { CardMetric } from '../../src/components/ui/card-metric';
 import { BarChart } from '../../src/components/ui/bar-chart';
-import { Table } from '../../src/components/ui/table';
+import { Table, TableColumn } from '../../src/components/ui/table';
 import { Smartphone, Monitor, TrendingUp, DollarSign, MousePointer, Target, Users, Zap, BarChart3 } from 'lucide-react';
 
-export default function DeviceView() {
-  const [marketingData, setMarketingData] = useState<MarketingData | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+const emptyDevice = (device: string): DeviceAggregate => ({
+  device,
+  impressions: 0,
+  clicks: 0,
+  conversions: 0,
+  spend: 0,
+  revenue: 0,
+  ctr: 0,
+  conversion_rate: 0,
+  cpc: 0,
+  cpa: 0,
+  roas: 0,
+  campaign_count: 0,
+  percentage_of_traffic: 0
+});
 
-  // Load data on component mount
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const data = await fetchMarketingData();
-        setMarketingData(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load data');
-        console.error('Error loading marketing data:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
+export default function DeviceView() {
+  const { data: marketingData, loading, error, refetch } = useMarketingData();
+  const { formatMoney } = useCurrency();
+  const { canViewFinancials } = useSession();
 
-    loadData();
-  }, []);
 
   // Calculate device performance metrics
   const deviceMetrics = useMemo(() => {
     if (!marketingData?.campaigns) {
       return {
-        mobile: {
-          impressions: 0,
-          clicks: 0,
-          conversions: 0,
-          spend: 0,
-          revenue: 0,
-          ctr: 0,
-          conversion_rate: 0,
-          percentage_of_traffic: 0,
-          campaignCount: 0
-        },
-        desktop: {
-          impressions: 0,
-          clicks: 0,
-          conversions: 0,
-          spend: 0,
-          revenue: 0,
-          ctr: 0,
-          conversion_rate: 0,
-          percentage_of_traffic: 0,
-          campaignCount: 0
-        },
+        mobile: emptyDevice('Mobile'),
+        desktop: emptyDevice('Desktop'),
         deviceComparison: [],
         performanceByCampaign: [],
         roasComparison: [],
@@ -65,74 +52,18 @@ export default function DeviceView() {
       };
     }
 
-    let mobileData = {
-      impressions: 0,
-      clicks: 0,
-      conversions: 0,
-      spend: 0,
-      revenue: 0,
-      ctr: 0,
-      conversion_rate: 0,
-      percentage_of_traffic: 0,
-      campaignCount: 0
-    };
-
-    let desktopData = {
-      impressions: 0,
-      clicks: 0,
-      conversions: 0,
-      spend: 0,
-      revenue: 0,
-      ctr: 0,
-      conversion_rate: 0,
-      percentage_of_traffic: 0,
-      campaignCount: 0
-    };
-
-    const performanceByCampaign: any[] = [];
-
-    marketingData.campaigns.forEach((campaign: Campaign) => {
-      campaign.device_performance.forEach((device: DevicePerformance) => {
-        if (device.device === 'Mobile') {
-          mobileData.impressions += device.impressions;
-          mobileData.clicks += device.clicks;
-          mobileData.conversions += device.conversions;
-          mobileData.spend += device.spend;
-          mobileData.revenue += device.revenue;
-          mobileData.campaignCount += 1;
-        } else if (device.device === 'Desktop') {
-          desktopData.impressions += device.impressions;
-          desktopData.clicks += device.clicks;
-          desktopData.conversions += device.conversions;
-          desktopData.spend += device.spend;
-          desktopData.revenue += device.revenue;
-          desktopData.campaignCount += 1;
-        }
-
-        // Add to campaign performance breakdown
-        performanceByCampaign.push({
-          campaignName: campaign.name,
-          device: device.device,
-          impressions: device.impressions,
-          clicks: device.clicks,
-          conversions: device.conversions,
-          spend: device.spend,
-          revenue: device.revenue,
-          ctr: device.ctr,
-          conversion_rate: device.conversion_rate,
-          roas: device.spend > 0 ? device.revenue / device.spend : 0
-        });
-      });
-    });
+    // Device totals with derived metrics, summed across campaigns
+    const devices = aggregateDevices(marketingData.campaigns);
+    const mobileData = devices.find(device => device.device === 'Mobile') ?? emptyDevice('Mobile');
+    const desktopData = devices.find(device => device.device === 'Desktop') ?? emptyDevice('Desktop');
 
-    // Calculate derived metrics
-    mobileData.ctr = mobileData.impressions > 0 ? (mobileData.clicks / mobileData.impressions) * 100 : 0;
-    mobileData.conversion_rate = mobileData.clicks > 0 ? (mobileData.conversions / mobileData.clicks) * 100 : 0;
-    mobileData.percentage_of_traffic = mobileData.impressions / (mobileData.impressions + desktopData.impressions) * 100;
-
-    desktopData.ctr = desktopData.impressions > 0 ? (desktopData.clicks / desktopData.impressions) * 100 : 0;
-    desktopData.conversion_rate = desktopData.clicks > 0 ? (desktopData.conversions / desktopData.clicks) * 100 : 0;
-    desktopData.percentage_of_traffic = desktopData.impressions / (mobileData.impressions + desktopData.impressions) * 100;
+    // Each campaign's devices, with ratios derived from the counters like the totals above
+    const performanceByCampaign = marketingData.campaigns.flatMap((campaign: Campaign) =>
+      runQuery([campaign], {
+        group_by: ['device'],
+        measures: ['impressions', 'clicks', 'conversions', 'spend', 'revenue', 'ctr', 'conversion_rate', 'roas'],
+      }).rows.map(row => ({ campaignName: campaign.name, ...row }))
+    );
 
     // Prepare data for charts
     const deviceComparison = [
@@ -151,12 +82,12 @@ export default function DeviceView() {
     const roasComparison = [
       {
         label: 'Mobile',
-        value: mobileData.spend > 0 ? mobileData.revenue / mobileData.spend : 0,
+        value: mobileData.roas,
         color: '#3B82F6'
       },
       {
         label: 'Desktop',
-        value: desktopData.spend > 0 ? desktopData.revenue / desktopData.spend : 0,
+        value: desktopData.roas,
         color: '#10B981'
       }
     ];
@@ -206,9 +137,7 @@ export default function DeviceView() {
           <div className="px-4 sm:px-6 lg:px-8">
             <div className="text-center">
               {error ? (
-                <div className="bg-red-900 border border-red-700 text-red-200 px-3 sm:px-4 py-3 rounded mb-4 max-w-2xl mx-auto text-sm sm:text-base">
-                  Error loading data: {error}
-                </div>
+                <ErrorBanner error={error} onRetry={refetch} />
               ) : (
                 <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold">
                   Device Performance
@@ -222,6 +151,8 @@ export default function DeviceView() {
         <div className="flex-1 p-3 sm:p-4 lg:p-6 overflow-y-auto w-full max-w-full">
           {marketingData && (
             <>
+              <StaleDataNotice freshness={marketingData.freshness} />
+
               {/* Device Performance Summary */}
               <div className="mb-6 sm:mb-8">
                 <div className="flex items-center mb-4 sm:mb-6">
@@ -255,15 +186,17 @@ export default function DeviceView() {
                         icon={<Users className="h-4 w-4" />}
                         className="bg-gray-750 border-gray-600"
                       />
-                      <CardMetric
-                        title="Spend"
-                        value={`$${deviceMetrics.mobile.spend.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
-                        icon={<DollarSign className="h-4 w-4" />}
-                        className="bg-gray-750 border-gray-600"
-                      />
+                      {canViewFinancials && (
+                        <CardMetric
+                          title="Spend"
+                          value={formatMoney(deviceMetrics.mobile.spend, { maximumFractionDigits: 0 })}
+                          icon={<DollarSign className="h-4 w-4" />}
+                          className="bg-gray-750 border-gray-600"
+                        />
+                      )}
                       <CardMetric
                         title="Revenue"
-                        value={`$${deviceMetrics.mobile.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+                        value={formatMoney(deviceMetrics.mobile.revenue, { maximumFractionDigits: 0 })}
                         icon={<TrendingUp className="h-4 w-4" />}
                         className="bg-gray-750 border-gray-600"
                       />
@@ -313,15 +246,17 @@ export default function DeviceView() {
                         icon={<Users className="h-4 w-4" />}
                         className="bg-gray-750 border-gray-600"
                       />
-                      <CardMetric
-                        title="Spend"
-                        value={`$${deviceMetrics.desktop.spend.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
-                        icon={<DollarSign className="h-4 w-4" />}
-                        className="bg-gray-750 border-gray-600"
-                      />
+                      {canViewFinancials && (
+                        <CardMetric
+                          title="Spend"
+                          value={formatMoney(deviceMetrics.desktop.spend, { maximumFractionDigits: 0 })}
+                          icon={<DollarSign className="h-4 w-4" />}
+                          className="bg-gray-750 border-gray-600"
+                        />
+                      )}
                       <CardMetric
                         title="Revenue"
-                        value={`$${deviceMetrics.desktop.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+                        value={formatMoney(deviceMetrics.desktop.revenue, { maximumFractionDigits: 0 })}
                         icon={<TrendingUp className="h-4 w-4" />}
                         className="bg-gray-750 border-gray-600"
                       />
@@ -359,16 +294,18 @@ export default function DeviceView() {
                   <BarChart
                     title="Revenue Comparison"
                     data={deviceMetrics.deviceComparison}
-                    formatValue={(value) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+                    formatValue={(value) => formatMoney(value, { maximumFractionDigits: 0 })}
                     height={250}
                   />
                   
-                  <BarChart
-                    title="ROAS Comparison"
-                    data={deviceMetrics.roasComparison}
-                    formatValue={(value) => `${value.toFixed(1)}x`}
-                    height={250}
-                  />
+                  {canViewFinancials && (
+                    <BarChart
+                      title="ROAS Comparison"
+                      data={deviceMetrics.roasComparison}
+                      formatValue={(value) => `${value.toFixed(1)}x`}
+                      height={250}
+                    />
+                  )}
                   
                   <BarChart
                     title="Conversion Rate Comparison"
@@ -379,43 +316,45 @@ export default function DeviceView() {
                 </div>
               </div>
 
-              {/* Key Metrics Comparison */}
-              <div className="mb-6 sm:mb-8">
-                <div className="flex items-center mb-4 sm:mb-6">
-                  <Zap className="h-5 w-5 text-gray-400 mr-2" />
-                  <h2 className="text-lg sm:text-xl font-semibold text-white">Key Metrics Comparison</h2>
-                </div>
-                
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4 mb-6">
-                  <CardMetric
-                    title="Mobile ROAS"
-                    value={`${(deviceMetrics.mobile.spend > 0 ? deviceMetrics.mobile.revenue / deviceMetrics.mobile.spend : 0).toFixed(1)}x`}
-                    icon={<TrendingUp className="h-5 w-5" />}
-                    className={deviceMetrics.mobile.revenue / deviceMetrics.mobile.spend > deviceMetrics.desktop.revenue / deviceMetrics.desktop.spend ? 'text-green-400 border-green-600' : 'text-blue-400'}
-                  />
-                  
-                  <CardMetric
-                    title="Desktop ROAS"
-                    value={`${(deviceMetrics.desktop.spend > 0 ? deviceMetrics.desktop.revenue / deviceMetrics.desktop.spend : 0).toFixed(1)}x`}
-                    icon={<TrendingUp className="h-5 w-5" />}
-                    className={deviceMetrics.desktop.revenue / deviceMetrics.desktop.spend > deviceMetrics.mobile.revenue / deviceMetrics.mobile.spend ? 'text-green-400 border-green-600' : 'text-blue-400'}
-                  />
-                  
-                  <CardMetric
-                    title="Mobile CPA"
-                    value={`$${deviceMetrics.mobile.conversions > 0 ? (deviceMetrics.mobile.spend / deviceMetrics.mobile.conversions).toFixed(2) : '0'}`}
-                    icon={<DollarSign className="h-5 w-5" />}
-                    className="text-purple-400"
-                  />
+              {/* Key Metrics Comparison: ROAS and CPA */}
+              {canViewFinancials && (
+                <div className="mb-6 sm:mb-8">
+                  <div className="flex items-center mb-4 sm:mb-6">
+                    <Zap className="h-5 w-5 text-gray-400 mr-2" />
+                    <h2 className="text-lg sm:text-xl font-semibold text-white">Key Metrics Comparison</h2>
+                  </div>
                   
-                  <CardMetric
-                    title="Desktop CPA"
-                    value={`$${deviceMetrics.desktop.conversions > 0 ? (deviceMetrics.desktop.spend / deviceMetrics.desktop.conversions).toFixed(2) : '0'}`}
-                    icon={<DollarSign className="h-5 w-5" />}
-                    className="text-purple-400"
-                  />
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4 mb-6">
+                    <CardMetric
+                      title="Mobile ROAS"
+                      value={`${deviceMetrics.mobile.roas.toFixed(1)}x`}
+                      icon={<TrendingUp className="h-5 w-5" />}
+                      className={deviceMetrics.mobile.roas > deviceMetrics.desktop.roas ? 'text-green-400 border-green-600' : 'text-blue-400'}
+                    />
+                    
+                    <CardMetric
+                      title="Desktop ROAS"
+                      value={`${deviceMetrics.desktop.roas.toFixed(1)}x`}
+                      icon={<TrendingUp className="h-5 w-5" />}
+                      className={deviceMetrics.desktop.roas > deviceMetrics.mobile.roas ? 'text-green-400 border-green-600' : 'text-blue-400'}
+                    />
+                    
+                    <CardMetric
+                      title="Mobile CPA"
+                      value={formatMoney(deviceMetrics.mobile.cpa, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      icon={<DollarSign className="h-5 w-5" />}
+                      className="text-purple-400"
+                    />
+                    
+                    <CardMetric
+                      title="Desktop CPA"
+                      value={formatMoney(deviceMetrics.desktop.cpa, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      icon={<DollarSign className="h-5 w-5" />}
+                      className="text-purple-400"
+                    />
+                  </div>
                 </div>
-              </div>
+              )}
 
               {/* Campaign Performance by Device */}
               <div className="mb-6 sm:mb-8">
@@ -425,7 +364,8 @@ export default function DeviceView() {
                 </div>
                 
                 <Table
-                  columns={[
+                  exportFileName="device-performance-by-campaign"
+                  columns={visibleColumns<TableColumn>([
                     {
                       key: 'campaignName',
                       header: 'Campaign Name',
@@ -489,7 +429,7 @@ export default function DeviceView() {
                       align: 'right',
                       sortable: true,
                       sortType: 'number',
-                      render: (value) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+                      render: (value) => formatMoney(value, { maximumFractionDigits: 0 })
                     },
                     {
                       key: 'revenue',
@@ -500,7 +440,7 @@ export default function DeviceView() {
                       sortType: 'number',
                       render: (value) => (
                         <span className="text-green-400 font-medium">
-                          ${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                          {formatMoney(value, { maximumFractionDigits: 0 })}
                         </span>
                       )
                     },
@@ -526,7 +466,7 @@ export default function DeviceView() {
                         </span>
                       )
                     }
-                  ]}
+                  ], canViewFinancials)}
                   data={deviceMetrics.performanceByCampaign}
                   maxHeight="400px"
                   showIndex={true}
@@ -543,18 +483,22 @@ export default function DeviceView() {
                     <h4 className="font-semibold text-blue-400 mb-2">Mobile Performance</h4>
                     <ul className="text-sm text-gray-300 space-y-1">
                       <li>• {deviceMetrics.mobile.percentage_of_traffic.toFixed(1)}% of total traffic</li>
-                      <li>• ${deviceMetrics.mobile.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })} total revenue</li>
+                      <li>• {formatMoney(deviceMetrics.mobile.revenue, { maximumFractionDigits: 0 })} total revenue</li>
                       <li>• {deviceMetrics.mobile.conversion_rate.toFixed(2)}% conversion rate</li>
-                      <li>• {(deviceMetrics.mobile.spend > 0 ? deviceMetrics.mobile.revenue / deviceMetrics.mobile.spend : 0).toFixed(1)}x ROAS</li>
+                      {canViewFinancials && (
+                        <li>• {deviceMetrics.mobile.roas.toFixed(1)}x ROAS</li>
+                      )}
                     </ul>
                   </div>
                   <div className="bg-gray-750 rounded-lg p-4 border border-gray-600">
                     <h4 className="font-semibold text-green-400 mb-2">Desktop Performance</h4>
                     <ul className="text-sm text-gray-300 space-y-1">
                       <li>• {deviceMetrics.desktop.percentage_of_traffic.toFixed(1)}% of total traffic</li>
-                      <li>• ${deviceMetrics.desktop.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })} total revenue</li>
+                      <li>• {formatMoney(deviceMetrics.desktop.revenue, { maximumFractionDigits: 0 })} total revenue</li>
                       <li>• {deviceMetrics.desktop.conversion_rate.toFixed(2)}% conversion rate</li>
-                      <li>• {(deviceMetrics.desktop.spend > 0 ? deviceMetrics.desktop.revenue / deviceMetrics.desktop.spend : 0).toFixed(1)}x ROAS</li>
+                      {canViewFinancials && (
+                        <li>• {deviceMetrics.desktop.roas.toFixed(1)}x ROAS</li>
+                      )}
                     </ul>
                   </div>
                 </div>
@@ -0,0 +1,285 @@
+"use client";
+import { useMemo, useState } from 'react';
+import { useMarketingData } from '../../src/components/providers/marketing-data-provider';
+import { useSession } from '../../src/components/providers/session-provider';
+import { useCurrency } from '../../src/components/providers/currency-provider';
+import { IMPORT_FIELDS, ColumnMapping, ImportTable, ImportFieldKey, readImportFile, suggestMapping, buildImportRows } from '../../src/lib/campaign-import';
+import { importCampaigns } from '../../src/lib/api';
+import { IngestSummary } from '../../src/types/marketing';
+import { Navbar } from '../../src/components/ui/navbar';
+import { Footer } from '../../src/components/ui/footer';
+import { ErrorBanner } from '../../src/components/ui/error-banner';
+import { StaleDataNotice } from '../../src/components/ui/stale-data-notice';
+import { CardMetric } from '../../src/components/ui/card-metric';
+import { Table } from '../../src/components/ui/table';
+import { Upload, Columns, ListChecks, FileText, PlusCircle, RefreshCw, AlertTriangle, CheckCircle } from 'lucide-react';
+
+export default function ImportView() {
+  const { data: marketingData, loading, error, refetch } = useMarketingData();
+  const { canViewFinancials } = useSession();
+  const { rates } = useCurrency();
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<IngestSummary | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    setSummary(null);
+    setSubmitError(null);
+    if (!file) return;
+
+    try {
+      const imported = readImportFile(file.name, await file.text());
+      setFileName(file.name);
+      setTable(imported);
+      setMapping(suggestMapping(imported.columns));
+      setFileError(imported.records.length === 0 ? 'The file has no data rows' : null);
+    } catch (readError) {
+      setTable(null);
+      setFileError(readError instanceof Error ? readError.message : 'The file could not be read');
+    }
+  };
+
+  const handleMappingChange = (field: ImportFieldKey, column: string) => {
+    setSummary(null);
+    setMapping(current => ({ ...current, [field]: column || undefined }));
+  };
+
+  const rows = useMemo(() => {
+    if (!table || !marketingData) return [];
+    return buildImportRows(table, mapping, marketingData.campaigns, fileName, rates);
+  }, [table, mapping, marketingData, fileName, rates]);
+
+  const validRows = rows.filter(row => row.issues.length === 0);
+
+  const handleImport = async () => {
+    setSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      setSummary(await importCampaigns(validRows.map(row => row.campaign)));
+      // The import endpoint drops the server cache; reload so every view shows the imported rows
+      await refetch();
+    } catch (importError) {
+      setSubmitError(importError instanceof Error ? importError.message : 'Import failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-screen bg-gray-900">
+        <Navbar />
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-white">Loading...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col lg:flex-row min-h-screen bg-gray-900">
+      <Navbar />
+
+      {/* Main Content Area */}
+      <div className="flex-1 flex flex-col transition-all duration-300 ease-in-out overflow-hidden">
+        {/* Hero Section */}
+        <section className="bg-gradient-to-r from-gray-800 to-gray-700 text-white py-8 sm:py-12">
+          <div className="px-4 sm:px-6 lg:px-8">
+            <div className="text-center">
+              {error ? (
+                <ErrorBanner error={error} onRetry={refetch} />
+              ) : (
+                <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold">
+                  Import Campaign Data
+                </h1>
+              )}
+            </div>
+          </div>
+        </section>
+
+        {/* Content Area */}
+        <div className="flex-1 p-3 sm:p-4 lg:p-6 overflow-y-auto w-full max-w-full">
+          {marketingData && (
+            <>
+              <StaleDataNotice freshness={marketingData.freshness} />
+
+              {/* Step 1: Upload */}
+              <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-6 sm:mb-8">
+                <div className="flex items-center mb-4">
+                  <Upload className="h-5 w-5 text-gray-400 mr-2" />
+                  <h2 className="text-lg sm:text-xl font-semibold text-white">1. Upload a File</h2>
+                </div>
+                <p className="text-gray-300 text-sm mb-4">
+                  CSV with a header row, or JSON holding an array of objects. Rows are matched to existing
+                  campaigns by ID, or by name when no ID column is mapped.
+                </p>
+                <input
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={(event) => handleFile(event.target.files?.[0])}
+                  className="block text-sm text-gray-300 file:mr-4 file:px-4 file:py-2 file:rounded-md file:border-0 file:bg-blue-600 file:text-white hover:file:bg-blue-700"
+                />
+                {table && !fileError && (
+                  <p className="text-gray-400 text-sm mt-3">
+                    {fileName}: {table.records.length} rows, {table.columns.length} columns
+                  </p>
+                )}
+                {fileError && <p className="text-red-400 text-sm mt-3">{fileError}</p>}
+              </div>
+
+              {table && !fileError && (
+                <>
+                  {/* Step 2: Map Columns */}
+                  <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-6 sm:mb-8">
+                    <div className="flex items-center mb-4">
+                      <Columns className="h-5 w-5 text-gray-400 mr-2" />
+                      <h2 className="text-lg sm:text-xl font-semibold text-white">2. Map Columns</h2>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
+                      {IMPORT_FIELDS.map(field => (
+                        <label key={field.key} className="text-sm text-gray-300">
+                          {field.label}
+                          <select
+                            value={mapping[field.key] ?? ''}
+                            onChange={(event) => handleMappingChange(field.key, event.target.value)}
+                            className="mt-1 block w-full px-2 py-2 rounded-md bg-gray-900 border border-gray-600 text-white"
+                          >
+                            <option value="">Not mapped</option>
+                            {table.columns.map(column => (
+                              <option key={column} value={column}>{column}</option>
+                            ))}
+                          </select>
+                        </label>
+                      ))}
+                    </div>
+                    <p className="text-gray-400 text-xs mt-4">
+                      CTR, conversion rate, CPC, CPA, ROAS, budget utilization and average order value are
+                      calculated from the mapped counters.
+                    </p>
+                  </div>
+
+                  {/* Step 3: Preview */}
+                  <div className="flex items-center mb-4 sm:mb-6">
+                    <ListChecks className="h-5 w-5 text-gray-400 mr-2" />
+                    <h2 className="text-lg sm:text-xl font-semibold text-white">3. Preview</h2>
+                  </div>
+                  <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 mb-6 sm:mb-8">
+                    <CardMetric
+                      title="Rows"
+                      value={rows.length}
+                      icon={<FileText className="h-5 w-5" />}
+                    />
+                    <CardMetric
+                      title="New Campaigns"
+                      value={validRows.filter(row => row.action === 'create').length}
+                      icon={<PlusCircle className="h-5 w-5" />}
+                      className="text-green-400"
+                    />
+                    <CardMetric
+                      title="Updates"
+                      value={validRows.filter(row => row.action === 'update').length}
+                      icon={<RefreshCw className="h-5 w-5" />}
+                      className="text-blue-400"
+                    />
+                    <CardMetric
+                      title="Rows With Errors"
+                      value={rows.length - validRows.length}
+                      icon={<AlertTriangle className="h-5 w-5" />}
+                      className="text-red-400"
+                    />
+                  </div>
+
+                  <div className="overflow-x-auto w-full max-w-full mb-6 sm:mb-8">
+                    <Table
+                      exportable={false}
+                      maxHeight="500px"
+                      columns={[
+                        { key: 'line', header: 'Line', align: 'right', sortable: true, sortType: 'number' },
+                        {
+                          key: 'action',
+                          header: 'Action',
+                          align: 'center',
+                          sortable: true,
+                          sortType: 'string',
+                          render: (value) => (
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                              value === 'create' ? 'bg-green-900 text-green-300' : 'bg-blue-900 text-blue-300'
+                            }`}>
+                              {value === 'create' ? 'New' : 'Update'}
+                            </span>
+                          )
+                        },
+                        { key: 'id', header: 'ID', align: 'right', sortable: true, sortType: 'number' },
+                        { key: 'name', header: 'Campaign', sortable: true, sortType: 'string' },
+                        { key: 'spend', header: 'Spend', align: 'right', render: (_, row) => row.campaign.spend?.toLocaleString() ?? '' },
+                        { key: 'ctr', header: 'CTR', align: 'right', render: (_, row) => row.campaign.ctr !== undefined ? `${row.campaign.ctr}%` : '' },
+                        { key: 'cpc', header: 'CPC', align: 'right', render: (_, row) => row.campaign.cpc ?? '' },
+                        { key: 'cpa', header: 'CPA', align: 'right', render: (_, row) => row.campaign.cpa ?? '' },
+                        { key: 'roas', header: 'ROAS', align: 'right', render: (_, row) => row.campaign.roas !== undefined ? `${row.campaign.roas}x` : '' },
+                        {
+                          key: 'issues',
+                          header: 'Validation',
+                          render: (issues) => issues.length === 0 ? (
+                            <span className="text-green-400">OK</span>
+                          ) : (
+                            <ul className="text-red-400 text-xs space-y-1">
+                              {issues.map((issue: { path: string; message: string }) => (
+                                <li key={`${issue.path}-${issue.message}`}>{issue.path} {issue.message}</li>
+                              ))}
+                            </ul>
+                          )
+                        }
+                      ]}
+                      data={rows}
+                      emptyMessage="The file has no data rows"
+                    />
+                  </div>
+
+                  {/* Step 4: Import */}
+                  <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-6 sm:mb-8">
+                    <div className="flex items-center mb-4">
+                      <CheckCircle className="h-5 w-5 text-gray-400 mr-2" />
+                      <h2 className="text-lg sm:text-xl font-semibold text-white">4. Import</h2>
+                    </div>
+                    <p className="text-gray-300 text-sm mb-4">
+                      Rows with errors are skipped. Importing the same file again leaves the data unchanged.
+                    </p>
+                    {!canViewFinancials && (
+                      <p className="text-yellow-400 text-sm mb-4">
+                        Importing campaigns requires the finance or admin role.
+                      </p>
+                    )}
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                      <button
+                        onClick={handleImport}
+                        disabled={!canViewFinancials || submitting || validRows.length === 0}
+                        className="inline-flex items-center justify-center px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium transition-colors"
+                      >
+                        <Upload className="h-4 w-4 mr-2" />
+                        {submitting ? 'Importing...' : `Import ${validRows.length} valid rows`}
+                      </button>
+                    </div>
+                    {submitError && <p className="text-red-400 text-sm mt-3">{submitError}</p>}
+                    {summary && (
+                      <p className="text-green-400 text-sm mt-3">
+                        Imported {summary.received} rows: {summary.created} created, {summary.updated} updated,
+                        {' '}{summary.unchanged} unchanged.
+                      </p>
+                    )}
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <Footer />
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
 // app/layout.tsx
 import type { Metadata } from "next";
+import { cookies } from "next/headers";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import { MarketingDataProvider } from "../src/components/providers/marketing-data-provider";
+import { CurrencyProvider } from "../src/components/providers/currency-provider";
+import { SessionProvider } from "../src/components/providers/session-provider";
+import { SESSION_COOKIE, verifySessionToken } from "../src/lib/server/session";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -18,18 +23,27 @@ export const metadata: Metadata = {
   description: "Comprehensive marketing analytics and insights for data-driven decision making",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const session = await verifySessionToken((await cookies()).get(SESSION_COOKIE)?.value);
+  const user = session ? { username: session.username, name: session.name, role: session.role } : null;
+
   return (
     <html lang="en" suppressHydrationWarning>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
         suppressHydrationWarning
       >
-        {children}
+        <SessionProvider user={user}>
+          <MarketingDataProvider>
+            <CurrencyProvider>
+              {children}
+            </CurrencyProvider>
+          </MarketingDataProvider>
+        </SessionProvider>
       </body>
     </html>
   );
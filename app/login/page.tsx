@@ -0,0 +1,34 @@
+import { getAuthProvider } from '../../src/lib/server/auth-providers';
+import { LoginForm } from '../../src/components/ui/login-form';
+
+interface LoginPageProps {
+  searchParams: Promise<{ next?: string }>;
+}
+
+// Resolves relative paths only; anything that leaves it is not a same-site path
+const PLACEHOLDER_ORIGIN = 'http://login.invalid';
+
+// `next` as a path on this site, or '/' when it points anywhere else. Resolving it
+// as a URL catches what prefix checks miss, such as "/\evil.com", which browsers
+// read as "//evil.com".
+function sameSitePath(next: string | undefined): string {
+  if (!next) return '/';
+  try {
+    const url = new URL(next, PLACEHOLDER_ORIGIN);
+    return url.origin === PLACEHOLDER_ORIGIN ? `${url.pathname}${url.search}${url.hash}` : '/';
+  } catch {
+    return '/';
+  }
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const { next } = await searchParams;
+  // Only same-site paths, so the login page cannot be used to redirect elsewhere
+  const redirectTo = sameSitePath(next);
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
+      <LoginForm provider={getAuthProvider().id} redirectTo={redirectTo} />
+    </div>
+  );
+}
@@ -1,33 +1,27 @@
 "use client";
-import { useState, useEffect } from 'react';
-import { fetchMarketingData } from '../src/lib/api';
-import { MarketingData } from '../src/types/marketing';
+import { useMarketingData } from '../src/components/providers/marketing-data-provider';
+import { useCurrency } from '../src/components/providers/currency-provider';
+import { useSession } from '../src/components/providers/session-provider';
 import { Navbar } from '../src/components/ui/navbar';
 import { CardMetric } from '../src/components/ui/card-metric';
 import { Footer } from '../src/components/ui/footer';
-import { Target, DollarSign, TrendingUp, Users, Calendar, Clock, ShoppingBag, MapPin } from 'lucide-react';
+import { ErrorBanner } from '../src/components/ui/error-banner';
+import { StaleDataNotice } from '../src/components/ui/stale-data-notice';
+import { Target, DollarSign, TrendingUp, Users, Calendar, Clock, ShoppingBag, MapPin, FileSpreadsheet } from 'lucide-react';
 
 export default function Home() {
-  const [marketingData, setMarketingData] = useState<MarketingData | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { data: marketingData, loading, error, refetch } = useMarketingData();
+  const { formatMoney, currency, rates } = useCurrency();
+  const { canViewFinancials } = useSession();
 
-  // Load data on component mount
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const data = await fetchMarketingData();
-        setMarketingData(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load data');
-        console.error('Error loading marketing data:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadData();
-  }, []);
+  // Campaign filters in this page's query string (e.g. /?status=Active) apply to
+  // the workbook too; money is in the display currency
+  const handleExportWorkbook = () => {
+    const params = new URLSearchParams(window.location.search);
+    params.set('currency', currency);
+    params.set('rate', String(rates[currency]));
+    window.location.href = `/api/export/xlsx?${params}`;
+  };
 
   return (
     <div className="flex h-screen bg-gray-900">
@@ -40,9 +34,7 @@ export default function Home() {
           <div className="px-6 lg:px-8">
             <div className="text-center">
               {error ? (
-                <div className="bg-red-900 border border-red-700 text-red-200 px-4 py-3 rounded mb-4 max-w-2xl mx-auto">
-                  Error loading data: {error}
-                </div>
+                <ErrorBanner error={error} onRetry={refetch} />
               ) : loading ? (
                 <div className="animate-pulse">
                   <div className="h-10 bg-white/20 rounded mb-4 max-w-md mx-auto"></div>
@@ -68,6 +60,20 @@ export default function Home() {
 
         {/* Dashboard Content */}
         <div className="flex-1 p-4 lg:p-6 overflow-y-auto">
+          {marketingData && <StaleDataNotice freshness={marketingData.freshness} />}
+
+          {marketingData && (
+            <div className="flex justify-end mb-4">
+              <button
+                onClick={handleExportWorkbook}
+                className="flex items-center px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-medium transition-colors"
+              >
+                <FileSpreadsheet className="h-4 w-4 mr-1" />
+                Export workbook
+              </button>
+            </div>
+          )}
+
           {loading ? (
             <div className="flex items-center justify-center h-64">
               <div className="text-white">Loading...</div>
@@ -83,17 +89,19 @@ export default function Home() {
               
               <CardMetric
                 title="Total Revenue"
-                value={`$${marketingData.marketing_stats.total_revenue.toLocaleString()}`}
+                value={formatMoney(marketingData.marketing_stats.total_revenue)}
                 icon={<DollarSign className="h-5 w-5" />}
                 className="text-green-400"
               />
               
-              <CardMetric
-                title="Average ROAS"
-                value={`${marketingData.marketing_stats.average_roas}x`}
-                icon={<TrendingUp className="h-5 w-5" />}
-                className="text-blue-400"
-              />
+              {canViewFinancials && (
+                <CardMetric
+                  title="Average ROAS"
+                  value={`${marketingData.marketing_stats.average_roas}x`}
+                  icon={<TrendingUp className="h-5 w-5" />}
+                  className="text-blue-400"
+                />
+              )}
               
               <CardMetric
                 title="Total Conversions"
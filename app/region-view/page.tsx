@@ -1,49 +1,29 @@
 // app/region-view/page.tsx
 "use client";
-import { useState, useEffect, useMemo } from 'react';
-import { fetchMarketingData } from '../../src/lib/api';
-import { MarketingData, RegionalPerformance } from '../../src/types/marketing';
+import { useState, useMemo } from 'react';
+import { useMarketingData } from '../../src/components/providers/marketing-data-provider';
+import { useCurrency } from '../../src/components/providers/currency-provider';
+import { useSession } from '../../src/components/providers/session-provider';
+import { omitFinancialFields, visibleColumns } from '../../src/lib/access';
+import { aggregateRegions } from '../../src/lib/aggregates';
+import { sumTotals } from '../../src/lib/metrics';
+import { regionCoordinates } from '../../src/lib/regions';
 import { Navbar } from '../../src/components/ui/navbar';
 import { Footer } from '../../src/components/ui/footer';
+import { ErrorBanner } from '../../src/components/ui/error-banner';
+import { StaleDataNotice } from '../../src/components/ui/stale-data-notice';
 import { CardMetric } from '../../src/components/ui/card-metric';
 import { HeatMap } from '../../src/components/ui/heat-map';
-import { Table } from '../../src/components/ui/table';
+import { Table, TableColumn } from '../../src/components/ui/table';
 import { MapPin, DollarSign, TrendingUp, Target, MousePointer, Users, Globe } from 'lucide-react';
 
-// UAE city coordinates mapping
-const UAE_CITY_COORDINATES: { [key: string]: [number, number] } = {
-  'Dubai': [25.2048, 55.2708],
-  'Sharjah': [25.3460, 55.4200],
-  'Abu Dhabi': [24.4539, 54.3773],
-  'Al Ain': [24.1302, 55.8023],
-  'Ras Al Khaimah': [25.6741, 55.9804],
-  'Fujairah': [25.1288, 56.3265],
-  'Ajman': [25.4052, 55.5136],
-  'Umm Al Quwain': [25.5653, 55.5533]
-};
-
 export default function RegionView() {
-  const [marketingData, setMarketingData] = useState<MarketingData | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { data: marketingData, loading, error, refetch } = useMarketingData();
+  const { formatMoney } = useCurrency();
+  const { canViewFinancials } = useSession();
   const [selectedValueKey, setSelectedValueKey] = useState<'revenue' | 'spend'>('revenue');
-
-  // Load data on component mount
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const data = await fetchMarketingData();
-        setMarketingData(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load data');
-        console.error('Error loading marketing data:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadData();
-  }, []);
+  // Viewers only get the revenue map
+  const mapValueKey = canViewFinancials ? selectedValueKey : 'revenue';
 
   // Process regional performance data
   const regionalMetrics = useMemo(() => {
@@ -59,59 +39,23 @@ export default function RegionView() {
       };
     }
 
-    // Aggregate all regional performance data across campaigns
-    const regionMap: { [key: string]: RegionalPerformance & { campaignCount: number } } = {};
-
-    marketingData.campaigns.forEach(campaign => {
-      campaign.regional_performance.forEach(region => {
-        const regionKey = `${region.region}_${region.country}`;
-        
-        if (!regionMap[regionKey]) {
-          regionMap[regionKey] = {
-            ...region,
-            campaignCount: 1
-          };
-        } else {
-          regionMap[regionKey].impressions += region.impressions;
-          regionMap[regionKey].clicks += region.clicks;
-          regionMap[regionKey].conversions += region.conversions;
-          regionMap[regionKey].spend += region.spend;
-          regionMap[regionKey].revenue += region.revenue;
-          regionMap[regionKey].campaignCount += 1;
-          
-          // Recalculate derived metrics
-          const r = regionMap[regionKey];
-          r.ctr = r.impressions > 0 ? (r.clicks / r.impressions) * 100 : 0;
-          r.conversion_rate = r.clicks > 0 ? (r.conversions / r.clicks) * 100 : 0;
-          r.cpc = r.clicks > 0 ? r.spend / r.clicks : 0;
-          r.cpa = r.conversions > 0 ? r.spend / r.conversions : 0;
-          r.roas = r.spend > 0 ? r.revenue / r.spend : 0;
-        }
-      });
-    });
-
-    // Convert to array and add coordinates
-    const regionalData = Object.values(regionMap).map(region => ({
+    // Aggregate regions across campaigns and add coordinates
+    const regionalData = aggregateRegions(marketingData.campaigns).map(region => ({
       ...region,
-      lat: UAE_CITY_COORDINATES[region.region]?.[0],
-      lng: UAE_CITY_COORDINATES[region.region]?.[1],
+      lat: regionCoordinates(region.region)?.[0],
+      lng: regionCoordinates(region.region)?.[1],
       value: region[selectedValueKey]
     }));
 
     // Calculate totals
-    const totals = regionalData.reduce((acc, region) => ({
-      totalRevenue: acc.totalRevenue + region.revenue,
-      totalSpend: acc.totalSpend + region.spend,
-      totalImpressions: acc.totalImpressions + region.impressions,
-      totalClicks: acc.totalClicks + region.clicks,
-      totalConversions: acc.totalConversions + region.conversions
-    }), {
-      totalRevenue: 0,
-      totalSpend: 0,
-      totalImpressions: 0,
-      totalClicks: 0,
-      totalConversions: 0
-    });
+    const summed = sumTotals(regionalData);
+    const totals = {
+      totalRevenue: summed.revenue,
+      totalSpend: summed.spend,
+      totalImpressions: summed.impressions,
+      totalClicks: summed.clicks,
+      totalConversions: summed.conversions
+    };
 
     // Find top performing region
     const topRegion = regionalData.reduce((top, current) => 
@@ -147,9 +91,7 @@ export default function RegionView() {
           <div className="px-4 sm:px-6 lg:px-8">
             <div className="text-center">
               {error ? (
-                <div className="bg-red-900 border border-red-700 text-red-200 px-3 sm:px-4 py-3 rounded mb-4 max-w-2xl mx-auto text-sm sm:text-base">
-                  Error loading data: {error}
-                </div>
+                <ErrorBanner error={error} onRetry={refetch} />
               ) : (
                 <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold">
                   Regional Performance
@@ -163,6 +105,8 @@ export default function RegionView() {
         <div className="flex-1 p-3 sm:p-4 lg:p-6 overflow-y-auto w-full max-w-full">
           {marketingData && (
             <>
+              <StaleDataNotice freshness={marketingData.freshness} />
+
               {/* Regional Summary Cards */}
               <div className="mb-6 sm:mb-8">
                 <div className="flex items-center mb-4 sm:mb-6">
@@ -173,17 +117,19 @@ export default function RegionView() {
                 <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4 mb-6">
                   <CardMetric
                     title="Total Revenue"
-                    value={`$${regionalMetrics.totalRevenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+                    value={formatMoney(regionalMetrics.totalRevenue, { maximumFractionDigits: 0 })}
                     icon={<TrendingUp className="h-5 w-5" />}
                     className="text-green-400"
                   />
                   
-                  <CardMetric
-                    title="Total Spend"
-                    value={`$${regionalMetrics.totalSpend.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
-                    icon={<DollarSign className="h-5 w-5" />}
-                    className="text-blue-400"
-                  />
+                  {canViewFinancials && (
+                    <CardMetric
+                      title="Total Spend"
+                      value={formatMoney(regionalMetrics.totalSpend, { maximumFractionDigits: 0 })}
+                      icon={<DollarSign className="h-5 w-5" />}
+                      className="text-blue-400"
+                    />
+                  )}
                   
                   <CardMetric
                     title="Total Impressions"
@@ -215,12 +161,13 @@ export default function RegionView() {
                           {regionalMetrics.topRegion.region}, {regionalMetrics.topRegion.country}
                         </p>
                         <p className="text-sm text-gray-400">
-                          {regionalMetrics.topRegion.campaignCount} campaigns • ROAS: {regionalMetrics.topRegion.roas.toFixed(1)}x
+                          {regionalMetrics.topRegion.campaign_count} campaigns
+                          {canViewFinancials && ` • ROAS: ${regionalMetrics.topRegion.roas.toFixed(1)}x`}
                         </p>
                       </div>
                       <div className="text-right">
                         <p className="text-2xl font-bold text-green-400">
-                          ${regionalMetrics.topRegion.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                          {formatMoney(regionalMetrics.topRegion.revenue, { maximumFractionDigits: 0 })}
                         </p>
                         <p className="text-sm text-gray-400">Revenue</p>
                       </div>
@@ -238,34 +185,36 @@ export default function RegionView() {
                   </div>
                   
                   {/* Value Key Selector */}
-                  <div className="flex space-x-2">
-                    <button
-                      onClick={() => setSelectedValueKey('revenue')}
-                      className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
-                        selectedValueKey === 'revenue'
-                          ? 'bg-green-600 text-white'
-                          : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                      }`}
-                    >
-                      Revenue
-                    </button>
-                    <button
-                      onClick={() => setSelectedValueKey('spend')}
-                      className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
-                        selectedValueKey === 'spend'
-                          ? 'bg-blue-600 text-white'
-                          : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                      }`}
-                    >
-                      Spend
-                    </button>
-                  </div>
+                  {canViewFinancials && (
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => setSelectedValueKey('revenue')}
+                        className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                          selectedValueKey === 'revenue'
+                            ? 'bg-green-600 text-white'
+                            : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        }`}
+                      >
+                        Revenue
+                      </button>
+                      <button
+                        onClick={() => setSelectedValueKey('spend')}
+                        className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                          selectedValueKey === 'spend'
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        }`}
+                      >
+                        Spend
+                      </button>
+                    </div>
+                  )}
                 </div>
                 
                 <HeatMap
-                  title={`Regional ${selectedValueKey === 'revenue' ? 'Revenue' : 'Spend'} Distribution`}
-                  data={regionalMetrics.regionalData}
-                  valueKey={selectedValueKey}
+                  title={`Regional ${mapValueKey === 'revenue' ? 'Revenue' : 'Spend'} Distribution`}
+                  data={canViewFinancials ? regionalMetrics.regionalData : regionalMetrics.regionalData.map(omitFinancialFields)}
+                  valueKey={mapValueKey}
                   height={500}
                 />
               </div>
@@ -278,7 +227,8 @@ export default function RegionView() {
                 </div>
                 
                 <Table
-                  columns={[
+                  exportFileName="regional-performance"
+                  columns={visibleColumns<TableColumn>([
                     {
                       key: 'region',
                       header: 'Region',
@@ -327,7 +277,7 @@ export default function RegionView() {
                       align: 'right',
                       sortable: true,
                       sortType: 'number',
-                      render: (value) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+                      render: (value) => formatMoney(value, { maximumFractionDigits: 0 })
                     },
                     {
                       key: 'revenue',
@@ -338,7 +288,7 @@ export default function RegionView() {
                       sortType: 'number',
                       render: (value) => (
                         <span className="text-green-400 font-medium">
-                          ${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                          {formatMoney(value, { maximumFractionDigits: 0 })}
                         </span>
                       )
                     },
@@ -373,7 +323,7 @@ export default function RegionView() {
                         </span>
                       )
                     }
-                  ]}
+                  ], canViewFinancials)}
                   data={regionalMetrics.regionalData}
                   maxHeight="400px"
                   showIndex={true}
@@ -0,0 +1,115 @@
+"use client";
+import { useCurrency } from '../../src/components/providers/currency-provider';
+import { CURRENCIES, CURRENCY_CODES, BASE_CURRENCY, CurrencyCode } from '../../src/lib/currency';
+import { Navbar } from '../../src/components/ui/navbar';
+import { Footer } from '../../src/components/ui/footer';
+import { Coins, ArrowLeftRight, RotateCcw } from 'lucide-react';
+
+export default function SettingsView() {
+  const { currency, rates, setCurrency, setRate, resetRates, formatMoney } = useCurrency();
+
+  const handleRateChange = (code: CurrencyCode, value: string) => {
+    const rate = Number(value);
+    if (rate > 0) setRate(code, rate);
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row min-h-screen bg-gray-900">
+      <Navbar />
+
+      {/* Main Content Area */}
+      <div className="flex-1 flex flex-col transition-all duration-300 ease-in-out overflow-hidden">
+        {/* Hero Section */}
+        <section className="bg-gradient-to-r from-gray-800 to-gray-700 text-white py-8 sm:py-12">
+          <div className="px-4 sm:px-6 lg:px-8">
+            <div className="text-center">
+              <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold">
+                Settings
+              </h1>
+            </div>
+          </div>
+        </section>
+
+        {/* Content Area */}
+        <div className="flex-1 p-3 sm:p-4 lg:p-6 overflow-y-auto w-full max-w-full">
+          {/* Display Currency */}
+          <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-6 sm:mb-8">
+            <div className="flex items-center mb-4">
+              <Coins className="h-5 w-5 text-gray-400 mr-2" />
+              <h2 className="text-lg sm:text-xl font-semibold text-white">Display Currency</h2>
+            </div>
+            <p className="text-gray-300 text-sm mb-4">
+              Amounts are reported in {CURRENCIES[BASE_CURRENCY].name} ({BASE_CURRENCY}) and converted for display
+              with the exchange rates below. The choice is saved in this browser.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {CURRENCY_CODES.map(code => (
+                <button
+                  key={code}
+                  onClick={() => setCurrency(code)}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                    code === currency
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white'
+                  }`}
+                >
+                  {code}: {CURRENCIES[code].name}
+                </button>
+              ))}
+            </div>
+            <p className="text-gray-400 text-sm mt-4">
+              Example: {BASE_CURRENCY} 1,000 is shown as {formatMoney(1000, { maximumFractionDigits: 2 })}
+            </p>
+          </div>
+
+          {/* Exchange Rates */}
+          <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center">
+                <ArrowLeftRight className="h-5 w-5 text-gray-400 mr-2" />
+                <h2 className="text-lg sm:text-xl font-semibold text-white">Exchange Rates</h2>
+              </div>
+              <button
+                onClick={resetRates}
+                className="inline-flex items-center px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm transition-colors"
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset
+              </button>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left border-b border-gray-700">
+                  <th className="py-2 font-medium">Currency</th>
+                  <th className="py-2 font-medium text-right">Units per 1 {BASE_CURRENCY}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {CURRENCY_CODES.map(code => (
+                  <tr key={code} className="border-b border-gray-700 last:border-0">
+                    <td className="py-3 text-gray-200">{code}: {CURRENCIES[code].name}</td>
+                    <td className="py-3 text-right">
+                      <input
+                        // Remount when the stored rate changes, e.g. after a reset
+                        key={rates[code]}
+                        type="number"
+                        min={0}
+                        step="any"
+                        defaultValue={rates[code]}
+                        disabled={code === BASE_CURRENCY}
+                        onBlur={(event) => handleRateChange(code, event.target.value)}
+                        className="w-32 px-2 py-1 rounded-md bg-gray-900 border border-gray-600 text-white text-right disabled:opacity-50"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <Footer />
+      </div>
+    </div>
+  );
+}
@@ -1,35 +1,38 @@
 // app/weekly-view/page.tsx
 "use client";
-import { useState, useEffect, useMemo } from 'react';
-import { fetchMarketingData } from '../../src/lib/api';
-import { MarketingData, WeeklyPerformance } from '../../src/types/marketing';
+import { useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { useMarketingData } from '../../src/components/providers/marketing-data-provider';
+import { useCurrency } from '../../src/components/providers/currency-provider';
+import { useSession } from '../../src/components/providers/session-provider';
+import { aggregateWeekly } from '../../src/lib/aggregates';
+import { sumTotals } from '../../src/lib/metrics';
+import { isFinancialField } from '../../src/lib/access';
+import {
+  detectWeeklyAnomalies,
+  explainAnomaly,
+  ANOMALY_METRICS,
+  ANOMALY_METRIC_LABELS,
+  AnomalyDirection,
+  AnomalyMetric,
+  DEFAULT_ANOMALY_THRESHOLD,
+  MIN_ANOMALY_WEEKS,
+} from '../../src/lib/anomalies';
 import { Navbar } from '../../src/components/ui/navbar';
 import { Footer } from '../../src/components/ui/footer';
+import { ErrorBanner } from '../../src/components/ui/error-banner';
+import { StaleDataNotice } from '../../src/components/ui/stale-data-notice';
 import { CardMetric } from '../../src/components/ui/card-metric';
 import { LineChart } from '../../src/components/ui/line-chart';
-import { Calendar, TrendingUp, DollarSign, MousePointer, Target, Users } from 'lucide-react';
+import { Table } from '../../src/components/ui/table';
+import { Calendar, TrendingUp, DollarSign, MousePointer, Target, Users, Activity, AlertTriangle } from 'lucide-react';
 
 export default function WeeklyView() {
-  const [marketingData, setMarketingData] = useState<MarketingData | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const { data: marketingData, loading, error, refetch } = useMarketingData();
+  const { formatMoney } = useCurrency();
+  const { canViewFinancials } = useSession();
 
-  // Load data on component mount
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const data = await fetchMarketingData();
-        setMarketingData(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load data');
-        console.error('Error loading marketing data:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadData();
-  }, []);
 
   // Process weekly performance data
   const weeklyMetrics = useMemo(() => {
@@ -44,48 +47,25 @@ export default function WeeklyView() {
         spendByWeek: [],
         impressionsByWeek: [],
         clicksByWeek: [],
+        ctrByWeek: [],
+        conversionRateByWeek: [],
+        roasByWeek: [],
         weeklyData: [] // Add this to fix the TypeScript error
       };
     }
 
-    // Aggregate all weekly performance data across campaigns
-    const weeklyMap: { [key: string]: WeeklyPerformance } = {};
-
-    marketingData.campaigns.forEach(campaign => {
-      campaign.weekly_performance.forEach(week => {
-        const weekKey = `${week.week_start}_${week.week_end}`;
-        
-        if (!weeklyMap[weekKey]) {
-          weeklyMap[weekKey] = { ...week };
-        } else {
-          weeklyMap[weekKey].impressions += week.impressions;
-          weeklyMap[weekKey].clicks += week.clicks;
-          weeklyMap[weekKey].conversions += week.conversions;
-          weeklyMap[weekKey].spend += week.spend;
-          weeklyMap[weekKey].revenue += week.revenue;
-        }
-      });
-    });
-
-    // Convert to arrays and sort by week start date
-    const weeklyData = Object.values(weeklyMap).sort((a, b) => 
-      new Date(a.week_start).getTime() - new Date(b.week_start).getTime()
-    );
+    // Aggregate weekly performance across campaigns, sorted by week start
+    const weeklyData = aggregateWeekly(marketingData.campaigns);
 
     // Calculate totals
-    const totals = weeklyData.reduce((acc, week) => ({
-      totalRevenue: acc.totalRevenue + week.revenue,
-      totalSpend: acc.totalSpend + week.spend,
-      totalImpressions: acc.totalImpressions + week.impressions,
-      totalClicks: acc.totalClicks + week.clicks,
-      totalConversions: acc.totalConversions + week.conversions
-    }), {
-      totalRevenue: 0,
-      totalSpend: 0,
-      totalImpressions: 0,
-      totalClicks: 0,
-      totalConversions: 0
-    });
+    const summed = sumTotals(weeklyData);
+    const totals = {
+      totalRevenue: summed.revenue,
+      totalSpend: summed.spend,
+      totalImpressions: summed.impressions,
+      totalClicks: summed.clicks,
+      totalConversions: summed.conversions
+    };
 
     // Format data for charts
     const revenueByWeek = weeklyData.map(week => ({
@@ -112,16 +92,74 @@ export default function WeeklyView() {
       color: '#EF4444'
     }));
 
+    const ctrByWeek = weeklyData.map(week => ({
+      label: `Week ${new Date(week.week_start).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
+      value: week.ctr,
+      color: '#8B5CF6'
+    }));
+
+    const conversionRateByWeek = weeklyData.map(week => ({
+      label: `Week ${new Date(week.week_start).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
+      value: week.conversion_rate,
+      color: '#EC4899'
+    }));
+
+    const roasByWeek = weeklyData.map(week => ({
+      label: `Week ${new Date(week.week_start).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
+      value: week.roas,
+      color: '#14B8A6'
+    }));
+
     return {
       ...totals,
       revenueByWeek,
       spendByWeek,
       impressionsByWeek,
       clicksByWeek,
+      ctrByWeek,
+      conversionRateByWeek,
+      roasByWeek,
       weeklyData
     };
   }, [marketingData?.campaigns]);
 
+  // Unusual weeks, in the series across all campaigns and in each campaign's own
+  const anomalies = useMemo(() => {
+    if (!marketingData?.campaigns) return [];
+    return detectWeeklyAnomalies(marketingData.campaigns, {
+      metrics: ANOMALY_METRICS.filter(metric => canViewFinancials || !isFinancialField(metric))
+    });
+  }, [marketingData?.campaigns, canViewFinancials]);
+
+  const formatMetric = (metric: AnomalyMetric, value: number) => {
+    switch (metric) {
+      case 'spend':
+        return formatMoney(value, { maximumFractionDigits: 0 });
+      case 'roas':
+        return `${value.toFixed(2)}x`;
+      default:
+        return `${value.toFixed(2)}%`;
+    }
+  };
+
+  // Mark the chart points where the all-campaign series of `metric` is unusual
+  const markAnomalies = <T extends { label: string; value: number }>(points: T[], metric: AnomalyMetric) =>
+    points.map((point, index) => {
+      const anomaly = anomalies.find(entry =>
+        !entry.campaign && entry.metric === metric && entry.week_start === weeklyMetrics.weeklyData[index]?.week_start
+      );
+      return anomaly
+        ? { ...point, anomaly: { direction: anomaly.direction, note: explainAnomaly(anomaly, formatMetric) } }
+        : point;
+    });
+
+  const anomalyRows = anomalies.map(anomaly => ({
+    ...anomaly,
+    series: anomaly.campaign?.name ?? 'All campaigns',
+    metric_label: ANOMALY_METRIC_LABELS[anomaly.metric],
+    explanation: explainAnomaly(anomaly, formatMetric),
+  }));
+
   if (loading) {
     return (
       <div className="flex h-screen bg-gray-900">
@@ -144,9 +182,7 @@ export default function WeeklyView() {
           <div className="px-4 sm:px-6 lg:px-8">
             <div className="text-center">
               {error ? (
-                <div className="bg-red-900 border border-red-700 text-red-200 px-3 sm:px-4 py-3 rounded mb-4 max-w-2xl mx-auto text-sm sm:text-base">
-                  Error loading data: {error}
-                </div>
+                <ErrorBanner error={error} onRetry={refetch} />
               ) : (
                 <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold">
                   Weekly Performance
@@ -160,6 +196,8 @@ export default function WeeklyView() {
         <div className="flex-1 p-3 sm:p-4 lg:p-6 overflow-y-auto w-full max-w-full">
           {marketingData && (
             <>
+              <StaleDataNotice freshness={marketingData.freshness} />
+
               {/* Weekly Summary Cards */}
               <div className="mb-6 sm:mb-8">
                 <div className="flex items-center mb-4 sm:mb-6">
@@ -170,17 +208,19 @@ export default function WeeklyView() {
                 <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4 mb-6">
                   <CardMetric
                     title="Total Revenue"
-                    value={`$${weeklyMetrics.totalRevenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+                    value={formatMoney(weeklyMetrics.totalRevenue, { maximumFractionDigits: 0 })}
                     icon={<TrendingUp className="h-5 w-5" />}
                     className="text-green-400"
                   />
                   
-                  <CardMetric
-                    title="Total Spend"
-                    value={`$${weeklyMetrics.totalSpend.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
-                    icon={<DollarSign className="h-5 w-5" />}
-                    className="text-blue-400"
-                  />
+                  {canViewFinancials && (
+                    <CardMetric
+                      title="Total Spend"
+                      value={formatMoney(weeklyMetrics.totalSpend, { maximumFractionDigits: 0 })}
+                      icon={<DollarSign className="h-5 w-5" />}
+                      className="text-blue-400"
+                    />
+                  )}
                   
                   <CardMetric
                     title="Total Impressions"
@@ -207,27 +247,29 @@ export default function WeeklyView() {
               <div className="mb-6 sm:mb-8">
                 <div className="flex items-center mb-4 sm:mb-6">
                   <TrendingUp className="h-5 w-5 text-gray-400 mr-2" />
-                  <h2 className="text-lg sm:text-xl font-semibold text-white">Revenue & Spend Trends</h2>
+                  <h2 className="text-lg sm:text-xl font-semibold text-white">{canViewFinancials ? 'Revenue & Spend Trends' : 'Revenue Trends'}</h2>
                 </div>
                 
                 <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 sm:gap-6">
                   <LineChart
                     title="Revenue by Week"
                     data={weeklyMetrics.revenueByWeek}
-                    formatValue={(value) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+                    formatValue={(value) => formatMoney(value, { maximumFractionDigits: 0 })}
                     lineColor="#10B981"
                     areaOpacity={0.2}
                     height={300}
                   />
                   
-                  <LineChart
-                    title="Spend by Week"
-                    data={weeklyMetrics.spendByWeek}
-                    formatValue={(value) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
-                    lineColor="#3B82F6"
-                    areaOpacity={0.2}
-                    height={300}
-                  />
+                  {canViewFinancials && (
+                    <LineChart
+                      title="Spend by Week"
+                      data={markAnomalies(weeklyMetrics.spendByWeek, 'spend')}
+                      formatValue={(value) => formatMoney(value, { maximumFractionDigits: 0 })}
+                      lineColor="#3B82F6"
+                      areaOpacity={0.2}
+                      height={300}
+                    />
+                  )}
                 </div>
               </div>
 
@@ -259,6 +301,91 @@ export default function WeeklyView() {
                 </div>
               </div>
 
+              {/* Efficiency Line Charts */}
+              <div className="mb-6 sm:mb-8">
+                <div className="flex items-center mb-4 sm:mb-6">
+                  <Activity className="h-5 w-5 text-gray-400 mr-2" />
+                  <h2 className="text-lg sm:text-xl font-semibold text-white">Efficiency Trends</h2>
+                </div>
+                
+                <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 sm:gap-6">
+                  <LineChart
+                    title="CTR by Week"
+                    data={markAnomalies(weeklyMetrics.ctrByWeek, 'ctr')}
+                    formatValue={(value) => `${value.toFixed(2)}%`}
+                    lineColor="#8B5CF6"
+                    areaOpacity={0.2}
+                    height={280}
+                  />
+                  
+                  <LineChart
+                    title="Conversion Rate by Week"
+                    data={markAnomalies(weeklyMetrics.conversionRateByWeek, 'conversion_rate')}
+                    formatValue={(value) => `${value.toFixed(2)}%`}
+                    lineColor="#EC4899"
+                    areaOpacity={0.2}
+                    height={280}
+                  />
+                  
+                  {canViewFinancials && (
+                    <LineChart
+                      title="ROAS by Week"
+                      data={markAnomalies(weeklyMetrics.roasByWeek, 'roas')}
+                      formatValue={(value) => `${value.toFixed(2)}x`}
+                      lineColor="#14B8A6"
+                      areaOpacity={0.2}
+                      height={280}
+                    />
+                  )}
+                </div>
+              </div>
+
+              {/* Anomalies */}
+              <div className="mb-6 sm:mb-8">
+                <div className="flex items-center mb-4 sm:mb-6">
+                  <AlertTriangle className="h-5 w-5 text-gray-400 mr-2" />
+                  <h2 className="text-lg sm:text-xl font-semibold text-white">Anomalies</h2>
+                </div>
+                <p className="text-gray-300 text-sm mb-4">
+                  Weeks whose {canViewFinancials ? 'spend, CTR, conversion rate or ROAS' : 'CTR or conversion rate'} is far
+                  from the median week of the same series, across all campaigns or within one campaign. Series need at
+                  least {MIN_ANOMALY_WEEKS} weeks; a robust z-score beyond ±{DEFAULT_ANOMALY_THRESHOLD} is flagged.
+                </p>
+                <div className="overflow-x-auto w-full max-w-full">
+                  <Table
+                    exportFileName="weekly-anomalies"
+                    title={`Flagged Weeks (${anomalyRows.length})`}
+                    maxHeight="400px"
+                    columns={[
+                      {
+                        key: 'week_start',
+                        header: 'Week',
+                        sortable: true,
+                        sortType: 'date',
+                        render: (value, row) => `${new Date(value).toLocaleDateString()} - ${new Date(row.week_end).toLocaleDateString()}`
+                      },
+                      { key: 'series', header: 'Series', sortable: true, sortType: 'string' },
+                      { key: 'metric_label', header: 'Metric', sortable: true, sortType: 'string' },
+                      {
+                        key: 'direction',
+                        header: 'Change',
+                        sortable: true,
+                        sortType: 'string',
+                        render: (value: AnomalyDirection) => (
+                          <span className={`px-2 py-1 rounded text-xs font-medium ${value === 'spike' ? 'bg-yellow-900/50 text-yellow-300' : 'bg-red-900/50 text-red-300'}`}>
+                            {value === 'spike' ? 'Spike' : 'Drop'}
+                          </span>
+                        )
+                      },
+                      { key: 'explanation', header: 'Explanation' }
+                    ]}
+                    data={anomalyRows}
+                    emptyMessage="No unusual weeks found"
+                    onRowClick={(row) => row.campaign && router.push(`/campaign-view/${row.campaign.id}`)}
+                  />
+                </div>
+              </div>
+
               {/* Performance Summary */}
               {weeklyMetrics.weeklyData && weeklyMetrics.weeklyData.length > 0 && (
                 <div className="bg-gray-800 rounded-lg p-6 border border-gray-700">
@@ -273,21 +400,25 @@ export default function WeeklyView() {
                           <div className="flex justify-between text-sm">
                             <span className="text-gray-300">Revenue:</span>
                             <span className="text-green-400 font-medium">
-                              ${week.revenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
-                            </span>
-                          </div>
-                          <div className="flex justify-between text-sm">
-                            <span className="text-gray-300">Spend:</span>
-                            <span className="text-blue-400 font-medium">
-                              ${week.spend.toLocaleString(undefined, { maximumFractionDigits: 0 })}
-                            </span>
-                          </div>
-                          <div className="flex justify-between text-sm">
-                            <span className="text-gray-300">ROI:</span>
-                            <span className="font-medium">
-                              {week.spend > 0 ? ((week.revenue / week.spend) * 100).toFixed(1) : 0}%
+                              {formatMoney(week.revenue, { maximumFractionDigits: 0 })}
                             </span>
                           </div>
+                          {canViewFinancials && (
+                            <>
+                              <div className="flex justify-between text-sm">
+                                <span className="text-gray-300">Spend:</span>
+                                <span className="text-blue-400 font-medium">
+                                  {formatMoney(week.spend, { maximumFractionDigits: 0 })}
+                                </span>
+                              </div>
+                              <div className="flex justify-between text-sm">
+                                <span className="text-gray-300">ROI:</span>
+                                <span className="font-medium">
+                                  {(week.roas * 100).toFixed(1)}%
+                                </span>
+                              </div>
+                            </>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createSessionToken, SESSION_COOKIE } from './src/lib/server/session';
+
+// The limiter reads its settings when the module loads
+async function loadMiddleware() {
+  vi.resetModules();
+  delete (globalThis as { apiRateLimiter?: unknown }).apiRateLimiter;
+  return (await import('./middleware')).middleware;
+}
+
+const request = (path: string, headers: Record<string, string> = {}) =>
+  new NextRequest(`http://localhost${path}`, { headers: { host: 'localhost', ...headers } });
+
+beforeEach(() => {
+  vi.stubEnv('API_RATE_LIMIT', '2');
+  vi.stubEnv('MARKETING_INGEST_API_KEYS', 'ingest-secret');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+const signedIn = async (path: string, headers: Record<string, string> = {}) => {
+  const signed = request(path, headers);
+  signed.cookies.set(SESSION_COOKIE, await createSessionToken({ username: 'sam', name: 'Sam', role: 'viewer' }));
+  return signed;
+};
+
+describe('middleware authentication', () => {
+  it('sends signed-out visitors to the login page and back afterwards', async () => {
+    const middleware = await loadMiddleware();
+    const response = await middleware(request('/region-view?status=Active'));
+
+    expect(response.status).toBe(307);
+    expect(new URL(response.headers.get('location')!).pathname).toBe('/login');
+    expect(new URL(response.headers.get('location')!).searchParams.get('next')).toBe('/region-view?status=Active');
+    expect((await middleware(request('/login'))).status).toBe(200);
+  });
+
+  it('lets signed-in users through to pages and the API', async () => {
+    const middleware = await loadMiddleware();
+
+    expect((await middleware(await signedIn('/region-view'))).status).toBe(200);
+    expect((await middleware(await signedIn('/api/marketing-data'))).status).toBe(200);
+  });
+
+  it('answers API requests without a session with a JSON 401', async () => {
+    const middleware = await loadMiddleware();
+    const response = await middleware(request('/api/marketing-data'));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      error: 'Unauthorized',
+      message: 'Sign in or send an API key to access this resource',
+    });
+  });
+
+  it('treats a tampered session cookie as no session', async () => {
+    const middleware = await loadMiddleware();
+    const tampered = await signedIn('/api/marketing-data');
+    tampered.cookies.set(SESSION_COOKIE, `${tampered.cookies.get(SESSION_COOKIE)!.value}x`);
+
+    expect((await middleware(tampered)).status).toBe(401);
+  });
+});
+
+describe('middleware API clients and origins', () => {
+  it('accepts configured client keys and refuses unknown ones', async () => {
+    vi.stubEnv('API_CLIENT_KEYS', 'reporting:finance:client-secret');
+    const middleware = await loadMiddleware();
+
+    expect((await middleware(request('/api/marketing-data', { 'x-api-key': 'client-secret' }))).status).toBe(200);
+    const refused = await middleware(request('/api/marketing-data', { authorization: 'Bearer guess' }));
+    expect(refused.status).toBe(401);
+    expect((await refused.json()).error).toBe('Invalid API key');
+  });
+
+  it('refuses origins that are not allowed and lets allowed ones read the response', async () => {
+    vi.stubEnv('API_ALLOWED_ORIGINS', 'https://reports.example.com');
+    const middleware = await loadMiddleware();
+
+    expect((await middleware(await signedIn('/api/marketing-data', { origin: 'https://evil.example.com' }))).status).toBe(403);
+    const allowed = await middleware(await signedIn('/api/marketing-data', { origin: 'https://reports.example.com' }));
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe('https://reports.example.com');
+  });
+});
+
+describe('middleware rate limiting', () => {
+  it('limits each client key and signed-in user separately', async () => {
+    vi.stubEnv('API_CLIENT_KEYS', 'reporting:finance:client-secret');
+    const middleware = await loadMiddleware();
+    const asClient = () => middleware(request('/api/marketing-data', { 'x-api-key': 'client-secret' }));
+
+    await asClient();
+    await asClient();
+    expect((await asClient()).status).toBe(429);
+    expect((await middleware(await signedIn('/api/marketing-data'))).status).toBe(200);
+  });
+
+  it('gives anonymous callers without a known address a bucket per route', async () => {
+    const middleware = await loadMiddleware();
+
+    expect((await middleware(request('/api/health'))).headers.get('RateLimit-Remaining')).toBe('1');
+    expect((await middleware(request('/api/health'))).status).toBe(200);
+    const limited = await middleware(request('/api/health'));
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('30');
+
+    expect((await middleware(request('/api/auth/session'))).status).toBe(200);
+  });
+
+  it('limits configured ingest keys on their own and made-up keys as anonymous callers', async () => {
+    const middleware = await loadMiddleware();
+    const ingest = (key: string) => middleware(request('/api/marketing-data/ingest', { authorization: `Bearer ${key}` }));
+
+    expect((await ingest('guess-1')).status).toBe(200);
+    expect((await ingest('guess-2')).status).toBe(200);
+    expect((await ingest('guess-3')).status).toBe(429);
+    expect((await ingest('ingest-secret')).status).toBe(200);
+  });
+
+  it('tells anonymous callers apart by the address the platform header carries', async () => {
+    vi.stubEnv('API_CLIENT_IP_HEADER', 'X-Real-IP');
+    const middleware = await loadMiddleware();
+    const from = (address: string) => middleware(request('/api/health', { 'x-real-ip': address }));
+
+    await from('203.0.113.7');
+    await from('203.0.113.7');
+    expect((await from('203.0.113.7')).status).toBe(429);
+    expect((await from('203.0.113.8')).status).toBe(200);
+  });
+});
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from './src/lib/server/session';
+import { readRequestApiKey, findApiClient, findIngestKey } from './src/lib/server/api-clients';
+import { isAllowedOrigin } from './src/lib/server/cors';
+import { apiRateLimiter, requestClientAddress } from './src/lib/server/rate-limit';
+
+// Reachable without a session; the ingest endpoint checks its own API keys and
+// uptime probes call the health endpoint anonymously
+const INGEST_PATH = '/api/marketing-data/ingest';
+const PUBLIC_PATHS = [
+  '/login',
+  '/api/auth/login',
+  '/api/auth/logout',
+  '/api/auth/session',
+  INGEST_PATH,
+  '/api/health',
+];
+
+// Every denial is JSON with the same shape as the route handlers' errors
+const denied = (status: number, error: string, message: string, headers: Record<string, string> = {}, extra: object = {}) =>
+  NextResponse.json({ error, message, ...extra }, { status, headers });
+
+// Lets an allowed cross-origin caller read the response
+function withCors(response: NextResponse, origin: string | null): NextResponse {
+  if (origin) {
+    response.headers.set('Access-Control-Allow-Origin', origin);
+    response.headers.append('Vary', 'Origin');
+  }
+  return response;
+}
+
+// Next.js 15 no longer types NextRequest.ip, but some hosting adapters still set it
+const platformAddress = (request: NextRequest) => (request as NextRequest & { ip?: string }).ip ?? null;
+
+// Pages need a signed-in user and redirect to the login page otherwise.
+// API routes accept a session or a client API key, only answer allowed origins
+// and are rate limited per client.
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const isPublic = PUBLIC_PATHS.includes(pathname);
+
+  if (!pathname.startsWith('/api/')) {
+    if (isPublic || await getRequestSession(request)) return NextResponse.next();
+    const login = new URL('/login', request.url);
+    login.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(login);
+  }
+
+  const origin = request.headers.get('origin');
+  if (!isAllowedOrigin(request, origin)) {
+    return denied(403, 'Origin not allowed', `Requests from ${origin} are not allowed; add it to API_ALLOWED_ORIGINS`);
+  }
+  // CORS preflights never carry credentials
+  if (request.method === 'OPTIONS') return withCors(NextResponse.next(), origin);
+
+  const session = await getRequestSession(request);
+  // The ingest endpoint's Authorization header holds an ingest key, not a client key
+  const apiKey = session || isPublic ? null : readRequestApiKey(request);
+  const client = apiKey ? await findApiClient(apiKey) : null;
+  // Only configured ingest keys get a bucket of their own, so made-up keys cannot dodge the limit
+  const ingestKey = !session && pathname === INGEST_PATH ? readRequestApiKey(request) : null;
+  const ingestKeyPosition = ingestKey ? await findIngestKey(ingestKey) : null;
+
+  if (!isPublic && !session && !client) {
+    return withCors(apiKey
+      ? denied(401, 'Invalid API key', 'The API key is not recognised')
+      : denied(401, 'Unauthorized', 'Sign in or send an API key to access this resource'), origin);
+  }
+
+  const rateHeaders: Record<string, string> = {};
+  if (apiRateLimiter) {
+    const caller = client ? `client:${client.id}`
+      : session ? `user:${session.username}`
+      : ingestKeyPosition ? `ingest:${ingestKeyPosition}`
+      // Anonymous callers only reach public routes; each route has its own buckets so
+      // callers whose address is unknown cannot exhaust the login or health checks for each other
+      : `anon:${pathname}:${requestClientAddress(request.headers, platformAddress(request)) ?? 'unknown'}`;
+    const limit = apiRateLimiter.take(caller);
+    rateHeaders['RateLimit-Limit'] = String(limit.limit);
+    rateHeaders['RateLimit-Remaining'] = String(limit.remaining);
+    if (!limit.allowed) {
+      return withCors(denied(
+        429,
+        'Too many requests',
+        `Rate limit exceeded; retry in ${limit.retryAfterSeconds} seconds`,
+        {
+          ...rateHeaders,
+          'Retry-After': String(limit.retryAfterSeconds),
+          'Access-Control-Expose-Headers': 'Retry-After, RateLimit-Limit, RateLimit-Remaining',
+        },
+        { retry_after: limit.retryAfterSeconds }
+      ), origin);
+    }
+  }
+
+  const response = NextResponse.next();
+  Object.entries(rateHeaders).forEach(([name, value]) => response.headers.set(name, value));
+  return withCors(response, origin);
+}
+
+export const config = {
+  // Skip Next.js assets and files served from public/
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.[a-z0-9]+$).*)'],
+};
@@ -0,0 +1,12 @@
+// Prints an AUTH_USERS password hash: npm run hash-password -- <password>
+// Must stay in step with hashPassword in src/lib/server/auth-providers.ts
+import { randomBytes, scryptSync } from 'crypto';
+
+const password = process.argv[2];
+if (!password) {
+  console.error('Usage: npm run hash-password -- <password>');
+  process.exit(1);
+}
+
+const salt = randomBytes(16).toString('hex');
+console.log(`scrypt.${salt}.${scryptSync(password, salt, 64).toString('hex')}`);
@@ -0,0 +1,78 @@
+"use client";
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import {
+  CurrencyCode,
+  CurrencySettings,
+  DEFAULT_CURRENCY_SETTINGS,
+  DEFAULT_EXCHANGE_RATES,
+  formatMoney as formatAmount,
+  normalizeCurrencySettings,
+} from '../../lib/currency';
+
+interface CurrencyContextValue extends CurrencySettings {
+  setCurrency: (currency: CurrencyCode) => void;
+  setRate: (currency: CurrencyCode, rate: number) => void;
+  resetRates: () => void;
+  // Format a payload amount in the display currency
+  formatMoney: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextValue | null>(null);
+
+const STORAGE_KEY = 'marketing-data:currency';
+
+interface CurrencyProviderProps {
+  children: React.ReactNode;
+}
+
+// Display currency and exchange rates, remembered in localStorage
+export function CurrencyProvider({ children }: CurrencyProviderProps) {
+  const [settings, setSettings] = useState<CurrencySettings>(DEFAULT_CURRENCY_SETTINGS);
+
+  // Read after mounting so the server render and hydration agree
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      if (stored) setSettings(normalizeCurrencySettings(JSON.parse(stored)));
+    } catch {
+      // Unreadable settings fall back to the defaults
+    }
+  }, []);
+
+  const update = useCallback((next: (current: CurrencySettings) => CurrencySettings) => {
+    setSettings(current => {
+      const updated = normalizeCurrencySettings(next(current));
+      try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+      } catch (error) {
+        console.warn('Could not store currency settings:', error);
+      }
+      return updated;
+    });
+  }, []);
+
+  const setCurrency = useCallback((currency: CurrencyCode) => update(current => ({ ...current, currency })), [update]);
+  const setRate = useCallback(
+    (currency: CurrencyCode, rate: number) => update(current => ({ ...current, rates: { ...current.rates, [currency]: rate } })),
+    [update]
+  );
+  const resetRates = useCallback(() => update(current => ({ ...current, rates: DEFAULT_EXCHANGE_RATES })), [update]);
+  const formatMoney = useCallback(
+    (value: number, options?: Intl.NumberFormatOptions) => formatAmount(value, settings, options),
+    [settings]
+  );
+
+  return (
+    <CurrencyContext.Provider value={{ ...settings, setCurrency, setRate, resetRates, formatMoney }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency(): CurrencyContextValue {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
@@ -0,0 +1,90 @@
+"use client";
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { fetchMarketingData } from '../../lib/api';
+import { isAbortError } from '../../lib/errors';
+import { recordPayload, StoredPayload } from '../../lib/payload-history';
+import { MarketingData } from '../../types/marketing';
+import { useSession } from './session-provider';
+
+interface MarketingDataContextValue {
+  data: MarketingData | null;
+  // True only while nothing has been loaded yet; refetches keep the current data on screen
+  loading: boolean;
+  error: Error | null;
+  lastFetched: Date | null;
+  // The last payload with different contents, remembered across visits in localStorage
+  previous: StoredPayload | null;
+  refetch: () => Promise<void>;
+}
+
+const MarketingDataContext = createContext<MarketingDataContextValue | null>(null);
+
+interface MarketingDataProviderProps {
+  children: React.ReactNode;
+}
+
+// Loads MarketingData once for the whole app so switching views reuses it
+export function MarketingDataProvider({ children }: MarketingDataProviderProps) {
+  const [data, setData] = useState<MarketingData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [lastFetched, setLastFetched] = useState<Date | null>(null);
+  const [previous, setPrevious] = useState<StoredPayload | null>(null);
+  const signedIn = useSession().user !== null;
+
+  // Shared by every caller while a request is running
+  const inFlightRef = useRef<Promise<void> | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const refetch = useCallback(() => {
+    if (inFlightRef.current) return inFlightRef.current;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+
+    const request = (async () => {
+      try {
+        const result = await fetchMarketingData({ signal: controller.signal });
+        const fetchedAt = new Date();
+        setData(result);
+        setLastFetched(fetchedAt);
+        setPrevious(recordPayload(result, fetchedAt));
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err : new Error('Failed to load data'));
+        console.error('Error loading marketing data:', err);
+      } finally {
+        if (controllerRef.current === controller) inFlightRef.current = null;
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    })();
+
+    inFlightRef.current = request;
+    return request;
+  }, []);
+
+  // Load data on mount once signed in; cancel the request if the provider unmounts
+  useEffect(() => {
+    if (!signedIn) return;
+    refetch();
+    return () => {
+      controllerRef.current?.abort();
+      inFlightRef.current = null;
+    };
+  }, [refetch, signedIn]);
+
+  return (
+    <MarketingDataContext.Provider value={{ data, loading: loading && !data, error, lastFetched, previous, refetch }}>
+      {children}
+    </MarketingDataContext.Provider>
+  );
+}
+
+export function useMarketingData(): MarketingDataContextValue {
+  const context = useContext(MarketingDataContext);
+  if (!context) {
+    throw new Error('useMarketingData must be used within a MarketingDataProvider');
+  }
+  return context;
+}
@@ -0,0 +1,43 @@
+"use client";
+import { createContext, useCallback, useContext } from 'react';
+import { SessionUser, canViewFinancials } from '../../lib/access';
+import { clearPayloadHistory } from '../../lib/payload-history';
+
+interface SessionContextValue {
+  // Null only on the login page
+  user: SessionUser | null;
+  // Whether budget, spend and the ratios derived from spend may be shown
+  canViewFinancials: boolean;
+  signOut: () => Promise<void>;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+interface SessionProviderProps {
+  // Read from the session cookie by the root layout
+  user: SessionUser | null;
+  children: React.ReactNode;
+}
+
+export function SessionProvider({ user, children }: SessionProviderProps) {
+  const signOut = useCallback(async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined);
+    clearPayloadHistory();
+    // Full reload so no data loaded for this user stays in memory
+    window.location.assign('/login');
+  }, []);
+
+  return (
+    <SessionContext.Provider value={{ user, canViewFinancials: user ? canViewFinancials(user.role) : false, signOut }}>
+      {children}
+    </SessionContext.Provider>
+  );
+}
+
+export function useSession(): SessionContextValue {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return context;
+}
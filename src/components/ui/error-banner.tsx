@@ -0,0 +1,33 @@
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { describeError } from '../../lib/errors';
+
+interface ErrorBannerProps {
+  error: unknown;
+  onRetry?: () => void;
+  className?: string;
+}
+
+export function ErrorBanner({ error, onRetry, className = "" }: ErrorBannerProps) {
+  const { title, message } = describeError(error);
+
+  return (
+    <div className={`bg-red-900 border border-red-700 text-red-200 px-3 sm:px-4 py-3 rounded mb-4 max-w-2xl mx-auto text-sm sm:text-base text-left ${className}`}>
+      <div className="flex items-start">
+        <AlertTriangle className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold">{title}</p>
+          <p className="text-red-300 break-words">{message}</p>
+        </div>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="ml-3 flex items-center px-3 py-1 rounded-md bg-red-800 hover:bg-red-700 text-red-100 text-sm font-medium transition-colors flex-shrink-0"
+          >
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Retry
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
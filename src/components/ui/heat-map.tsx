@@ -1,12 +1,16 @@
 // src/components/ui/heat-map.tsx
 "use client";
 import { useEffect, useRef, useState } from 'react';
+import { useCurrency } from '../providers/currency-provider';
+import { regionCoordinates, FALLBACK_COORDINATES } from '../../lib/regions';
+import { roas } from '../../lib/metrics';
 
 interface HeatMapDataPoint {
   region: string;
   country: string;
   value: number;
   revenue?: number;
+  // Left out for users who may not see spend; the popup then omits spend and ROAS
   spend?: number;
   impressions?: number;
   clicks?: number;
@@ -23,17 +27,11 @@ interface HeatMapProps {
   height?: number;
 }
 
-// UAE city coordinates
-const UAE_CITY_COORDINATES: { [key: string]: [number, number] } = {
-  'Dubai': [25.2048, 55.2708],
-  'Sharjah': [25.3460, 55.4200],
-  'Abu Dhabi': [24.4539, 54.3773],
-  'Al Ain': [24.1302, 55.8023],
-  'Ras Al Khaimah': [25.6741, 55.9804],
-  'Fujairah': [25.1288, 56.3265],
-  'Ajman': [25.4052, 55.5136],
-  'Umm Al Quwain': [25.5653, 55.5533]
-};
+// Region and country names come from imported and ingested data, so they are
+// escaped before going into popup HTML
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
 
 // Simple interface for Leaflet
 interface LeafletMap {
@@ -54,6 +52,7 @@ export function HeatMap({
   const markersRef = useRef<any[]>([]);
   const [mapLoaded, setMapLoaded] = useState(false);
   const [isClient, setIsClient] = useState(false);
+  const { formatMoney } = useCurrency();
 
   // Set isClient to true only on client side
   useEffect(() => {
@@ -137,7 +136,7 @@ export function HeatMap({
         const markers: any[] = [];
 
         data.forEach(item => {
-          const coordinates = UAE_CITY_COORDINATES[item.region] || [25.0, 55.0];
+          const coordinates = regionCoordinates(item.region) ?? FALLBACK_COORDINATES;
           const value = item[valueKey] || item.value;
           
           // Calculate radius based on value
@@ -162,17 +161,18 @@ export function HeatMap({
           // Create popup content
           const popupContent = `
             <div class="p-3 text-gray-900 min-w-48">
-              <h3 class="font-bold text-lg text-gray-800">${item.region}</h3>
-              <p class="text-sm text-gray-600 mb-2">${item.country}</p>
+              <h3 class="font-bold text-lg text-gray-800">${escapeHtml(item.region)}</h3>
+              <p class="text-sm text-gray-600 mb-2">${escapeHtml(item.country)}</p>
               <div class="space-y-1 text-sm">
                 <div class="flex justify-between">
                   <span class="text-gray-700">Revenue:</span>
-                  <span class="font-semibold text-green-600">$${item.revenue?.toLocaleString()}</span>
+                  <span class="font-semibold text-green-600">${item.revenue !== undefined ? formatMoney(item.revenue) : ''}</span>
                 </div>
+                ${item.spend !== undefined ? `
                 <div class="flex justify-between">
                   <span class="text-gray-700">Spend:</span>
-                  <span class="font-semibold text-blue-600">$${item.spend?.toLocaleString()}</span>
-                </div>
+                  <span class="font-semibold text-blue-600">${formatMoney(item.spend)}</span>
+                </div>` : ''}
                 <div class="flex justify-between">
                   <span class="text-gray-700">Impressions:</span>
                   <span class="font-semibold">${item.impressions?.toLocaleString()}</span>
@@ -185,12 +185,13 @@ export function HeatMap({
                   <span class="text-gray-700">Conversions:</span>
                   <span class="font-semibold">${item.conversions?.toLocaleString()}</span>
                 </div>
+                ${item.spend !== undefined ? `
                 <div class="flex justify-between border-t border-gray-300 pt-1 mt-1">
                   <span class="text-gray-700 font-medium">ROAS:</span>
                   <span class="font-bold text-purple-600">
-                    ${item.spend && item.revenue ? (item.revenue / item.spend).toFixed(1) + 'x' : 'N/A'}
+                    ${item.revenue !== undefined ? roas({ revenue: item.revenue, spend: item.spend }).toFixed(1) + 'x' : 'N/A'}
                   </span>
-                </div>
+                </div>` : ''}
               </div>
             </div>
           `;
@@ -243,12 +244,12 @@ export function HeatMap({
       clearTimeout(timer);
       cleanupMap();
     };
-  }, [isClient, data, valueKey]);
+  }, [isClient, data, valueKey, formatMoney]);
 
   // Format value based on the key
   const formatValue = (value: number) => {
     if (valueKey === 'revenue' || valueKey === 'spend') {
-      return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+      return formatMoney(value, { maximumFractionDigits: 0 });
     }
     return value.toLocaleString();
   };
@@ -3,8 +3,18 @@ interface LineChartDataPoint {
   label: string;
   value: number;
   color?: string;
+  // Marks the point as unusual; `note` is added to its tooltip
+  anomaly?: {
+    direction: 'spike' | 'drop';
+    note: string;
+  };
 }
 
+const ANOMALY_COLORS = {
+  spike: '#F59E0B',
+  drop: '#EF4444',
+};
+
 interface LineChartProps {
   title: string;
   data: LineChartDataPoint[];
@@ -45,8 +55,9 @@ export function LineChart({
   const points = data.map((item, index) => {
     const x = (index / (data.length - 1)) * 100;
     const y = valueRange > 0 ? 100 - ((item.value - minValue) / valueRange) * 100 : 50;
-    return { x, y, value: item.value, label: item.label };
+    return { x, y, value: item.value, label: item.label, anomaly: item.anomaly };
   });
+  const hasAnomalies = points.some(point => point.anomaly);
 
   // Generate SVG path for the line
   const linePath = points.map((point, index) => 
@@ -111,6 +122,17 @@ export function LineChart({
                 strokeWidth="1"
                 className="transition-all duration-200 hover:r-3"
               />
+
+              {point.anomaly && (
+                <circle
+                  cx={point.x}
+                  cy={point.y}
+                  r="4"
+                  fill="none"
+                  stroke={ANOMALY_COLORS[point.anomaly.direction]}
+                  strokeWidth="1.5"
+                />
+              )}
               
               {/* Value tooltip on hover */}
               <circle
@@ -122,6 +144,7 @@ export function LineChart({
               >
                 <title>
                   {point.label}: {formatValue(point.value)}
+                  {point.anomaly && `\n${point.anomaly.note}`}
                 </title>
               </circle>
             </g>
@@ -144,6 +167,19 @@ export function LineChart({
           <span>{formatValue(minValue)}</span>
         </div>
       </div>
+
+      {hasAnomalies && (
+        <div className="flex gap-4 mt-8 text-xs text-gray-400">
+          <span className="flex items-center">
+            <span className="inline-block w-2.5 h-2.5 rounded-full border-2 mr-1.5" style={{ borderColor: ANOMALY_COLORS.spike }} />
+            Unusual spike
+          </span>
+          <span className="flex items-center">
+            <span className="inline-block w-2.5 h-2.5 rounded-full border-2 mr-1.5" style={{ borderColor: ANOMALY_COLORS.drop }} />
+            Unusual drop
+          </span>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,109 @@
+"use client";
+import { useState } from 'react';
+import { LogIn } from 'lucide-react';
+import { ROLES, ROLE_LABELS, Role } from '../../lib/access';
+
+interface LoginFormProps {
+  // The stub provider takes any username and lets the user pick a role
+  provider: 'local' | 'stub';
+  redirectTo: string;
+  className?: string;
+}
+
+export function LoginForm({ provider, redirectTo, className = "" }: LoginFormProps) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<Role>('viewer');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password, role }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        setError(body.message || 'Sign in failed');
+        return;
+      }
+      // Full navigation so the layout reads the new session cookie
+      window.location.assign(redirectTo);
+    } catch {
+      setError('Could not reach the server');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = "mt-1 block w-full px-3 py-2 rounded-md bg-gray-900 border border-gray-600 text-white text-sm";
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className={`w-full max-w-sm bg-gray-800 rounded-lg p-6 border border-gray-700 space-y-4 ${className}`}
+    >
+      <div className="flex items-center space-x-2.5 mb-2">
+        <div className="w-9 h-9 bg-blue-600 rounded-lg flex items-center justify-center shadow-sm">
+          <span className="text-white font-bold text-base">A</span>
+        </div>
+        <div className="flex flex-col">
+          <span className="font-semibold text-white text-base">Amana Marketing</span>
+          <span className="text-xs text-gray-400">Sign in to the dashboard</span>
+        </div>
+      </div>
+
+      <label className="block text-sm text-gray-300">
+        Username
+        <input
+          value={username}
+          onChange={(event) => setUsername(event.target.value)}
+          autoComplete="username"
+          required
+          className={inputClass}
+        />
+      </label>
+
+      {provider === 'stub' ? (
+        <label className="block text-sm text-gray-300">
+          Role
+          <select value={role} onChange={(event) => setRole(event.target.value as Role)} className={inputClass}>
+            {ROLES.map(value => (
+              <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+            ))}
+          </select>
+          <span className="block text-xs text-gray-500 mt-1">Stub sign-in for offline development; no password is checked.</span>
+        </label>
+      ) : (
+        <label className="block text-sm text-gray-300">
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            autoComplete="current-password"
+            required
+            className={inputClass}
+          />
+        </label>
+      )}
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full inline-flex items-center justify-center px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium transition-colors"
+      >
+        <LogIn className="h-4 w-4 mr-2" />
+        {submitting ? 'Signing in...' : 'Sign in'}
+      </button>
+    </form>
+  );
+}
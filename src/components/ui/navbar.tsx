@@ -13,7 +13,15 @@ import {
   MapPin,
   BarChart3,
   Smartphone,
+  GitCompare,
+  Upload,
+  Settings,
+  LogOut,
+  ShieldCheck,
+  FileWarning,
 } from 'lucide-react';
+import { useSession } from '../providers/session-provider';
+import { ROLE_LABELS } from '../../lib/access';
 
 interface NavigationItem {
   id: string;
@@ -35,6 +43,11 @@ const navigationItems: NavigationItem[] = [
   { id: "weekly-view", name: "Weekly View", icon: Calendar, href: "/weekly-view" },
   { id: "region-view", name: "Region View", icon: MapPin, href: "/region-view" },
   { id: "device-view", name: "Device View", icon: Smartphone, href: "/device-view" },
+  { id: "changes", name: "Changes", icon: GitCompare, href: "/changes" },
+  { id: "data-quality", name: "Data Quality", icon: ShieldCheck, href: "/data-quality" },
+  { id: "data-issues", name: "Data Issues", icon: FileWarning, href: "/data-issues" },
+  { id: "import", name: "Import", icon: Upload, href: "/import" },
+  { id: "settings", name: "Settings", icon: Settings, href: "/settings" },
 ];
 
 export function Navbar({ className = "" }: NavbarProps) {
@@ -42,10 +55,15 @@ export function Navbar({ className = "" }: NavbarProps) {
   const pathname = usePathname();
   const [isOpen, setIsOpen] = useState(false);
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const { user, signOut } = useSession();
+  const displayName = user?.name ?? 'Marketing Team';
+  const initials = displayName.split(/\s+/).map(part => part[0]).join('').slice(0, 2).toUpperCase();
   
   // Determine active item based on current pathname
   const getActiveItem = (currentPath: string) => {
-    const currentItem = navigationItems.find(item => item.href === currentPath);
+    // Nested pages such as /campaign-view/3 highlight their parent view
+    const currentItem = navigationItems.find(item => item.href === currentPath)
+      || navigationItems.find(item => item.href !== '/' && currentPath.startsWith(`${item.href}/`));
     return currentItem ? currentItem.id : "overview";
   };
   
@@ -232,24 +250,36 @@ export function Navbar({ className = "" }: NavbarProps) {
           {/* Profile Section */}
           <div className={`bg-gray-900/30 ${isCollapsed ? 'py-3 px-2' : 'p-3'}`}>
             {!isCollapsed ? (
-              <div className="flex items-center px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 transition-colors duration-200 cursor-pointer">
+              <div className="flex items-center px-3 py-2 rounded-md bg-gray-700">
                 <div className="w-8 h-8 bg-gray-600 rounded-full flex items-center justify-center">
-                  <span className="text-gray-200 font-medium text-sm">AM</span>
+                  <span className="text-gray-200 font-medium text-sm">{initials}</span>
                 </div>
                 <div className="flex-1 min-w-0 ml-2.5">
-                  <p className="text-sm font-medium text-white truncate">Marketing Team</p>
-                  <p className="text-xs text-gray-400 truncate">Campaign Manager</p>
+                  <p className="text-sm font-medium text-white truncate">{displayName}</p>
+                  <p className="text-xs text-gray-400 truncate">{user ? ROLE_LABELS[user.role] : 'Campaign Manager'}</p>
                 </div>
-                <div className="w-2 h-2 bg-green-500 rounded-full ml-2" title="Online" />
+                {user && (
+                  <button
+                    onClick={signOut}
+                    className="p-1.5 ml-2 rounded-md text-gray-400 hover:text-white hover:bg-gray-600 transition-colors duration-200"
+                    title="Sign out"
+                  >
+                    <LogOut className="h-4 w-4" />
+                  </button>
+                )}
               </div>
             ) : (
               <div className="flex justify-center">
-                <div className="relative">
+                <button
+                  onClick={user ? signOut : undefined}
+                  className="relative"
+                  title={user ? `Sign out ${displayName}` : displayName}
+                >
                   <div className="w-9 h-9 bg-gray-600 rounded-full flex items-center justify-center">
-                    <span className="text-gray-200 font-medium text-sm">AM</span>
+                    <span className="text-gray-200 font-medium text-sm">{initials}</span>
                   </div>
                   <div className="absolute -bottom-1 -right-1 w-3 h-3 bg-green-500 rounded-full border-2 border-gray-800" />
-                </div>
+                </button>
               </div>
             )}
           </div>
@@ -0,0 +1,28 @@
+import { Clock } from 'lucide-react';
+import { DataFreshness } from '../../types/marketing';
+
+interface StaleDataNoticeProps {
+  freshness?: DataFreshness;
+  className?: string;
+}
+
+const formatAge = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+};
+
+export function StaleDataNotice({ freshness, className = "" }: StaleDataNoticeProps) {
+  if (!freshness?.stale) return null;
+
+  return (
+    <div className={`flex items-start bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-3 sm:px-4 py-3 rounded mb-4 sm:mb-6 text-sm ${className}`}>
+      <Clock className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+      <div>
+        Showing cached data from {new Date(freshness.cached_at).toLocaleString()} ({formatAge(freshness.age_seconds)} old).
+        {' '}The live data source is currently unavailable.
+      </div>
+    </div>
+  );
+}
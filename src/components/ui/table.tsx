@@ -1,8 +1,9 @@
 "use client";
 import { useState, useMemo } from 'react';
-import { ChevronUp, ChevronDown, ChevronsUpDown } from 'lucide-react';
+import { ChevronUp, ChevronDown, ChevronsUpDown, Download } from 'lucide-react';
+import { toCsv, toFileSlug, downloadCsv } from '../../lib/csv';
 
-interface TableColumn {
+export interface TableColumn {
   key: string;
   header: string;
   width?: string;
@@ -12,15 +13,19 @@ interface TableColumn {
   sortType?: 'string' | 'number' | 'date';
 }
 
-interface TableProps {
+interface TableProps<Row extends Record<string, any>> {
   title?: string;
   columns: TableColumn[];
-  data: any[];
+  data: Row[];
   className?: string;
   maxHeight?: string;
   showIndex?: boolean;
   emptyMessage?: string;
   defaultSort?: { key: string; direction: 'asc' | 'desc' };
+  onRowClick?: (row: Row) => void;
+  // Show an "Export CSV" button that saves the rows in their current order
+  exportable?: boolean;
+  exportFileName?: string;
 }
 
 type SortConfig = {
@@ -28,7 +33,7 @@ type SortConfig = {
   direction: 'asc' | 'desc';
 } | null;
 
-export function Table({ 
+export function Table<Row extends Record<string, any>>({ 
   title, 
   columns, 
   data, 
@@ -36,8 +41,11 @@ export function Table({
   maxHeight = "400px",
   showIndex = false,
   emptyMessage = "No data available",
-  defaultSort
-}: TableProps) {
+  defaultSort,
+  onRowClick,
+  exportable = true,
+  exportFileName
+}: TableProps<Row>) {
   const [sortConfig, setSortConfig] = useState<SortConfig>(defaultSort || null);
 
   // Sort data based on current sort configuration
@@ -85,6 +93,12 @@ export function Table({
     });
   };
 
+  // Raw row values (not rendered cells) so numbers stay numeric in spreadsheets
+  const handleExport = () => {
+    const csv = toCsv(columns, sortedData);
+    downloadCsv(exportFileName || toFileSlug(title || 'table'), csv);
+  };
+
   const getSortIcon = (columnKey: string) => {
     const column = columns.find(col => col.key === columnKey);
     if (!column?.sortable) return null;
@@ -112,9 +126,18 @@ export function Table({
 
   return (
     <div className={`bg-gray-800 rounded-lg border border-gray-700 ${className}`}>
-      {title && (
-        <div className="p-6 pb-0">
+      {(title || exportable) && (
+        <div className="p-6 pb-0 flex items-center justify-between gap-3">
           <h3 className="text-lg font-semibold text-white">{title}</h3>
+          {exportable && (
+            <button
+              onClick={handleExport}
+              className="flex items-center px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-medium transition-colors flex-shrink-0"
+            >
+              <Download className="h-4 w-4 mr-1" />
+              Export CSV
+            </button>
+          )}
         </div>
       )}
       
@@ -154,7 +177,8 @@ export function Table({
               {sortedData.map((row, index) => (
                 <tr 
                   key={index} 
-                  className="hover:bg-gray-750 transition-colors duration-150"
+                  className={`hover:bg-gray-750 transition-colors duration-150 ${onRowClick ? 'cursor-pointer' : ''}`}
+                  onClick={onRowClick ? () => onRowClick(row) : undefined}
                 >
                   {showIndex && (
                     <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-300">
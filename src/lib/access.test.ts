@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { redactedFieldPaths, redactMarketingData, isFinancialField, omitFinancialFields } from './access';
+import { fixtureData, fixtureCampaign } from '../test/fixtures';
+
+describe('redactedFieldPaths', () => {
+  it('is empty for roles that see financials', () => {
+    expect(redactedFieldPaths(fixtureCampaign(), 'finance')).toEqual([]);
+    expect(redactedFieldPaths(fixtureCampaign(), 'admin')).toEqual([]);
+  });
+
+  it('lists top-level and breakdown financial fields for viewers', () => {
+    const campaign = fixtureCampaign();
+    const paths = redactedFieldPaths({
+      id: campaign.id,
+      spend: 10,
+      revenue: 20,
+      weekly_performance: campaign.weekly_performance.slice(0, 1),
+    }, 'viewer');
+
+    expect(paths).toEqual(['spend', 'weekly_performance[0].spend']);
+  });
+
+  it('is empty for a viewer patch without financial fields', () => {
+    expect(redactedFieldPaths({ id: 1, status: 'Paused', revenue: 50 }, 'viewer')).toEqual([]);
+  });
+});
+
+describe('redactMarketingData', () => {
+  it('returns the data unchanged for finance', () => {
+    const data = fixtureData();
+    expect(redactMarketingData(data, 'finance')).toBe(data);
+  });
+
+  it('removes every financial field for viewers', () => {
+    const redacted = redactMarketingData(fixtureData(), 'viewer');
+
+    expect(redacted.marketing_stats).not.toHaveProperty('total_spend');
+    expect(redacted.marketing_stats).not.toHaveProperty('average_roas');
+    redacted.campaigns.forEach(campaign => {
+      expect(redactedFieldPaths(campaign, 'viewer')).toEqual([]);
+      expect(campaign.revenue).toBeTypeOf('number');
+    });
+  });
+});
+
+describe('omitFinancialFields', () => {
+  it('keeps the fields that are not financial', () => {
+    expect(omitFinancialFields({ spend: 1, cpc: 2, revenue: 3, clicks: 4 })).toEqual({ revenue: 3, clicks: 4 });
+    expect(isFinancialField('budget')).toBe(true);
+    expect(isFinancialField('budget_utilization')).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import { MarketingData, Campaign } from '../types/marketing';
+
+export type Role = 'viewer' | 'finance' | 'admin';
+
+export const ROLES: Role[] = ['viewer', 'finance', 'admin'];
+
+// The signed-in user as carried in the session cookie
+export interface SessionUser {
+  username: string;
+  name: string;
+  role: Role;
+}
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  finance: 'Finance',
+  admin: 'Admin',
+};
+
+// Money fields only finance and admin users may see. cpc and roas are included
+// because spend can be recomputed from them (clicks × cpc, revenue ÷ roas).
+// revenue, average_order_value and budget_utilization stay visible: sales figures
+// are not restricted, and none of them recovers spend without a field listed here
+// (average_order_value is revenue ÷ conversions; budget_utilization needs budget).
+export const FINANCIAL_FIELDS = ['budget', 'spend', 'cpa', 'cpc', 'roas'] as const;
+
+// marketing_stats totals derived from the fields above
+export const FINANCIAL_STATS = ['total_spend', 'average_roas'] as const;
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+export function canViewFinancials(role: Role): boolean {
+  return role === 'finance' || role === 'admin';
+}
+
+export function isFinancialField(key: string): boolean {
+  return (FINANCIAL_FIELDS as readonly string[]).includes(key);
+}
+
+// Copy of `row` without the financial fields
+export function omitFinancialFields<T extends object>(row: T): T {
+  return Object.fromEntries(Object.entries(row).filter(([key]) => !isFinancialField(key))) as T;
+}
+
+// Table columns for a user who may (or may not) see financial fields
+export function visibleColumns<T extends { key: string }>(columns: T[], canViewFinancials: boolean): T[] {
+  return canViewFinancials ? columns : columns.filter(column => !isFinancialField(column.key));
+}
+
+// Breakdowns whose rows carry financial fields
+const FINANCIAL_BREAKDOWNS = ['weekly_performance', 'regional_performance', 'device_performance'] as const;
+
+// Paths of the fields in `campaign` a user with `role` is not shown, e.g.
+// "spend" or "weekly_performance[2].spend"; such a user must not write them either
+export function redactedFieldPaths(campaign: Partial<Campaign>, role: Role): string[] {
+  if (canViewFinancials(role)) return [];
+  const pathsIn = (row: object, prefix: string) =>
+    Object.keys(row).filter(isFinancialField).map(key => `${prefix}${key}`);
+
+  return [
+    ...pathsIn(campaign, ''),
+    ...FINANCIAL_BREAKDOWNS.flatMap(breakdown =>
+      (campaign[breakdown] ?? []).flatMap((row, index) => pathsIn(row, `${breakdown}[${index}].`))
+    ),
+  ];
+}
+
+export function redactCampaign(campaign: Campaign): Campaign {
+  return {
+    ...omitFinancialFields(campaign),
+    weekly_performance: campaign.weekly_performance.map(omitFinancialFields),
+    regional_performance: campaign.regional_performance.map(omitFinancialFields),
+    device_performance: campaign.device_performance.map(omitFinancialFields),
+  };
+}
+
+// What a user with `role` may receive: everything for finance and admin; viewers
+// get the payload with every financial field removed, including nested breakdowns.
+export function redactMarketingData(data: MarketingData, role: Role): MarketingData {
+  if (canViewFinancials(role)) return data;
+
+  const marketing_stats = Object.fromEntries(
+    Object.entries(data.marketing_stats).filter(([key]) => !(FINANCIAL_STATS as readonly string[]).includes(key))
+  ) as MarketingData['marketing_stats'];
+
+  return {
+    ...data,
+    marketing_stats,
+    campaigns: data.campaigns.map(redactCampaign),
+  };
+}
@@ -0,0 +1,77 @@
+import { Campaign } from '../types/marketing';
+import { MetricTotals, DerivedMetrics, percentage } from './metrics';
+import { runQuery, ESTIMATED_MEASURES } from './query';
+
+export type AggregateRow = MetricTotals & DerivedMetrics & {
+  // Number of campaigns contributing to the row
+  campaign_count: number;
+};
+
+export interface RegionAggregate extends AggregateRow {
+  region: string;
+  country: string;
+}
+
+export interface WeeklyAggregate extends AggregateRow {
+  week_start: string;
+  week_end: string;
+}
+
+export interface DeviceAggregate extends AggregateRow {
+  device: string;
+  // Share of all impressions across devices
+  percentage_of_traffic: number;
+}
+
+export type DemographicDimension = 'segment' | 'age_group' | 'gender';
+
+export interface DemographicAggregate extends AggregateRow {
+  // Set unless grouped by the other dimension only
+  age_group?: string;
+  gender?: string;
+}
+
+export type AggregateDimension = 'regions' | 'weekly' | 'devices' | 'demographics';
+
+export const AGGREGATE_DIMENSIONS: AggregateDimension[] = ['regions', 'weekly', 'devices', 'demographics'];
+
+// Fields of each aggregate that are estimated rather than recorded
+export const ESTIMATED_AGGREGATE_FIELDS: Record<AggregateDimension, string[]> = {
+  regions: ESTIMATED_MEASURES.regional_performance,
+  weekly: ESTIMATED_MEASURES.weekly_performance,
+  devices: ESTIMATED_MEASURES.device_performance,
+  demographics: ESTIMATED_MEASURES.demographic_breakdown,
+};
+
+export function aggregateRegions(campaigns: Campaign[]): RegionAggregate[] {
+  return runQuery(campaigns, { group_by: ['region', 'country'] }).rows;
+}
+
+// Weeks sorted by start date
+export function aggregateWeekly(campaigns: Campaign[]): WeeklyAggregate[] {
+  const weekEnds = new Map(campaigns.flatMap(campaign =>
+    campaign.weekly_performance.map(week => [week.week_start, week.week_end] as [string, string])
+  ));
+
+  return runQuery(campaigns, { group_by: ['week'], sort: { by: 'week', direction: 'asc' } }).rows
+    .map(({ week, ...row }) => ({ week_start: week, week_end: weekEnds.get(week) ?? week, ...row }));
+}
+
+export function aggregateDevices(campaigns: Campaign[]): DeviceAggregate[] {
+  const { rows, totals } = runQuery(campaigns, { group_by: ['device'] });
+
+  return rows.map(row => ({
+    ...row,
+    percentage_of_traffic: percentage(row.impressions, totals.impressions),
+  }));
+}
+
+// Demographic spend and revenue, and the CPC, CPA and ROAS over them, are
+// estimates: see ESTIMATED_MEASURES in query.ts
+export function aggregateDemographics(
+  campaigns: Campaign[],
+  by: DemographicDimension = 'segment'
+): DemographicAggregate[] {
+  const group_by: ('age_group' | 'gender')[] = by === 'segment' ? ['age_group', 'gender'] : [by];
+  return runQuery(campaigns, { group_by }).rows;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { robustZScores, detectSeriesAnomalies, detectWeeklyAnomalies, explainAnomaly, MIN_ANOMALY_WEEKS } from './anomalies';
+import { fixtureData } from '../test/fixtures';
+
+const week = (index: number, spend: number) => ({
+  week_start: `2025-01-${String(index * 7 + 1).padStart(2, '0')}`,
+  week_end: `2025-01-${String(index * 7 + 7).padStart(2, '0')}`,
+  impressions: 10000,
+  clicks: 200,
+  conversions: 10,
+  spend,
+  revenue: spend * 3,
+});
+
+describe('robustZScores', () => {
+  it('scores distance from the median in scaled MADs', () => {
+    const scores = robustZScores([1, 2, 3, 4, 100]);
+    expect(scores[2]).toBe(0);
+    expect(scores[4]).toBeCloseTo(0.6745 * 97);
+  });
+
+  it('falls back to the mean deviation when most values are equal', () => {
+    const scores = robustZScores([5, 5, 5, 5, 9]);
+    expect(scores[0]).toBe(0);
+    expect(scores[4]).toBeGreaterThan(3.5);
+  });
+
+  it('gives a flat series no anomalies', () => {
+    expect(robustZScores([2, 2, 2])).toEqual([0, 0, 0]);
+    expect(robustZScores([])).toEqual([]);
+  });
+});
+
+describe('detectSeriesAnomalies', () => {
+  it('flags a week far from the typical one', () => {
+    const weeks = [100, 110, 95, 105, 400].map((spend, index) => week(index, spend));
+    const anomalies = detectSeriesAnomalies(weeks, { id: 1, name: 'Launch' }, { metrics: ['spend'] });
+
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({
+      metric: 'spend',
+      direction: 'spike',
+      week_start: weeks[4].week_start,
+      campaign: { id: 1, name: 'Launch' },
+      value: 400,
+      baseline: 105,
+    });
+  });
+
+  it('needs enough weeks to know what is typical', () => {
+    const weeks = [100, 110, 95, 400].map((spend, index) => week(index, spend));
+    expect(weeks.length).toBeLessThan(MIN_ANOMALY_WEEKS);
+    expect(detectSeriesAnomalies(weeks)).toEqual([]);
+  });
+
+  it('skips weeks whose metric is unknown', () => {
+    const weeks = [100, 110, 95, 105, 400].map((spend, index) => ({ ...week(index, spend), spend: NaN }));
+    expect(detectSeriesAnomalies(weeks, undefined, { metrics: ['spend', 'roas'] })).toEqual([]);
+  });
+});
+
+describe('detectWeeklyAnomalies', () => {
+  it('orders anomalies from the most extreme', () => {
+    const anomalies = detectWeeklyAnomalies(fixtureData().campaigns, { threshold: 0.5 });
+    const scores = anomalies.map(anomaly => Math.abs(anomaly.score));
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+});
+
+describe('explainAnomaly', () => {
+  it('describes the change against the baseline', () => {
+    const [anomaly] = detectSeriesAnomalies([100, 110, 95, 105, 400].map((spend, index) => week(index, spend)), undefined, { metrics: ['spend'] });
+    expect(explainAnomaly(anomaly, (_metric, value) => `$${value}`)).toMatch(
+      /^Spend of \$400 is 281% above the typical \$105 for all campaigns \(robust z-score \d+\.\d\)$/
+    );
+  });
+});
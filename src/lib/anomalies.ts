@@ -0,0 +1,134 @@
+import { Campaign, WeeklyPerformance } from '../types/marketing';
+import { CampaignRef, percentChange } from './campaign-diff';
+import { aggregateWeekly } from './aggregates';
+import { MetricTotals, ctr, conversionRate, roas } from './metrics';
+
+export type AnomalyMetric = 'spend' | 'ctr' | 'conversion_rate' | 'roas';
+
+export const ANOMALY_METRICS: AnomalyMetric[] = ['spend', 'ctr', 'conversion_rate', 'roas'];
+
+export const ANOMALY_METRIC_LABELS: Record<AnomalyMetric, string> = {
+  spend: 'Spend',
+  ctr: 'CTR',
+  conversion_rate: 'Conversion rate',
+  roas: 'ROAS',
+};
+
+export type AnomalyDirection = 'spike' | 'drop';
+
+export interface WeeklyAnomaly {
+  metric: AnomalyMetric;
+  direction: AnomalyDirection;
+  week_start: string;
+  week_end: string;
+  // The campaign whose series it is in; unset for the series summed across campaigns
+  campaign?: CampaignRef;
+  value: number;
+  // Median of the series, what a typical week looks like
+  baseline: number;
+  // Robust z-score: distance from the median in scaled median absolute deviations
+  score: number;
+}
+
+export interface AnomalyOptions {
+  // |score| above which a week is flagged
+  threshold?: number;
+  metrics?: AnomalyMetric[];
+}
+
+// Iglewicz and Hoaglin's cut-off for modified z-scores
+export const DEFAULT_ANOMALY_THRESHOLD = 3.5;
+
+// Shorter series have no meaningful "typical" week
+export const MIN_ANOMALY_WEEKS = 5;
+
+type WeekRow = Pick<WeeklyPerformance, 'week_start' | 'week_end'> & MetricTotals;
+
+// The metric for a week, or NaN when the week cannot have one (no impressions for
+// ctr, no clicks for conversion rate, no spend for roas, or the field is redacted)
+const METRIC_VALUES: Record<AnomalyMetric, (week: WeekRow) => number> = {
+  spend: week => week.spend,
+  ctr: week => week.impressions > 0 ? ctr(week) : NaN,
+  conversion_rate: week => week.clicks > 0 ? conversionRate(week) : NaN,
+  roas: week => week.spend > 0 ? roas(week) : NaN,
+};
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Modified z-scores: 0.6745 × (x − median) / MAD. When more than half the values
+// are identical the MAD is 0, so the mean absolute deviation (scaled to match)
+// stands in; a series with no spread at all has no anomalies.
+export function robustZScores(values: number[]): number[] {
+  if (values.length === 0) return [];
+  const center = median(values);
+  const deviations = values.map(value => Math.abs(value - center));
+  const mad = median(deviations);
+  if (mad > 0) return values.map(value => (0.6745 * (value - center)) / mad);
+
+  const meanDeviation = deviations.reduce((sum, deviation) => sum + deviation, 0) / values.length;
+  if (meanDeviation === 0) return values.map(() => 0);
+  return values.map(value => (value - center) / (1.253314 * meanDeviation));
+}
+
+// Flag weeks in one weekly series whose metric is unusually high or low for that series
+export function detectSeriesAnomalies(
+  weeks: WeekRow[],
+  campaign?: CampaignRef,
+  { threshold = DEFAULT_ANOMALY_THRESHOLD, metrics = ANOMALY_METRICS }: AnomalyOptions = {}
+): WeeklyAnomaly[] {
+  const anomalies: WeeklyAnomaly[] = [];
+
+  metrics.forEach(metric => {
+    const points = weeks
+      .map(week => ({ week, value: METRIC_VALUES[metric](week) }))
+      .filter(point => Number.isFinite(point.value));
+    if (points.length < MIN_ANOMALY_WEEKS) return;
+
+    const values = points.map(point => point.value);
+    const baseline = median(values);
+    robustZScores(values).forEach((score, index) => {
+      if (Math.abs(score) <= threshold) return;
+      const { week, value } = points[index];
+      anomalies.push({
+        metric,
+        direction: score > 0 ? 'spike' : 'drop',
+        week_start: week.week_start,
+        week_end: week.week_end,
+        ...(campaign ? { campaign } : {}),
+        value,
+        baseline,
+        score,
+      });
+    });
+  });
+
+  return anomalies;
+}
+
+// Anomalies in the weekly series summed across `campaigns` and in each
+// campaign's own series, the most extreme first
+export function detectWeeklyAnomalies(campaigns: Campaign[], options: AnomalyOptions = {}): WeeklyAnomaly[] {
+  const anomalies = [
+    ...detectSeriesAnomalies(aggregateWeekly(campaigns), undefined, options),
+    ...campaigns.flatMap(campaign => {
+      const weeks = [...campaign.weekly_performance].sort((a, b) => a.week_start.localeCompare(b.week_start));
+      return detectSeriesAnomalies(weeks, { id: campaign.id, name: campaign.name }, options);
+    }),
+  ];
+  return anomalies.sort((a, b) => Math.abs(b.score) - Math.abs(a.score));
+}
+
+// e.g. "CTR of 1.20% is 58% below the typical 2.85% for all campaigns"
+export function explainAnomaly(anomaly: WeeklyAnomaly, formatValue: (metric: AnomalyMetric, value: number) => string): string {
+  const label = ANOMALY_METRIC_LABELS[anomaly.metric];
+  const series = anomaly.campaign ? anomaly.campaign.name : 'all campaigns';
+  const side = anomaly.direction === 'spike' ? 'above' : 'below';
+  const percent = percentChange(anomaly.baseline, anomaly.value);
+  const change = percent === null ? side : `${Math.abs(percent).toFixed(0)}% ${side}`;
+  return `${label} of ${formatValue(anomaly.metric, anomaly.value)} is ${change} the typical ` +
+    `${formatValue(anomaly.metric, anomaly.baseline)} for ${series} (robust z-score ${anomaly.score.toFixed(1)})`;
+}
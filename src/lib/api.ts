@@ -1,4 +1,30 @@
-import { MarketingData, ApiResponse } from '../types/marketing';
+import { MarketingData, ApiResponse, Campaign, IngestSummary } from '../types/marketing';
+import type { QualityReport } from './data-quality';
+import {
+  MarketingDataError,
+  NetworkError,
+  HttpStatusError,
+  ParseError,
+  ValidationError,
+  isAbortError,
+} from './errors';
+
+export interface FetchOptions {
+  // Per-attempt timeout in milliseconds
+  timeoutMs?: number;
+  // Extra attempts after the first for network errors and 5xx responses
+  retries?: number;
+  // Delay before the first retry; doubles on every further attempt
+  retryDelayMs?: number;
+  // Cancels the request, e.g. when the page that started it unmounts
+  signal?: AbortSignal;
+}
+
+const DEFAULT_FETCH_OPTIONS: Required<Omit<FetchOptions, 'signal'>> = {
+  timeoutMs: 15000,
+  retries: 2,
+  retryDelayMs: 500,
+};
 
 // Function to get the correct base URL for API calls
 function getApiBaseUrl(): string {
@@ -6,61 +32,230 @@ function getApiBaseUrl(): string {
   if (process.env.NODE_ENV === 'production') {
     return process.env.NEXT_PUBLIC_API_URL || '';
   }
-  
+
   // For server-side rendering in development
   if (typeof window === 'undefined') {
     return 'http://localhost:3000';
   }
-  
+
   // For client-side in development
   return '';
 }
 
-export async function fetchMarketingData(): Promise<MarketingData> {
+// Last payload and ETag per URL, reused when the route answers 304 Not Modified
+const revalidationCache = new Map<string, { etag: string; data: MarketingData }>();
+
+function conditionalHeaders(url: string): Record<string, string> {
+  const cached = revalidationCache.get(url);
+  return cached ? { 'If-None-Match': cached.etag } : {};
+}
+
+// The cached payload, with a stale snapshot's age brought up to date from X-Data-Age
+function revalidatedData(response: Response, data: MarketingData): MarketingData {
+  const age = Number(response.headers.get('X-Data-Age'));
+  if (!data.freshness || !Number.isFinite(age)) return data;
+  return { ...data, freshness: { ...data.freshness, age_seconds: age } };
+}
+
+function rememberResponse(url: string, response: Response, data: MarketingData) {
+  const etag = response.headers.get('ETag');
+  if (etag) {
+    revalidationCache.set(url, { etag, data });
+  }
+}
+
+function abortError(): Error {
+  const error = new Error('The request was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+// Resolve after `ms`, or reject as soon as the signal aborts
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Single attempt with a timeout; maps every failure onto a MarketingDataError.
+// `revalidate` sends the cached ETag, if there is one.
+async function attemptFetch(url: string, timeoutMs: number, signal?: AbortSignal, revalidate = true): Promise<MarketingData> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
   try {
-    const baseUrl = getApiBaseUrl();
-    const url = `${baseUrl}/api/marketing-data`;
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      // Disable caching for development
-      cache: 'no-store',
-    });
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(revalidate ? conditionalHeaders(url) : {}),
+        },
+        // Revalidation is handled with ETags above, so skip the HTTP cache
+        cache: 'no-store',
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw abortError();
+      if (timedOut) {
+        throw new NetworkError(`Request timed out after ${timeoutMs}ms`, { timedOut: true, cause: error });
+      }
+      throw new NetworkError(error instanceof Error ? error.message : 'Network request failed', { cause: error });
+    }
+
+    if (response.status === 304) {
+      const cached = revalidationCache.get(url);
+      if (cached) return revalidatedData(response, cached.data);
+      // Nothing cached to answer a 304 from: ask again for the full body
+      if (revalidate) return attemptFetch(url, timeoutMs, signal, false);
+    }
 
     if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+      // Error responses from our routes carry an ApiResponse body, but proxies may not
+      const errorData: ApiResponse = await response.json().catch(() => ({}));
+      const message = errorData.message || errorData.error || `HTTP error! status: ${response.status}`;
+
+      if (errorData.violations || errorData.details) {
+        throw new ValidationError(response.status, message, errorData.violations, errorData.details);
+      }
+      throw new HttpStatusError(response.status, message);
+    }
+
+    let data: MarketingData;
+    try {
+      data = await response.json();
+    } catch (error) {
+      if (signal?.aborted) throw abortError();
+      throw new ParseError('Response body is not valid JSON', { cause: error });
     }
 
-    const data: MarketingData = await response.json();
+    rememberResponse(url, response, data);
     return data;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Retry network errors and 5xx responses with exponential backoff
+async function fetchWithRetry(url: string, options: FetchOptions = {}): Promise<MarketingData> {
+  const { timeoutMs, retries, retryDelayMs } = { ...DEFAULT_FETCH_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await attemptFetch(url, timeoutMs, options.signal);
+    } catch (error) {
+      const retryable = error instanceof MarketingDataError && error.retryable;
+      if (!retryable || attempt >= retries) throw error;
+
+      await delay(retryDelayMs * Math.pow(2, attempt), options.signal);
+    }
+  }
+}
+
+export async function fetchMarketingData(options: FetchOptions = {}): Promise<MarketingData> {
+  try {
+    const baseUrl = getApiBaseUrl();
+    return await fetchWithRetry(`${baseUrl}/api/marketing-data`, options);
   } catch (error) {
-    console.error('Error fetching marketing data:', error);
-    throw new Error(`Failed to fetch marketing data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (!isAbortError(error)) {
+      console.error('Error fetching marketing data:', error);
+    }
+    throw error;
   }
 }
 
 // Client-side fetch function for use in components
-export async function fetchMarketingDataClient(): Promise<MarketingData> {
+export async function fetchMarketingDataClient(options: FetchOptions = {}): Promise<MarketingData> {
   try {
-    const response = await fetch('/api/marketing-data', {
-      method: 'GET',
+    return await fetchWithRetry('/api/marketing-data', options);
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.error('Error fetching marketing data:', error);
+    }
+    throw error;
+  }
+}
+
+// Browser-only: upsert campaign records through the import endpoint, authorized
+// by the signed-in user's session
+export async function importCampaigns(campaigns: (Partial<Campaign> & { id: number })[]): Promise<IngestSummary> {
+  let response: Response;
+  try {
+    response = await fetch('/api/marketing-data/import', {
+      method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
+      body: JSON.stringify({ campaigns }),
     });
+  } catch (error) {
+    throw new NetworkError(error instanceof Error ? error.message : 'Network request failed', { cause: error });
+  }
 
-    if (!response.ok) {
-      const errorData: ApiResponse = await response.json();
-      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const errorData = body as ApiResponse;
+    const message = errorData.message || errorData.error || `HTTP error! status: ${response.status}`;
+    if (errorData.violations) {
+      throw new ValidationError(response.status, message, errorData.violations);
     }
+    throw new HttpStatusError(response.status, message);
+  }
+  return body as IngestSummary;
+}
 
-    const data: MarketingData = await response.json();
-    return data;
+// Browser-only: the server's data quality scan, which also covers campaigns the
+// validator dropped before the data reached the browser
+export async function fetchDataQuality(signal?: AbortSignal): Promise<QualityReport> {
+  let response: Response;
+  try {
+    response = await fetch('/api/data-quality', { cache: 'no-store', signal });
   } catch (error) {
-    console.error('Error fetching marketing data:', error);
-    throw error;
+    if (signal?.aborted) throw abortError();
+    throw new NetworkError(error instanceof Error ? error.message : 'Network request failed', { cause: error });
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const errorData = body as ApiResponse;
+    throw new HttpStatusError(response.status, errorData.message || errorData.error || `HTTP error! status: ${response.status}`);
+  }
+  return body as QualityReport;
+}
+
+// Browser-only: one campaign by id, or null when there is no such campaign.
+// Financial fields are redacted for roles that may not see them.
+export async function fetchCampaign(id: string, signal?: AbortSignal): Promise<Campaign | null> {
+  let response: Response;
+  try {
+    response = await fetch(`/api/campaigns/${encodeURIComponent(id)}`, { cache: 'no-store', signal });
+  } catch (error) {
+    if (signal?.aborted) throw abortError();
+    throw new NetworkError(error instanceof Error ? error.message : 'Network request failed', { cause: error });
+  }
+
+  if (response.status === 404) return null;
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const errorData = body as ApiResponse;
+    throw new HttpStatusError(response.status, errorData.message || errorData.error || `HTTP error! status: ${response.status}`);
   }
+  return body as Campaign;
 }
@@ -0,0 +1,98 @@
+import { Campaign } from '../types/marketing';
+
+// Top-level campaign fields compared between two payloads
+export const DIFF_FIELDS = [
+  'name',
+  'status',
+  'objective',
+  'medium',
+  'format',
+  'product_category',
+  'budget',
+  'spend',
+  'budget_utilization',
+  'impressions',
+  'clicks',
+  'conversions',
+  'revenue',
+  'average_order_value',
+  'ctr',
+  'conversion_rate',
+  'cpc',
+  'cpa',
+  'roas',
+] as const;
+
+export type DiffField = typeof DIFF_FIELDS[number];
+
+export interface FieldChange {
+  field: DiffField;
+  before: string | number;
+  after: string | number;
+  // Numeric fields only: after - before, and the change relative to before (null when before is 0)
+  delta?: number;
+  percent_change?: number | null;
+}
+
+export interface CampaignRef {
+  id: number;
+  name: string;
+}
+
+export interface ChangedCampaign extends CampaignRef {
+  changes: FieldChange[];
+}
+
+export interface CampaignDiff {
+  added: CampaignRef[];
+  removed: CampaignRef[];
+  changed: ChangedCampaign[];
+  unchanged: number;
+}
+
+export function percentChange(before: number, after: number): number | null {
+  return before === 0 ? null : ((after - before) / Math.abs(before)) * 100;
+}
+
+// Campaigns are matched by id; a change is any difference in DIFF_FIELDS
+export function diffCampaigns(before: Campaign[], after: Campaign[]): CampaignDiff {
+  const previous = new Map(before.map(campaign => [campaign.id, campaign]));
+  const current = new Map(after.map(campaign => [campaign.id, campaign]));
+
+  const added = after
+    .filter(campaign => !previous.has(campaign.id))
+    .map(({ id, name }) => ({ id, name }));
+  const removed = before
+    .filter(campaign => !current.has(campaign.id))
+    .map(({ id, name }) => ({ id, name }));
+
+  const changed: ChangedCampaign[] = [];
+  let unchanged = 0;
+
+  after.forEach(campaign => {
+    const old = previous.get(campaign.id);
+    if (!old) return;
+
+    const changes: FieldChange[] = [];
+    DIFF_FIELDS.forEach(field => {
+      const was = old[field];
+      const now = campaign[field];
+      if (was === now) return;
+
+      const change: FieldChange = { field, before: was, after: now };
+      if (typeof was === 'number' && typeof now === 'number') {
+        change.delta = now - was;
+        change.percent_change = percentChange(was, now);
+      }
+      changes.push(change);
+    });
+
+    if (changes.length > 0) {
+      changed.push({ id: campaign.id, name: campaign.name, changes });
+    } else {
+      unchanged++;
+    }
+  });
+
+  return { added, removed, changed, unchanged };
+}
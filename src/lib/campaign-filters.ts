@@ -0,0 +1,146 @@
+import { MarketingData, Campaign, Filters, ApiErrorDetail } from '../types/marketing';
+
+// Campaign filters accepted by /api/marketing-data (and the routes built on it)
+export interface CampaignFilters {
+  status?: string[];
+  medium?: string[];
+  objective?: string[];
+  format?: string[];
+  product_category?: string[];
+  region?: string[];
+  start_date?: {
+    from?: string;
+    to?: string;
+  };
+  // Text the campaign name contains, case-insensitively
+  name?: string;
+}
+
+type ListFilterKey = Exclude<keyof CampaignFilters, 'start_date' | 'name'>;
+
+// Query parameter -> list of allowed values in the payload's `filters`
+const LIST_PARAMETERS: { [key in ListFilterKey]: keyof Filters } = {
+  status: 'available_statuses',
+  medium: 'available_mediums',
+  objective: 'available_objectives',
+  format: 'available_formats',
+  product_category: 'available_product_categories',
+  region: 'available_regions',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value: string) =>
+  DATE_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+export type ParseFiltersResult =
+  | { ok: true; filters: CampaignFilters }
+  | { ok: false; errors: ApiErrorDetail[] };
+
+// Read campaign filters from query parameters. List parameters may be repeated
+// (?status=Active&status=Paused) or comma separated (?status=Active,Paused), and
+// are matched case-insensitively against the payload's `filters.available_*` lists.
+export function parseCampaignFilters(params: URLSearchParams, available: Filters): ParseFiltersResult {
+  const filters: CampaignFilters = {};
+  const errors: ApiErrorDetail[] = [];
+
+  (Object.keys(LIST_PARAMETERS) as ListFilterKey[]).forEach(parameter => {
+    const values = params.getAll(parameter)
+      .flatMap(value => value.split(','))
+      .map(value => value.trim())
+      .filter(Boolean);
+    if (values.length === 0) return;
+
+    const allowed = (available[LIST_PARAMETERS[parameter]] as string[]) || [];
+    const matched: string[] = [];
+
+    values.forEach(value => {
+      const match = allowed.find(option => option.toLowerCase() === value.toLowerCase());
+      if (match) {
+        if (!matched.includes(match)) matched.push(match);
+      } else {
+        errors.push({
+          parameter,
+          value,
+          message: `Unknown ${parameter.replace('_', ' ')} "${value}"`,
+          allowed,
+        });
+      }
+    });
+
+    filters[parameter] = matched;
+  });
+
+  const from = params.get('start_date_from') || undefined;
+  const to = params.get('start_date_to') || undefined;
+
+  const dates: [string, string | undefined][] = [['start_date_from', from], ['start_date_to', to]];
+  dates.forEach(([parameter, value]) => {
+    if (value && !isValidDate(value)) {
+      errors.push({ parameter, value, message: 'Expected a date in YYYY-MM-DD format' });
+    }
+  });
+
+  if (from && to && isValidDate(from) && isValidDate(to) && from > to) {
+    errors.push({
+      parameter: 'start_date_from',
+      value: from,
+      message: `start_date_from must not be later than start_date_to (${to})`,
+    });
+  }
+
+  if (from || to) {
+    filters.start_date = {};
+    if (from) filters.start_date.from = from;
+    if (to) filters.start_date.to = to;
+  }
+
+  const name = params.get('name')?.trim();
+  if (name) filters.name = name;
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, filters };
+}
+
+export function hasCampaignFilters(filters: CampaignFilters): boolean {
+  return Object.keys(filters).length > 0;
+}
+
+export function matchesCampaignFilters(campaign: Campaign, filters: CampaignFilters): boolean {
+  const matchesList = (key: Exclude<ListFilterKey, 'region'>) =>
+    !filters[key] || filters[key]!.includes(campaign[key]);
+
+  if (!matchesList('status') || !matchesList('medium') || !matchesList('objective') ||
+      !matchesList('format') || !matchesList('product_category')) {
+    return false;
+  }
+
+  if (filters.region && !campaign.regional_performance.some(r => filters.region!.includes(r.region))) {
+    return false;
+  }
+
+  if (filters.name && !campaign.name.toLowerCase().includes(filters.name.toLowerCase())) {
+    return false;
+  }
+
+  if (filters.start_date) {
+    // ISO dates compare correctly as strings; ignore any time component
+    const startDate = campaign.timeline.start_date.slice(0, 10);
+    if (filters.start_date.from && startDate < filters.start_date.from) return false;
+    if (filters.start_date.to && startDate > filters.start_date.to) return false;
+  }
+
+  return true;
+}
+
+// Return a copy of the payload with only matching campaigns. `marketing_stats`
+// still describes the full dataset; `filters.applied` echoes the filters used.
+export function applyCampaignFilters(data: MarketingData, filters: CampaignFilters): MarketingData {
+  return {
+    ...data,
+    campaigns: data.campaigns.filter(campaign => matchesCampaignFilters(campaign, filters)),
+    filters: {
+      ...data.filters,
+      applied: { ...filters },
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { readImportFile, suggestMapping, buildImportRows } from './campaign-import';
+import { redactCampaign } from './access';
+import { fixtureCampaign } from '../test/fixtures';
+
+describe('readImportFile', () => {
+  it('reads CSV columns from the header row', () => {
+    const table = readImportFile('spend.csv', 'Campaign,Cost\nSpring Sale,"1,250.50"\n');
+    expect(table.columns).toEqual(['Campaign', 'Cost']);
+    expect(table.records).toEqual([{ Campaign: 'Spring Sale', Cost: '1,250.50' }]);
+  });
+
+  it('reads JSON arrays and { campaigns } objects, keeping scalar columns', () => {
+    const text = JSON.stringify({ campaigns: [{ name: 'A', spend: 10, targeting: {} }] });
+    const table = readImportFile('export.JSON', text);
+    expect(table.columns).toEqual(['name', 'spend']);
+    expect(table.records).toHaveLength(1);
+  });
+
+  it('throws on files it cannot read', () => {
+    expect(() => readImportFile('data.json', '{')).toThrow('not valid JSON');
+    expect(() => readImportFile('data.json', '{"rows": []}')).toThrow('Expected a JSON array');
+    expect(() => readImportFile('data.csv', '')).toThrow('empty');
+  });
+});
+
+describe('suggestMapping', () => {
+  it('matches keys, labels and aliases regardless of case and punctuation', () => {
+    expect(suggestMapping(['Campaign Name', 'Amount Spent (AED)', 'Link Clicks', 'Notes'])).toEqual({
+      name: 'Campaign Name',
+      spend: 'Amount Spent (AED)',
+      clicks: 'Link Clicks',
+    });
+  });
+});
+
+describe('buildImportRows', () => {
+  const mapping = suggestMapping(['Campaign ID', 'Name', 'Medium', 'Spend', 'Clicks', 'Impressions', 'Conversions', 'Revenue']);
+
+  it('creates complete campaigns with derived ratios', () => {
+    const table = readImportFile('new.csv', 'Name,Medium,Spend,Clicks,Impressions,Conversions,Revenue\nLaunch,Meta,100,50,1000,5,400\n');
+    const [row] = buildImportRows(table, mapping, [fixtureCampaign({ id: 7 })], 'new.csv');
+
+    expect(row).toMatchObject({ line: 2, id: 8, name: 'Launch', action: 'create', issues: [] });
+    expect(row.campaign).toMatchObject({ ctr: 5, conversion_rate: 10, cpc: 2, cpa: 20, roas: 4, average_order_value: 80 });
+  });
+
+  it('requires a name and medium for new campaigns', () => {
+    const table = readImportFile('new.csv', 'Spend\n100\n');
+    const [row] = buildImportRows(table, mapping, [], 'new.csv');
+    expect(row.issues.map(issue => issue.path)).toEqual(['line 2.name', 'line 2.medium']);
+  });
+
+  it('matches existing campaigns by name and re-derives only the ratios the row affects', () => {
+    const existing = fixtureCampaign();
+    const table = readImportFile('update.csv', `Name,Clicks\n${existing.name.toUpperCase()},${existing.clicks * 2}\n`);
+    const [row] = buildImportRows(table, mapping, [existing], 'update.csv');
+
+    expect(row).toMatchObject({ id: existing.id, action: 'update', issues: [] });
+    expect(row.campaign.clicks).toBe(existing.clicks * 2);
+    expect(row.campaign.ctr).toBeCloseTo(existing.ctr * 2, 1);
+    expect(row.campaign.cpc).toBeCloseTo(existing.cpc / 2, 1);
+  });
+
+  it('leaves ratios over redacted fields out instead of deriving them from 0', () => {
+    // What a viewer's copy of the campaign looks like: no spend, budget, cpc, cpa or roas
+    const existing = redactCampaign(fixtureCampaign());
+    const table = readImportFile('update.csv', `Campaign ID,Clicks,Revenue\n${existing.id},100,5000\n`);
+    const [row] = buildImportRows(table, mapping, [existing], 'update.csv');
+
+    expect(row.issues).toEqual([]);
+    expect(row.campaign).toHaveProperty('ctr');
+    expect(row.campaign).toHaveProperty('conversion_rate');
+    expect(row.campaign).toHaveProperty('average_order_value');
+    ['cpc', 'cpa', 'roas', 'budget_utilization'].forEach(field => expect(row.campaign).not.toHaveProperty(field));
+  });
+
+  it('reports cells that do not fit the field type and repeated campaigns', () => {
+    const table = readImportFile('bad.csv', 'Campaign ID,Clicks\n1,-3\n1,2.5\n');
+    const rows = buildImportRows(table, mapping, [fixtureCampaign({ id: 1 })], 'bad.csv');
+
+    expect(rows[0].issues).toEqual([{ path: 'line 2.clicks', message: 'must not be negative' }]);
+    expect(rows[1].issues).toEqual([
+      { path: 'line 3.clicks', message: 'expected a whole number' },
+      { path: 'line 3', message: 'is the same campaign as line 2' },
+    ]);
+  });
+
+  describe('amount cells', () => {
+    const existing = fixtureCampaign({ id: 1 });
+    const spendOf = (cell: string, rates?: Parameters<typeof buildImportRows>[4]) => {
+      const table = { columns: ['Campaign ID', 'Spend'], records: [{ 'Campaign ID': '1', Spend: cell }] };
+      const [row] = buildImportRows(table, mapping, [existing], 'spend.json', rates);
+      return { spend: row.campaign.spend, issues: row.issues.map(issue => issue.message) };
+    };
+
+    it('accepts US dollars with a code, a symbol or thousands separators', () => {
+      expect(spendOf('USD 10')).toEqual({ spend: 10, issues: [] });
+      expect(spendOf('$1,250.50')).toEqual({ spend: 1250.5, issues: [] });
+      expect(spendOf('1,250.50 usd')).toEqual({ spend: 1250.5, issues: [] });
+    });
+
+    it('converts dirham amounts at the given exchange rate', () => {
+      expect(spendOf('AED 1,250.50')).toEqual({ spend: 340.5, issues: [] });
+      expect(spendOf('AED 400', { USD: 1, AED: 4 })).toEqual({ spend: 100, issues: [] });
+    });
+
+    it('rejects other currencies', () => {
+      expect(spendOf('EUR 5').issues).toEqual(['"EUR" is not a supported currency, use USD or AED']);
+    });
+
+    it('allows an exponent only on a bare number', () => {
+      expect(spendOf('1e3')).toEqual({ spend: 1000, issues: [] });
+      expect(spendOf('USD 1e3').issues).toEqual(['expected a number, received "USD 1e3"']);
+      expect(spendOf('1e3 AED').issues).toEqual(['expected a number, received "1e3 AED"']);
+    });
+
+    it('rejects percentages and other text', () => {
+      expect(spendOf('2.5%').issues).toEqual(['expected a number, received "2.5%"']);
+      expect(spendOf('ten').issues).toEqual(['expected a number, received "ten"']);
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import { Campaign, ValidationIssue } from '../types/marketing';
+import { parseCsv } from './csv';
+import { validateCampaign, validatePartialCampaign } from './validate-marketing-data';
+import { ctr, conversionRate, cpc, cpa, roas, percentage, ratio, round } from './metrics';
+import { BASE_CURRENCY, CURRENCY_CODES, DEFAULT_EXCHANGE_RATES, ExchangeRates, isCurrencyCode } from './currency';
+
+export type ImportedCampaign = Partial<Campaign> & { id: number };
+
+// 'amount' cells may name their currency and are converted to BASE_CURRENCY
+export type ImportFieldType = 'string' | 'amount' | 'integer';
+
+export type ImportFieldKey =
+  | 'id'
+  | 'name'
+  | 'status'
+  | 'objective'
+  | 'medium'
+  | 'format'
+  | 'product_category'
+  | 'budget'
+  | 'spend'
+  | 'impressions'
+  | 'clicks'
+  | 'conversions'
+  | 'revenue';
+
+export interface ImportField {
+  key: ImportFieldKey;
+  label: string;
+  type: ImportFieldType;
+  // Other column names ad platforms use for the field, compared case- and punctuation-insensitively
+  aliases: string[];
+}
+
+// Campaign fields a file column can be mapped to; ratios are derived instead of imported
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'id', label: 'Campaign ID', type: 'integer', aliases: ['campaignid'] },
+  { key: 'name', label: 'Name', type: 'string', aliases: ['campaign', 'campaignname'] },
+  { key: 'status', label: 'Status', type: 'string', aliases: ['campaignstatus', 'deliverystatus'] },
+  { key: 'objective', label: 'Objective', type: 'string', aliases: ['campaignobjective'] },
+  { key: 'medium', label: 'Medium', type: 'string', aliases: ['channel', 'platform', 'source'] },
+  { key: 'format', label: 'Format', type: 'string', aliases: ['adformat', 'creativeformat'] },
+  { key: 'product_category', label: 'Product Category', type: 'string', aliases: ['category'] },
+  { key: 'budget', label: 'Budget', type: 'amount', aliases: ['campaignbudget', 'lifetimebudget'] },
+  { key: 'spend', label: 'Spend', type: 'amount', aliases: ['cost', 'amountspent', 'spent'] },
+  { key: 'impressions', label: 'Impressions', type: 'integer', aliases: ['impr'] },
+  { key: 'clicks', label: 'Clicks', type: 'integer', aliases: ['linkclicks'] },
+  { key: 'conversions', label: 'Conversions', type: 'integer', aliases: ['conv', 'purchases', 'results'] },
+  { key: 'revenue', label: 'Revenue', type: 'amount', aliases: ['conversionvalue', 'purchasevalue', 'value'] },
+];
+
+// Imported field -> source column name
+export type ColumnMapping = Partial<Record<ImportFieldKey, string>>;
+
+export interface ImportTable {
+  columns: string[];
+  records: Record<string, unknown>[];
+}
+
+export interface ImportRow {
+  // Line in the uploaded file (CSV) or position in the array (JSON), starting at 1
+  line: number;
+  id: number;
+  name: string;
+  action: 'create' | 'update';
+  campaign: ImportedCampaign;
+  issues: ValidationIssue[];
+}
+
+// "Amount Spent (USD)" -> "amountspent"
+const normalize = (text: string) => text.toLowerCase().replace(/\(.*?\)/g, '').replace(/[^a-z0-9]/g, '');
+
+// Read an uploaded CSV (header row first) or JSON file (an array of objects or
+// { campaigns: [...] }) into named columns. Throws when the file cannot be read.
+export function readImportFile(fileName: string, text: string): ImportTable {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+    const records = Array.isArray(parsed) ? parsed : (parsed as { campaigns?: unknown } | null)?.campaigns;
+    if (!Array.isArray(records) || records.some(record => typeof record !== 'object' || record === null || Array.isArray(record))) {
+      throw new Error('Expected a JSON array of objects or { "campaigns": [...] }');
+    }
+
+    // Only top-level scalar values can be mapped onto fields
+    const columns = new Set<string>();
+    records.forEach(record => Object.entries(record).forEach(([key, value]) => {
+      if (typeof value !== 'object' || value === null) columns.add(key);
+    }));
+    return { columns: [...columns], records };
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error('The file is empty');
+
+  const columns = header.map((name, index) => {
+    const trimmed = name.trim() || `Column ${index + 1}`;
+    return header.slice(0, index).some(previous => previous.trim() === trimmed) ? `${trimmed} (${index + 1})` : trimmed;
+  });
+  const records = rows.map(cells =>
+    Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']))
+  );
+  return { columns, records };
+}
+
+// Map every field whose key, label or an alias matches a column name
+export function suggestMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(field => {
+    const names = [field.key, field.label, ...field.aliases].map(normalize);
+    const column = columns.find(candidate => names.includes(normalize(candidate)));
+    if (column) mapping[field.key] = column;
+  });
+  return mapping;
+}
+
+// "AED 1,250.50", "$1,250.50" or "1,250.50 USD"
+const CURRENCY_PREFIX = /^([a-z]{3}|\$)\s*/i;
+const CURRENCY_SUFFIX = /\s*([a-z]{3})$/i;
+// Thousands separators are allowed; an exponent only on a bare number such as "1e3"
+const FORMATTED_NUMBER = /^[+-]?(\d[\d,]*(\.\d+)?|\.\d+)$/;
+const SCIENTIFIC_NUMBER = /^[+-]?(\d+(\.\d*)?|\.\d+)e[+-]?\d+$/i;
+
+// Read a cell as a field value: undefined for empty cells, an issue message when it does not fit the type
+function coerce(value: unknown, type: ImportFieldType, rates: ExchangeRates): { value?: string | number; error?: string } {
+  if (value === null || value === undefined || String(value).trim() === '') return {};
+  if (type === 'string') return { value: String(value).trim() };
+
+  let number = typeof value === 'number' ? value : NaN;
+  let currency: string | undefined;
+  if (typeof value !== 'number') {
+    let text = String(value).trim();
+    const match = type === 'amount' ? text.match(CURRENCY_PREFIX) ?? text.match(CURRENCY_SUFFIX) : null;
+    if (match) {
+      currency = match[1] === '$' ? 'USD' : match[1].toUpperCase();
+      text = match.index === 0 ? text.slice(match[0].length) : text.slice(0, match.index);
+    }
+    if (FORMATTED_NUMBER.test(text)) number = Number(text.replace(/,/g, ''));
+    else if (!currency && SCIENTIFIC_NUMBER.test(text)) number = Number(text);
+  }
+
+  if (!Number.isFinite(number)) return { error: `expected a number, received "${value}"` };
+  if (currency !== undefined) {
+    if (!isCurrencyCode(currency)) return { error: `"${currency}" is not a supported currency, use ${CURRENCY_CODES.join(' or ')}` };
+    number = round(number * (rates[BASE_CURRENCY] / rates[currency]));
+  }
+  if (number < 0) return { error: 'must not be negative' };
+  if (type === 'integer' && !Number.isInteger(number)) return { error: 'expected a whole number' };
+  return { value: number };
+}
+
+const COUNTERS = ['budget', 'spend', 'impressions', 'clicks', 'conversions', 'revenue'] as const;
+
+// Recompute the ratio fields from the counters the campaign ends up with after
+// the import. A field whose inputs are not all known (e.g. spend redacted for
+// viewers) is left out, so the stored value stands rather than one derived from 0.
+function deriveCampaignMetrics(campaign: Partial<Campaign>): Partial<Campaign> {
+  const known = (...fields: (typeof COUNTERS)[number][]) =>
+    fields.every(field => typeof campaign[field] === 'number' && Number.isFinite(campaign[field]));
+  const { budget = NaN, spend = NaN, impressions = NaN, clicks = NaN, conversions = NaN, revenue = NaN } = campaign;
+  const totals = { impressions, clicks, conversions, spend, revenue };
+  const derived: Partial<Campaign> = {};
+
+  if (known('spend', 'budget')) derived.budget_utilization = round(percentage(spend, budget));
+  if (known('clicks', 'impressions')) derived.ctr = round(ctr(totals));
+  if (known('conversions', 'clicks')) derived.conversion_rate = round(conversionRate(totals));
+  if (known('spend', 'clicks')) derived.cpc = round(cpc(totals));
+  if (known('spend', 'conversions')) derived.cpa = round(cpa(totals));
+  if (known('revenue', 'spend')) derived.roas = round(roas(totals));
+  if (known('revenue', 'conversions')) derived.average_order_value = round(ratio(revenue, conversions));
+  return derived;
+}
+
+// Everything a complete Campaign needs that a flat file cannot provide
+function newCampaign(id: number, today: string): Campaign {
+  return {
+    id,
+    name: '',
+    status: 'Active',
+    objective: 'Unspecified',
+    medium: '',
+    format: 'Unspecified',
+    product_category: 'Unspecified',
+    budget: 0,
+    spend: 0,
+    budget_utilization: 0,
+    impressions: 0,
+    clicks: 0,
+    conversions: 0,
+    revenue: 0,
+    average_order_value: 0,
+    ctr: 0,
+    conversion_rate: 0,
+    cpc: 0,
+    cpa: 0,
+    roas: 0,
+    target_demographics: { age_groups: [], genders: [], primary_device: '' },
+    demographic_breakdown: [],
+    device_performance: [],
+    weekly_performance: [],
+    regional_performance: [],
+    creatives: [],
+    timeline: { start_date: today, created_date: today, last_updated: today },
+    targeting: { regions: [], interests: [], behaviors: [], custom_audiences: [] },
+  };
+}
+
+// Turn file records into campaign upserts. Rows are matched to existing campaigns
+// by the mapped id, otherwise by name, so importing the same file twice updates
+// the campaigns created the first time. Unmatched rows become new campaigns and
+// must at least name one and its medium. Amounts in another currency are
+// converted with `rates`.
+export function buildImportRows(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  existing: Campaign[],
+  fileName = '',
+  rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+): ImportRow[] {
+  const byId = new Map(existing.map(campaign => [campaign.id, campaign]));
+  const byName = new Map(existing.map(campaign => [campaign.name.trim().toLowerCase(), campaign.id]));
+  const seen = new Map<number, number>();
+  let nextId = Math.max(0, ...existing.map(campaign => campaign.id)) + 1;
+  const today = new Date().toISOString().slice(0, 10);
+  // CSV data starts on the line after the header
+  const lineOffset = fileName.toLowerCase().endsWith('.json') ? 1 : 2;
+
+  return table.records.map((record, index) => {
+    const line = index + lineOffset;
+    const path = `line ${line}`;
+    const issues: ValidationIssue[] = [];
+    const values: Partial<Record<ImportFieldKey, string | number>> = {};
+
+    IMPORT_FIELDS.forEach(field => {
+      const column = mapping[field.key];
+      if (!column) return;
+      const { value, error } = coerce(record[column], field.type, rates);
+      if (error) issues.push({ path: `${path}.${field.key}`, message: error });
+      else if (value !== undefined) values[field.key] = value;
+    });
+
+    const name = typeof values.name === 'string' ? values.name : '';
+    let id = typeof values.id === 'number' ? values.id : byName.get(name.toLowerCase());
+    if (id === undefined) {
+      id = nextId++;
+      if (name) byName.set(name.toLowerCase(), id);
+    }
+    delete values.id;
+    // coerce() produced the type each field declares
+    const fields = values as Partial<Campaign>;
+
+    const duplicateOf = seen.get(id);
+    if (duplicateOf !== undefined) {
+      issues.push({ path, message: `is the same campaign as line ${duplicateOf}` });
+    }
+    seen.set(id, line);
+
+    const current = byId.get(id);
+    const action = current ? 'update' : 'create';
+    const merged = { ...(current ?? newCampaign(id, today)), ...fields };
+    const campaign: ImportedCampaign = { ...fields, id };
+    // Only re-derive ratios when the row changes one of their inputs
+    if (action === 'create' || COUNTERS.some(counter => counter in fields)) {
+      Object.assign(campaign, deriveCampaignMetrics(merged));
+    }
+
+    if (action === 'create') {
+      if (!name) issues.push({ path: `${path}.name`, message: 'is required for a new campaign' });
+      if (!fields.medium) issues.push({ path: `${path}.medium`, message: 'is required for a new campaign' });
+      const full: Campaign = { ...merged, ...campaign };
+      issues.push(...validateCampaign(full, path));
+      return { line, id, name, action, campaign: full, issues };
+    }
+
+    issues.push(...validatePartialCampaign(campaign, path));
+    return { line, id, name: name || current!.name, action, campaign, issues };
+  });
+}
@@ -0,0 +1,69 @@
+export type CurrencyCode = 'USD' | 'AED';
+
+export interface CurrencyInfo {
+  code: CurrencyCode;
+  name: string;
+  // Written before the amount
+  symbol: string;
+}
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  USD: { code: 'USD', name: 'US Dollar', symbol: '$' },
+  AED: { code: 'AED', name: 'UAE Dirham', symbol: 'AED ' },
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+// Money amounts in the marketing data payload are in this currency
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+// Units of each currency per one unit of BASE_CURRENCY
+export type ExchangeRates = Record<CurrencyCode, number>;
+
+// AED is pegged to the dollar
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  USD: 1,
+  AED: 3.6725,
+};
+
+export interface CurrencySettings {
+  currency: CurrencyCode;
+  rates: ExchangeRates;
+}
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  currency: BASE_CURRENCY,
+  rates: DEFAULT_EXCHANGE_RATES,
+};
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && value in CURRENCIES;
+}
+
+export function convertAmount(value: number, settings: CurrencySettings): number {
+  return value * (settings.rates[settings.currency] / settings.rates[BASE_CURRENCY]);
+}
+
+// Convert a BASE_CURRENCY amount into the display currency and prefix its symbol,
+// e.g. formatMoney(1200, { currency: 'AED', ... }) -> "AED 4,407"
+export function formatMoney(value: number, settings: CurrencySettings, options: Intl.NumberFormatOptions = {}): string {
+  const amount = convertAmount(value, settings);
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}${CURRENCIES[settings.currency].symbol}${Math.abs(amount).toLocaleString(undefined, options)}`;
+}
+
+// Keep stored settings usable when they are partial, outdated or hand-edited
+export function normalizeCurrencySettings(value: unknown): CurrencySettings {
+  const stored = (typeof value === 'object' && value !== null ? value : {}) as Partial<CurrencySettings>;
+  const rates = { ...DEFAULT_EXCHANGE_RATES };
+  CURRENCY_CODES.forEach(code => {
+    const rate = stored.rates?.[code];
+    if (typeof rate === 'number' && Number.isFinite(rate) && rate > 0) rates[code] = rate;
+  });
+  rates[BASE_CURRENCY] = 1;
+
+  return {
+    currency: isCurrencyCode(stored.currency) ? stored.currency : BASE_CURRENCY,
+    rates,
+  };
+}
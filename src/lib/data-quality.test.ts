@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { scanMarketingData } from './data-quality';
+import { validateMarketingData } from './validate-marketing-data';
+import { fixtureData } from '../test/fixtures';
+
+describe('scanMarketingData', () => {
+  it('finds nothing in the fixture', () => {
+    const scan = scanMarketingData(fixtureData());
+    expect(scan.issues).toEqual([]);
+    expect(scan.dropped_campaigns).toBe(0);
+    expect(scan.scanned_campaigns).toBe(fixtureData().campaigns.length);
+  });
+
+  it('reports ctr that disagrees with clicks / impressions', () => {
+    const data = fixtureData();
+    data.campaigns[0].ctr += 1;
+
+    const [issue] = scanMarketingData(data).issues;
+    expect(issue).toMatchObject({ kind: 'ctr_mismatch', severity: 'warning', path: 'campaigns[0].ctr' });
+    expect(issue.expected).toBe(data.campaigns[0].ctr - 1);
+  });
+
+  it('reports negative values, audience shares and weeks out of order', () => {
+    const data = fixtureData();
+    data.campaigns[0].revenue = -5;
+    data.campaigns[1].demographic_breakdown[0].percentage_of_audience += 10;
+    const week = data.campaigns[2].weekly_performance[0];
+    [week.week_start, week.week_end] = [week.week_end, week.week_start];
+
+    const { counts } = scanMarketingData(data);
+    expect(counts.negative_value).toBe(1);
+    expect(counts.audience_share).toBe(1);
+    expect(counts.week_order).toBe(1);
+  });
+
+  it('reports regions the map cannot place once each', () => {
+    const data = fixtureData();
+    data.campaigns[0].regional_performance[0].region = 'Atlantis';
+    data.campaigns[1].regional_performance[0].region = 'Atlantis';
+
+    const issues = scanMarketingData(data).issues.filter(issue => issue.kind === 'missing_coordinates');
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toContain('(2 campaigns)');
+  });
+
+  describe('dropped campaigns', () => {
+    // Both malformed campaigns fail validation, so only the lenient warnings know about them
+    const lenientlyValidated = () => {
+      const data = fixtureData() as unknown as { campaigns: unknown[] };
+      (data.campaigns[1] as Record<string, unknown>).spend = null;
+      (data.campaigns[1] as Record<string, unknown>).clicks = 'many';
+      data.campaigns[3] = 'not a campaign';
+      const result = validateMarketingData(data, 'lenient');
+      return { data: result.data!, warnings: result.warnings };
+    };
+
+    it('reports one error per campaign the validator dropped', () => {
+      const { data, warnings } = lenientlyValidated();
+      const scan = scanMarketingData(data, warnings);
+
+      expect(scan.dropped_campaigns).toBe(2);
+      expect(scan.counts.dropped_campaign).toBe(2);
+      expect(scan.scanned_campaigns).toBe(data.campaigns.length);
+
+      const dropped = scan.issues.filter(issue => issue.kind === 'dropped_campaign');
+      expect(dropped.map(issue => [issue.path, issue.severity, issue.value])).toEqual([
+        ['campaigns[1]', 'error', 2],
+        ['campaigns[3]', 'error', 1],
+      ]);
+      expect(dropped[0].message).toContain('campaigns[1].spend');
+      expect(dropped[0].message).toContain('campaigns[1].clicks');
+      expect(dropped[1].message).toContain('campaigns[3] expected object');
+    });
+
+    it('ignores warnings that do not start a dropped campaign', () => {
+      const scan = scanMarketingData(fixtureData(), [{ path: 'filters.mediums', message: 'is unusual' }]);
+      expect(scan.dropped_campaigns).toBe(0);
+      expect(scan.issues).toEqual([]);
+    });
+  });
+});
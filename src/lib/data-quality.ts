@@ -0,0 +1,228 @@
+import { Campaign, MarketingData, ValidationIssue } from '../types/marketing';
+import { CampaignRef } from './campaign-diff';
+import { regionCoordinates, FALLBACK_COORDINATES } from './regions';
+import { ctr, round } from './metrics';
+import { formatValidationIssues } from './validate-marketing-data';
+
+export type QualityIssueKind =
+  | 'dropped_campaign'
+  | 'invalid_number'
+  | 'negative_value'
+  | 'ctr_mismatch'
+  | 'audience_share'
+  | 'missing_coordinates'
+  | 'week_order';
+
+export const QUALITY_ISSUE_KINDS: QualityIssueKind[] = [
+  'dropped_campaign',
+  'invalid_number',
+  'negative_value',
+  'ctr_mismatch',
+  'audience_share',
+  'missing_coordinates',
+  'week_order',
+];
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssueKind, string> = {
+  dropped_campaign: 'Dropped campaign',
+  invalid_number: 'Invalid number',
+  negative_value: 'Negative value',
+  ctr_mismatch: 'CTR mismatch',
+  audience_share: 'Audience share',
+  missing_coordinates: 'Missing coordinates',
+  week_order: 'Week order',
+};
+
+// error: the value is wrong; warning: it is suspicious or will be shown misleadingly
+export type QualitySeverity = 'error' | 'warning';
+
+export const QUALITY_SEVERITIES: QualitySeverity[] = ['error', 'warning'];
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  severity: QualitySeverity;
+  // Location in the payload, e.g. "campaigns[3].regional_performance[0].ctr"
+  path: string;
+  campaign?: CampaignRef;
+  value?: number | string | null;
+  // What the value should be, when it can be worked out
+  expected?: number;
+  message: string;
+}
+
+export interface QualityScan {
+  scanned_campaigns: number;
+  // Campaigns the validator left out of the served data
+  dropped_campaigns: number;
+  issues: QualityIssue[];
+  counts: Record<QualityIssueKind, number>;
+}
+
+// GET /api/data-quality; counts are over every issue, before the kind and severity filters
+export interface QualityReport extends QualityScan {
+  scanned_at: string;
+}
+
+// ctr is reported as a percentage rounded to two decimals
+const CTR_TOLERANCE = 0.01;
+// Rounded shares of a dozen segments can drift a little from 100
+const AUDIENCE_SHARE_TOLERANCE = 0.1;
+
+// Every number under `value`, with its path; `null` is reported as not a number
+function collectNumbers(value: unknown, path: string, found: [string, number | null][]) {
+  if (typeof value === 'number' || value === null) {
+    found.push([path, value]);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => collectNumbers(item, `${path}[${index}]`, found));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => collectNumbers(item, `${path}.${key}`, found));
+  }
+}
+
+interface CtrRow {
+  impressions: number;
+  clicks: number;
+  ctr: number;
+}
+
+function ctrRows(campaign: Campaign, base: string): [string, CtrRow][] {
+  return [
+    [base, campaign],
+    ...campaign.regional_performance.map((row, index): [string, CtrRow] => [`${base}.regional_performance[${index}]`, row]),
+    ...campaign.device_performance.map((row, index): [string, CtrRow] => [`${base}.device_performance[${index}]`, row]),
+    ...campaign.demographic_breakdown.map((row, index): [string, CtrRow] => [`${base}.demographic_breakdown[${index}].performance`, row.performance]),
+    ...campaign.creatives.map((row, index): [string, CtrRow] => [`${base}.creatives[${index}]`, row]),
+  ];
+}
+
+// A lenient validation warning "campaigns[3] dropped campaign ..." is followed by
+// that campaign's violations, whose paths start with "campaigns[3]"
+const DROPPED_CAMPAIGN_PATH = /^campaigns\[\d+\]$/;
+
+// One issue per campaign the validator dropped, listing its violations. Paths are
+// positions in the source payload, not in the served data.
+function droppedCampaignIssues(warnings: ValidationIssue[]): QualityIssue[] {
+  const dropped: { warning: ValidationIssue; violations: ValidationIssue[] }[] = [];
+  warnings.forEach(warning => {
+    const last = dropped[dropped.length - 1];
+    // A campaign that is not an object is reported at the campaign's own path
+    if (last && (warning.path === last.warning.path || warning.path.startsWith(`${last.warning.path}.`))) {
+      last.violations.push(warning);
+    } else if (DROPPED_CAMPAIGN_PATH.test(warning.path)) {
+      dropped.push({ warning, violations: [] });
+    }
+  });
+
+  return dropped.map(({ warning, violations }) => ({
+    kind: 'dropped_campaign',
+    severity: 'error',
+    path: warning.path,
+    value: violations.length,
+    message: violations.length > 0
+      ? `${warning.message}: ${formatValidationIssues(violations)}`
+      : warning.message,
+  }));
+}
+
+// Scan the payload for values that are malformed or cannot be right: negative or
+// non-numeric metrics, ctr that disagrees with clicks / impressions, audience
+// shares that do not add up to 100, regions the map cannot place and weeks that
+// end before they start. The served data has already been through the
+// validator, so `validationWarnings` (as getMarketingData returns them) are
+// needed to report the campaigns it dropped for such values.
+export function scanMarketingData(data: MarketingData, validationWarnings: ValidationIssue[] = []): QualityScan {
+  const issues: QualityIssue[] = droppedCampaignIssues(validationWarnings);
+
+  const checkNumbers = (value: unknown, path: string, campaign?: CampaignRef) => {
+    const numbers: [string, number | null][] = [];
+    collectNumbers(value, path, numbers);
+    numbers.forEach(([numberPath, number]) => {
+      if (number === null || !Number.isFinite(number)) {
+        issues.push({ kind: 'invalid_number', severity: 'error', path: numberPath, campaign, value: number, message: `${numberPath} is ${number === null ? 'null' : String(number)}, not a number` });
+      } else if (number < 0) {
+        issues.push({ kind: 'negative_value', severity: 'error', path: numberPath, campaign, value: number, message: `${numberPath} is negative (${number})` });
+      }
+    });
+  };
+
+  checkNumbers(data.marketing_stats, 'marketing_stats');
+  data.campaigns.forEach((campaign, index) => checkNumbers(campaign, `campaigns[${index}]`, { id: campaign.id, name: campaign.name }));
+
+  data.campaigns.forEach((campaign, index) => {
+    const base = `campaigns[${index}]`;
+    const ref = { id: campaign.id, name: campaign.name };
+
+    ctrRows(campaign, base).forEach(([path, row]) => {
+      if (![row.impressions, row.clicks, row.ctr].every(Number.isFinite) || row.impressions <= 0) return;
+      const expected = ctr(row);
+      if (Math.abs(row.ctr - expected) > CTR_TOLERANCE) {
+        issues.push({
+          kind: 'ctr_mismatch',
+          severity: 'warning',
+          path: `${path}.ctr`,
+          campaign: ref,
+          value: row.ctr,
+          expected: round(expected),
+          message: `ctr is ${row.ctr}% but clicks / impressions is ${round(expected)}%`,
+        });
+      }
+    });
+
+    if (campaign.demographic_breakdown.length > 0) {
+      const share = campaign.demographic_breakdown.reduce((sum, segment) => sum + segment.percentage_of_audience, 0);
+      if (Number.isFinite(share) && Math.abs(share - 100) > AUDIENCE_SHARE_TOLERANCE) {
+        issues.push({
+          kind: 'audience_share',
+          severity: 'warning',
+          path: `${base}.demographic_breakdown`,
+          campaign: ref,
+          value: round(share),
+          expected: 100,
+          message: `percentage_of_audience adds up to ${round(share)}%, not 100%`,
+        });
+      }
+    }
+
+    campaign.weekly_performance.forEach((week, weekIndex) => {
+      const path = `${base}.weekly_performance[${weekIndex}]`;
+      const start = new Date(week.week_start).getTime();
+      const end = new Date(week.week_end).getTime();
+      if (Number.isNaN(start) || Number.isNaN(end)) {
+        issues.push({ kind: 'week_order', severity: 'error', path, campaign: ref, value: `${week.week_start} – ${week.week_end}`, message: 'week_start or week_end is not a valid date' });
+      } else if (end < start) {
+        issues.push({ kind: 'week_order', severity: 'error', path, campaign: ref, value: `${week.week_start} – ${week.week_end}`, message: `week_end ${week.week_end} is before week_start ${week.week_start}` });
+      }
+    });
+  });
+
+  // One issue per unknown region, at its first occurrence
+  const unplaced = new Map<string, { path: string; campaigns: Set<number> }>();
+  data.campaigns.forEach((campaign, index) => {
+    campaign.regional_performance.forEach((row, rowIndex) => {
+      if (regionCoordinates(row.region)) return;
+      const entry = unplaced.get(row.region) ?? { path: `campaigns[${index}].regional_performance[${rowIndex}].region`, campaigns: new Set() };
+      entry.campaigns.add(campaign.id);
+      unplaced.set(row.region, entry);
+    });
+  });
+  data.filters.available_regions.forEach((region, index) => {
+    if (!regionCoordinates(region) && !unplaced.has(region)) {
+      unplaced.set(region, { path: `filters.available_regions[${index}]`, campaigns: new Set() });
+    }
+  });
+  unplaced.forEach(({ path, campaigns }, region) => {
+    issues.push({
+      kind: 'missing_coordinates',
+      severity: 'warning',
+      path,
+      value: region,
+      message: `"${region}" has no map coordinates and is drawn at [${FALLBACK_COORDINATES.map(value => value.toFixed(1)).join(', ')}]`
+        + (campaigns.size > 0 ? ` (${campaigns.size} campaign${campaigns.size === 1 ? '' : 's'})` : ''),
+    });
+  });
+
+  const counts = Object.fromEntries(QUALITY_ISSUE_KINDS.map(kind => [kind, 0])) as Record<QualityIssueKind, number>;
+  issues.forEach(issue => { counts[issue.kind] += 1; });
+
+  return { scanned_campaigns: data.campaigns.length, dropped_campaigns: counts.dropped_campaign, issues, counts };
+}
@@ -0,0 +1,93 @@
+import { ApiErrorDetail, ValidationIssue } from '../types/marketing';
+
+// Base class for every failure surfaced by the marketing data fetchers
+export class MarketingDataError extends Error {
+  // Whether repeating the same request might succeed
+  retryable: boolean;
+
+  constructor(message: string, retryable: boolean, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'MarketingDataError';
+    this.retryable = retryable;
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+// The request never produced a response: offline, DNS, connection reset or timeout
+export class NetworkError extends MarketingDataError {
+  timedOut: boolean;
+
+  constructor(message: string, options: { timedOut?: boolean; cause?: unknown } = {}) {
+    super(message, true, options);
+    this.name = 'NetworkError';
+    this.timedOut = options.timedOut ?? false;
+  }
+}
+
+// The API answered with a non-2xx status
+export class HttpStatusError extends MarketingDataError {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message, status >= 500 || status === 429);
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+}
+
+// The response body was not valid JSON
+export class ParseError extends MarketingDataError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, false, options);
+    this.name = 'ParseError';
+  }
+}
+
+// The API rejected the payload or the request parameters
+export class ValidationError extends MarketingDataError {
+  status: number;
+  violations: ValidationIssue[];
+  details: ApiErrorDetail[];
+
+  constructor(status: number, message: string, violations: ValidationIssue[] = [], details: ApiErrorDetail[] = []) {
+    super(message, false);
+    this.name = 'ValidationError';
+    this.status = status;
+    this.violations = violations;
+    this.details = details;
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+// Title and user-facing explanation for an error, used by the error banner
+export function describeError(error: unknown): { title: string; message: string } {
+  if (error instanceof NetworkError) {
+    return error.timedOut
+      ? { title: 'Request timed out', message: 'The marketing data service took too long to respond.' }
+      : { title: 'Network error', message: 'Could not reach the marketing data service. Check your connection.' };
+  }
+  if (error instanceof ValidationError) {
+    return {
+      title: error.status === 400 ? 'Invalid request' : 'Invalid data received',
+      message: error.message,
+    };
+  }
+  if (error instanceof ParseError) {
+    return { title: 'Unreadable response', message: 'The marketing data service returned a response that could not be read.' };
+  }
+  if (error instanceof HttpStatusError) {
+    return {
+      title: error.status >= 500 ? 'Service unavailable' : `Request failed (${error.status})`,
+      message: error.message,
+    };
+  }
+  return {
+    title: 'Error loading data',
+    message: error instanceof Error ? error.message : 'Unknown error',
+  };
+}
@@ -0,0 +1,136 @@
+import { Campaign } from '../types/marketing';
+import { CampaignFilters } from './campaign-filters';
+import {
+  aggregateRegions,
+  aggregateWeekly,
+  aggregateDevices,
+  aggregateDemographics,
+  ESTIMATED_AGGREGATE_FIELDS,
+} from './aggregates';
+
+// How a column's raw value should be presented by formats that support it
+export type ExportValueType = 'string' | 'integer' | 'number' | 'currency' | 'percent' | 'date';
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+  type: ExportValueType;
+}
+
+export interface ExportDataset {
+  columns: ExportColumn[];
+  rows: (campaigns: Campaign[], filters: CampaignFilters) => object[];
+}
+
+export type ExportDatasetName = 'campaigns' | 'regions' | 'weekly' | 'devices' | 'demographics' | 'creatives';
+
+const totalsColumns: ExportColumn[] = [
+  { key: 'impressions', header: 'Impressions', type: 'integer' },
+  { key: 'clicks', header: 'Clicks', type: 'integer' },
+  { key: 'conversions', header: 'Conversions', type: 'integer' },
+  { key: 'spend', header: 'Spend', type: 'currency' },
+  { key: 'revenue', header: 'Revenue', type: 'currency' },
+];
+
+const derivedColumns: ExportColumn[] = [
+  { key: 'ctr', header: 'CTR (%)', type: 'percent' },
+  { key: 'conversion_rate', header: 'Conversion Rate (%)', type: 'percent' },
+  { key: 'cpc', header: 'CPC', type: 'currency' },
+  { key: 'cpa', header: 'CPA', type: 'currency' },
+  { key: 'roas', header: 'ROAS', type: 'number' },
+];
+
+const aggregateColumns = [
+  ...totalsColumns,
+  ...derivedColumns,
+  { key: 'campaign_count', header: 'Campaigns', type: 'integer' as const },
+];
+
+// Estimated columns say so in their header, e.g. "Spend (est.)"
+const markEstimates = (columns: ExportColumn[], estimated: string[]): ExportColumn[] =>
+  columns.map(column => estimated.includes(column.key) ? { ...column, header: `${column.header} (est.)` } : column);
+
+// Datasets shared by every export format, built from already-filtered campaigns
+export const EXPORT_DATASETS: { [name in ExportDatasetName]: ExportDataset } = {
+  campaigns: {
+    columns: [
+      { key: 'id', header: 'ID', type: 'integer' },
+      { key: 'name', header: 'Name', type: 'string' },
+      { key: 'status', header: 'Status', type: 'string' },
+      { key: 'objective', header: 'Objective', type: 'string' },
+      { key: 'medium', header: 'Medium', type: 'string' },
+      { key: 'format', header: 'Format', type: 'string' },
+      { key: 'product_category', header: 'Product Category', type: 'string' },
+      { key: 'start_date', header: 'Start Date', type: 'date' },
+      { key: 'budget', header: 'Budget', type: 'currency' },
+      { key: 'budget_utilization', header: 'Budget Utilization (%)', type: 'percent' },
+      ...totalsColumns,
+      { key: 'average_order_value', header: 'Average Order Value', type: 'currency' },
+      ...derivedColumns,
+    ],
+    rows: campaigns => campaigns.map(campaign => ({
+      ...campaign,
+      start_date: campaign.timeline.start_date,
+    })),
+  },
+  regions: {
+    columns: [
+      { key: 'region', header: 'Region', type: 'string' },
+      { key: 'country', header: 'Country', type: 'string' },
+      ...aggregateColumns,
+    ],
+    // A region filter selects campaigns; only report the regions asked for
+    rows: (campaigns, filters) => aggregateRegions(campaigns).filter(row =>
+      !filters.region || filters.region.includes(row.region)
+    ),
+  },
+  weekly: {
+    columns: [
+      { key: 'week_start', header: 'Week Start', type: 'date' },
+      { key: 'week_end', header: 'Week End', type: 'date' },
+      ...aggregateColumns,
+    ],
+    rows: campaigns => aggregateWeekly(campaigns),
+  },
+  devices: {
+    columns: [
+      { key: 'device', header: 'Device', type: 'string' },
+      { key: 'percentage_of_traffic', header: 'Share of Traffic (%)', type: 'percent' },
+      ...aggregateColumns,
+    ],
+    rows: campaigns => aggregateDevices(campaigns),
+  },
+  demographics: {
+    columns: [
+      { key: 'age_group', header: 'Age Group', type: 'string' },
+      { key: 'gender', header: 'Gender', type: 'string' },
+      ...markEstimates(aggregateColumns, ESTIMATED_AGGREGATE_FIELDS.demographics),
+    ],
+    rows: campaigns => aggregateDemographics(campaigns),
+  },
+  creatives: {
+    columns: [
+      { key: 'campaign_id', header: 'Campaign ID', type: 'integer' },
+      { key: 'campaign_name', header: 'Campaign', type: 'string' },
+      { key: 'id', header: 'Creative ID', type: 'integer' },
+      { key: 'name', header: 'Creative', type: 'string' },
+      { key: 'format', header: 'Format', type: 'string' },
+      { key: 'a_b_test_variant', header: 'Variant', type: 'string' },
+      { key: 'is_primary', header: 'Primary', type: 'string' },
+      { key: 'impressions', header: 'Impressions', type: 'integer' },
+      { key: 'clicks', header: 'Clicks', type: 'integer' },
+      { key: 'ctr', header: 'CTR (%)', type: 'percent' },
+      { key: 'performance_score', header: 'Performance Score', type: 'number' },
+    ],
+    rows: campaigns => campaigns.flatMap(campaign =>
+      campaign.creatives.map(creative => ({
+        ...creative,
+        campaign_id: campaign.id,
+        campaign_name: campaign.name,
+      }))
+    ),
+  },
+};
+
+export const isExportDatasetName = (value: string): value is ExportDatasetName =>
+  Object.prototype.hasOwnProperty.call(EXPORT_DATASETS, value);
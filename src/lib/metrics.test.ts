@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { ratio, percentage, round, summarizeTotals, sumTotals, MetricTotals } from './metrics';
+
+describe('ratio', () => {
+  it('divides, treating nothing to divide by as 0', () => {
+    expect(ratio(10, 4)).toBe(2.5);
+    expect(ratio(10, 0)).toBe(0);
+    expect(ratio(10, -1)).toBe(0);
+  });
+
+  it('is NaN when an input is not a number', () => {
+    expect(ratio(NaN, 4)).toBeNaN();
+    expect(ratio(10, undefined as unknown as number)).toBeNaN();
+    expect(percentage(NaN, 4)).toBeNaN();
+  });
+});
+
+describe('round', () => {
+  it('rounds to two decimals by default', () => {
+    expect(round(2.345678)).toBe(2.35);
+    expect(round(2.345678, 3)).toBe(2.346);
+  });
+});
+
+describe('summarizeTotals', () => {
+  const rows: MetricTotals[] = [
+    { impressions: 1000, clicks: 50, conversions: 5, spend: 100, revenue: 300 },
+    { impressions: 3000, clicks: 50, conversions: 15, spend: 300, revenue: 500 },
+  ];
+
+  it('derives ratios from the summed counters, not by averaging', () => {
+    expect(summarizeTotals(rows)).toEqual({
+      impressions: 4000,
+      clicks: 100,
+      conversions: 20,
+      spend: 400,
+      revenue: 800,
+      ctr: 2.5,
+      conversion_rate: 20,
+      cpc: 4,
+      cpa: 20,
+      roas: 2,
+    });
+  });
+
+  it('sums a field missing from any row to NaN', () => {
+    const redacted = rows.map(({ spend: _spend, ...row }) => row as MetricTotals);
+    const totals = summarizeTotals(redacted);
+    expect(sumTotals(redacted).spend).toBeNaN();
+    expect(totals.roas).toBeNaN();
+    expect(totals.ctr).toBe(2.5);
+  });
+
+  it('is all zeros for no rows', () => {
+    expect(summarizeTotals([])).toMatchObject({ impressions: 0, ctr: 0, roas: 0 });
+  });
+});
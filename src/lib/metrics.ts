@@ -0,0 +1,95 @@
+// Derived KPIs for any record carrying the five additive counters: campaigns,
+// breakdown rows and aggregates alike. Ratios are always recomputed from summed
+// counters, never averaged across rows.
+
+// Additive counters every campaign and breakdown row carries
+export interface MetricTotals {
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  spend: number;
+  revenue: number;
+}
+
+export interface DerivedMetrics {
+  // Percentages, 0–100
+  ctr: number;
+  conversion_rate: number;
+  // Money per click and per conversion, and revenue per unit of spend
+  cpc: number;
+  cpa: number;
+  roas: number;
+}
+
+export const METRIC_COUNTERS: (keyof MetricTotals)[] = ['impressions', 'clicks', 'conversions', 'spend', 'revenue'];
+
+// Payload ratios and money amounts are stored to two decimals
+export const METRIC_DECIMALS = 2;
+
+export function round(value: number, decimals = METRIC_DECIMALS): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// numerator / denominator. Nothing to divide by (a denominator of 0 or less) is
+// 0, as in the payload; an input that is not a number (e.g. spend redacted for
+// viewers) makes the ratio unknown, NaN, rather than a misleading 0.
+export function ratio(numerator: number, denominator: number): number {
+  if (!Number.isFinite(numerator) || !Number.isFinite(denominator)) return NaN;
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+// part as a percentage of whole, with the same guards as ratio
+export function percentage(part: number, whole: number): number {
+  return ratio(part, whole) * 100;
+}
+
+export const ctr = (row: Pick<MetricTotals, 'clicks' | 'impressions'>) => percentage(row.clicks, row.impressions);
+export const conversionRate = (row: Pick<MetricTotals, 'conversions' | 'clicks'>) => percentage(row.conversions, row.clicks);
+export const cpc = (row: Pick<MetricTotals, 'spend' | 'clicks'>) => ratio(row.spend, row.clicks);
+export const cpa = (row: Pick<MetricTotals, 'spend' | 'conversions'>) => ratio(row.spend, row.conversions);
+export const roas = (row: Pick<MetricTotals, 'revenue' | 'spend'>) => ratio(row.revenue, row.spend);
+
+// Unrounded, for further arithmetic; round for storage with roundMetrics
+export function deriveMetrics(totals: MetricTotals): DerivedMetrics {
+  return {
+    ctr: ctr(totals),
+    conversion_rate: conversionRate(totals),
+    cpc: cpc(totals),
+    cpa: cpa(totals),
+    roas: roas(totals),
+  };
+}
+
+export function roundMetrics(metrics: DerivedMetrics, decimals = METRIC_DECIMALS): DerivedMetrics {
+  return {
+    ctr: round(metrics.ctr, decimals),
+    conversion_rate: round(metrics.conversion_rate, decimals),
+    cpc: round(metrics.cpc, decimals),
+    cpa: round(metrics.cpa, decimals),
+    roas: round(metrics.roas, decimals),
+  };
+}
+
+export const emptyTotals = (): MetricTotals => ({
+  impressions: 0,
+  clicks: 0,
+  conversions: 0,
+  spend: 0,
+  revenue: 0,
+});
+
+// Counters summed over `rows`; a field missing from any row sums to NaN
+export function sumTotals(rows: MetricTotals[]): MetricTotals {
+  const totals = emptyTotals();
+  rows.forEach(row => {
+    METRIC_COUNTERS.forEach(field => { totals[field] += row[field]; });
+  });
+  return totals;
+}
+
+// Counters and derived metrics over `rows`
+export function summarizeTotals(rows: MetricTotals[]): MetricTotals & DerivedMetrics {
+  const totals = sumTotals(rows);
+  return { ...totals, ...deriveMetrics(totals) };
+}
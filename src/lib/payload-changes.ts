@@ -0,0 +1,100 @@
+import { MarketingData, MarketingStats } from '../types/marketing';
+import { diffCampaigns, percentChange, CampaignRef, FieldChange } from './campaign-diff';
+
+export interface StatusFlip extends CampaignRef {
+  before: string;
+  after: string;
+}
+
+export interface MoneyMove extends CampaignRef {
+  field: 'budget' | 'spend';
+  before: number;
+  after: number;
+  delta: number;
+  // null when the previous value was 0
+  percent_change: number | null;
+}
+
+export interface ListChange {
+  added: string[];
+  removed: string[];
+}
+
+export interface StatChange {
+  field: keyof MarketingStats;
+  before: number | string;
+  after: number | string;
+  delta?: number;
+  percent_change?: number | null;
+}
+
+export interface PayloadChanges {
+  addedCampaigns: CampaignRef[];
+  removedCampaigns: CampaignRef[];
+  statusFlips: StatusFlip[];
+  moneyMoves: MoneyMove[];
+  regions: ListChange;
+  mediums: ListChange;
+  // Every marketing_stats field, changed or not, in payload order
+  stats: StatChange[];
+}
+
+function diffList(before: string[] = [], after: string[] = []): ListChange {
+  return {
+    added: after.filter(value => !before.includes(value)),
+    removed: before.filter(value => !after.includes(value)),
+  };
+}
+
+// Budget or spend moves count when they change by at least `thresholdPercent`;
+// a move away from 0 always counts since it has no percentage
+function isSignificantMove(change: FieldChange, thresholdPercent: number): boolean {
+  if (change.percent_change === undefined) return false;
+  return change.percent_change === null || Math.abs(change.percent_change) >= thresholdPercent;
+}
+
+export function comparePayloads(previous: MarketingData, current: MarketingData, thresholdPercent: number): PayloadChanges {
+  const diff = diffCampaigns(previous.campaigns, current.campaigns);
+
+  const statusFlips: StatusFlip[] = [];
+  const moneyMoves: MoneyMove[] = [];
+
+  diff.changed.forEach(({ id, name, changes }) => {
+    changes.forEach(change => {
+      if (change.field === 'status') {
+        statusFlips.push({ id, name, before: String(change.before), after: String(change.after) });
+      } else if ((change.field === 'budget' || change.field === 'spend') && isSignificantMove(change, thresholdPercent)) {
+        moneyMoves.push({
+          id,
+          name,
+          field: change.field,
+          before: change.before as number,
+          after: change.after as number,
+          delta: change.delta!,
+          percent_change: change.percent_change!,
+        });
+      }
+    });
+  });
+
+  const stats = (Object.keys(current.marketing_stats) as (keyof MarketingStats)[]).map(field => {
+    const before = previous.marketing_stats[field];
+    const after = current.marketing_stats[field];
+    const change: StatChange = { field, before, after };
+    if (typeof before === 'number' && typeof after === 'number') {
+      change.delta = after - before;
+      change.percent_change = percentChange(before, after);
+    }
+    return change;
+  });
+
+  return {
+    addedCampaigns: diff.added,
+    removedCampaigns: diff.removed,
+    statusFlips,
+    moneyMoves,
+    regions: diffList(previous.filters.available_regions, current.filters.available_regions),
+    mediums: diffList(previous.filters.available_mediums, current.filters.available_mediums),
+    stats,
+  };
+}
@@ -0,0 +1,59 @@
+import { MarketingData } from '../types/marketing';
+
+export interface StoredPayload {
+  fetched_at: string;
+  data: MarketingData;
+}
+
+interface PayloadHistory {
+  current?: StoredPayload;
+  previous?: StoredPayload;
+}
+
+const STORAGE_KEY = 'marketing-data:history';
+
+function readHistory(): PayloadHistory {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Browser-only. Remember `data` as the latest payload; when it differs from the one
+// stored before, that one becomes the previous payload. Returns the previous payload.
+export function recordPayload(data: MarketingData, fetchedAt: Date): StoredPayload | null {
+  if (typeof window === 'undefined') return null;
+
+  // freshness only describes how the payload was served, not its contents
+  const { freshness: _freshness, ...contents } = data;
+  const history = readHistory();
+
+  if (history.current && JSON.stringify(history.current.data) === JSON.stringify(contents)) {
+    return history.previous ?? null;
+  }
+
+  const next: PayloadHistory = {
+    current: { fetched_at: fetchedAt.toISOString(), data: contents },
+    previous: history.current,
+  };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    // Quota exceeded or storage disabled: still compare against what we had for this session
+    console.warn('Could not store marketing data history:', error);
+  }
+  return next.previous ?? null;
+}
+
+// Browser-only. Forget the stored payloads, e.g. on sign-out so the next user of
+// this browser never sees figures fetched for someone with a different role.
+export function clearPayloadHistory(): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage disabled: nothing was stored
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { runQuery, parseQuery, validateQuery, querySource } from './query';
+import { fixtureData } from '../test/fixtures';
+
+const campaigns = () => fixtureData().campaigns;
+
+describe('runQuery', () => {
+  it('groups campaigns and sums their counters', () => {
+    const all = campaigns();
+    const result = runQuery(all, { group_by: ['medium'], measures: ['spend', 'campaign_count'] });
+
+    expect(result.source).toBe('campaigns');
+    expect(result.total_rows).toBe(new Set(all.map(campaign => campaign.medium)).size);
+    expect(result.totals.campaign_count).toBe(all.length);
+    expect(result.totals.spend).toBeCloseTo(all.reduce((sum, campaign) => sum + campaign.spend, 0));
+    expect(Object.keys(result.rows[0]).sort()).toEqual(['campaign_count', 'medium', 'spend']);
+  });
+
+  it('runs over a breakdown when a dimension comes from one', () => {
+    const all = campaigns();
+    const result = runQuery(all, { group_by: ['device'], measures: ['impressions'] });
+    const impressions = all.flatMap(campaign => campaign.device_performance).reduce((sum, row) => sum + row.impressions, 0);
+
+    expect(result.source).toBe('device_performance');
+    expect(result.totals.impressions).toBe(impressions);
+  });
+
+  it('filters, sorts and limits, with totals over every filtered row', () => {
+    const all = campaigns();
+    const medium = all[0].medium;
+    const result = runQuery(all, {
+      group_by: ['objective'],
+      measures: ['revenue'],
+      filters: { medium: [medium] },
+      sort: { by: 'revenue', direction: 'desc' },
+      limit: 1,
+    });
+    const matching = all.filter(campaign => campaign.medium === medium);
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.totals.revenue).toBeCloseTo(matching.reduce((sum, campaign) => sum + campaign.revenue, 0));
+    expect(result.rows[0].revenue).toBe(Math.max(...runQuery(matching, { group_by: ['objective'], measures: ['revenue'] }).rows.map(row => row.revenue)));
+  });
+
+  it('matches filter values regardless of case', () => {
+    const all = campaigns();
+    const medium = all[0].medium;
+    const exact = runQuery(all, { group_by: [], measures: ['campaign_count'], filters: { medium: [medium] } });
+    const shouted = runQuery(all, { group_by: [], measures: ['campaign_count'], filters: { medium: [medium.toUpperCase()] } });
+
+    expect(shouted.totals.campaign_count).toBeGreaterThan(0);
+    expect(shouted.totals).toEqual(exact.totals);
+  });
+
+  it('allocates demographic spend and revenue by audience share and marks them estimated', () => {
+    const [campaign] = campaigns();
+    const result = runQuery([campaign], { group_by: ['age_group', 'gender'], measures: ['clicks', 'spend', 'roas'] });
+    const segment = campaign.demographic_breakdown[0];
+
+    expect(result.source).toBe('demographic_breakdown');
+    expect(result.estimated_measures).toEqual(['spend', 'roas']);
+    expect(result.rows[0].spend).toBeCloseTo(campaign.spend * segment.percentage_of_audience / 100);
+    expect(result.rows[0].clicks).toBe(segment.performance.clicks);
+  });
+
+  it('marks nothing estimated for recorded measures', () => {
+    expect(runQuery(campaigns(), { group_by: ['region'] }).estimated_measures).toEqual([]);
+  });
+
+  it('throws on an invalid query', () => {
+    expect(() => runQuery(campaigns(), { group_by: ['region', 'device'] })).toThrow('different breakdowns');
+  });
+});
+
+describe('validateQuery', () => {
+  it('reports unknown dimensions and measures', () => {
+    const errors = validateQuery({ group_by: ['planet' as never], measures: ['profit' as never] });
+    expect(errors.map(error => [error.parameter, error.value])).toEqual([['group_by', 'planet'], ['measures', 'profit']]);
+  });
+
+  it('only sorts by grouped dimensions or measures', () => {
+    const errors = validateQuery({ group_by: ['medium'], sort: { by: 'region', direction: 'asc' } });
+    expect(errors.map(error => error.parameter)).toEqual(['sort']);
+  });
+
+  it('requires a positive integer limit', () => {
+    expect(validateQuery({ group_by: [], limit: 0 }).map(error => error.parameter)).toEqual(['limit']);
+  });
+});
+
+describe('querySource', () => {
+  it('takes the breakdown from filters as well as groups', () => {
+    expect(querySource({ group_by: ['medium'], filters: { week: ['2025-01-06'] } })).toBe('weekly_performance');
+    expect(querySource({ group_by: ['medium'] })).toBe('campaigns');
+  });
+});
+
+describe('parseQuery', () => {
+  it('reads lists, filters, sort and limit from parameters', () => {
+    const parsed = parseQuery(new URLSearchParams('group_by=medium,region&measures=roas&region=Dubai,Sharjah&sort=roas&limit=5'));
+    expect(parsed).toEqual({
+      ok: true,
+      query: {
+        group_by: ['medium', 'region'],
+        measures: ['roas'],
+        filters: { region: ['Dubai', 'Sharjah'] },
+        sort: { by: 'roas', direction: 'desc' },
+        limit: 5,
+      },
+    });
+  });
+
+  it('sorts dimensions ascending by default', () => {
+    const parsed = parseQuery(new URLSearchParams('group_by=medium&sort=medium'));
+    expect(parsed.ok && parsed.query.sort).toEqual({ by: 'medium', direction: 'asc' });
+  });
+
+  it('reports a bad order together with other problems', () => {
+    const parsed = parseQuery(new URLSearchParams('group_by=medium&order=up&limit=-1'));
+    expect(parsed.ok).toBe(false);
+    expect(!parsed.ok && parsed.errors.map(error => error.parameter)).toEqual(['order', 'limit']);
+  });
+});
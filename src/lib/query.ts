@@ -0,0 +1,322 @@
+import { Campaign, ApiErrorDetail } from '../types/marketing';
+import { MetricTotals, DerivedMetrics, METRIC_COUNTERS, summarizeTotals } from './metrics';
+
+// Group-by queries over campaigns and their nested breakdowns. Each query runs
+// over one grain: campaigns, or the rows of one breakdown (regions, devices,
+// demographic segments or weeks) together with their campaign's attributes.
+
+export type QueryDimension =
+  | 'medium'
+  | 'objective'
+  | 'format'
+  | 'product_category'
+  | 'status'
+  | 'region'
+  | 'country'
+  | 'device'
+  | 'age_group'
+  | 'gender'
+  | 'week';
+
+export const QUERY_DIMENSIONS: QueryDimension[] = [
+  'medium',
+  'objective',
+  'format',
+  'product_category',
+  'status',
+  'region',
+  'country',
+  'device',
+  'age_group',
+  'gender',
+  'week',
+];
+
+export type QueryMeasure = keyof MetricTotals | keyof DerivedMetrics | 'campaign_count';
+
+export const QUERY_MEASURES: QueryMeasure[] = [
+  ...METRIC_COUNTERS,
+  'ctr',
+  'conversion_rate',
+  'cpc',
+  'cpa',
+  'roas',
+  'campaign_count',
+];
+
+export type QuerySource = 'campaigns' | 'regional_performance' | 'device_performance' | 'demographic_breakdown' | 'weekly_performance';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface CampaignQuery<D extends QueryDimension = QueryDimension, M extends QueryMeasure = QueryMeasure> {
+  group_by: D[];
+  // Defaults to every measure
+  measures?: M[];
+  // Keep only rows whose dimension value is one of those listed, ignoring case
+  filters?: Partial<Record<QueryDimension, string[]>>;
+  sort?: { by: D | QueryMeasure; direction: SortDirection };
+  // Top-N after sorting
+  limit?: number;
+}
+
+export type MeasureValues = MetricTotals & DerivedMetrics & { campaign_count: number };
+
+export type QueryRow<D extends QueryDimension = QueryDimension, M extends QueryMeasure = QueryMeasure> =
+  Record<D, string> & Pick<MeasureValues, M>;
+
+export interface QueryResult<D extends QueryDimension = QueryDimension, M extends QueryMeasure = QueryMeasure> {
+  source: QuerySource;
+  // Groups before `limit` was applied
+  total_rows: number;
+  rows: QueryRow<D, M>[];
+  // Over every row that passed the filters, not just the top N
+  totals: Pick<MeasureValues, M>;
+  // Returned measures that are estimated rather than recorded at this grain
+  estimated_measures: M[];
+}
+
+// One row of the chosen grain: its counters and the dimension values it belongs to
+interface Fact {
+  campaign: Campaign;
+  totals: MetricTotals;
+  values: Partial<Record<QueryDimension, string>>;
+}
+
+// Where each dimension comes from; campaign attributes are available at every grain
+const DIMENSION_SOURCES: Record<QueryDimension, QuerySource> = {
+  medium: 'campaigns',
+  objective: 'campaigns',
+  format: 'campaigns',
+  product_category: 'campaigns',
+  status: 'campaigns',
+  region: 'regional_performance',
+  country: 'regional_performance',
+  device: 'device_performance',
+  age_group: 'demographic_breakdown',
+  gender: 'demographic_breakdown',
+  week: 'weekly_performance',
+};
+
+const campaignValues = (campaign: Campaign): Partial<Record<QueryDimension, string>> => ({
+  medium: campaign.medium,
+  objective: campaign.objective,
+  format: campaign.format,
+  product_category: campaign.product_category,
+  status: campaign.status,
+});
+
+// Measures a grain does not record. Demographic breakdowns carry no spend or
+// revenue, so factsOf allocates both from the campaign totals by each segment's
+// percentage_of_audience; they and every ratio over them are estimates.
+export const ESTIMATED_MEASURES: Record<QuerySource, QueryMeasure[]> = {
+  campaigns: [],
+  regional_performance: [],
+  device_performance: [],
+  demographic_breakdown: ['spend', 'revenue', 'cpc', 'cpa', 'roas'],
+  weekly_performance: [],
+};
+
+function factsOf(campaign: Campaign, source: QuerySource): Fact[] {
+  const values = campaignValues(campaign);
+  switch (source) {
+    case 'campaigns':
+      return [{ campaign, totals: campaign, values }];
+    case 'regional_performance':
+      return campaign.regional_performance.map(row => ({
+        campaign,
+        totals: row,
+        values: { ...values, region: row.region, country: row.country },
+      }));
+    case 'device_performance':
+      return campaign.device_performance.map(row => ({
+        campaign,
+        totals: row,
+        values: { ...values, device: row.device },
+      }));
+    case 'demographic_breakdown':
+      return campaign.demographic_breakdown.map(segment => {
+        const share = segment.percentage_of_audience / 100;
+        return {
+          campaign,
+          totals: {
+            impressions: segment.performance.impressions,
+            clicks: segment.performance.clicks,
+            conversions: segment.performance.conversions,
+            spend: campaign.spend * share,
+            revenue: campaign.revenue * share,
+          },
+          values: { ...values, age_group: segment.age_group, gender: segment.gender },
+        };
+      });
+    case 'weekly_performance':
+      // A week is identified by its start date
+      return campaign.weekly_performance.map(row => ({
+        campaign,
+        totals: row,
+        values: { ...values, week: row.week_start },
+      }));
+  }
+}
+
+// The grain a query runs over: the one breakdown its dimensions and filters use, if any
+export function querySource(query: Pick<CampaignQuery, 'group_by' | 'filters'>): QuerySource {
+  const dimensions = [...query.group_by, ...Object.keys(query.filters ?? {}) as QueryDimension[]];
+  return dimensions.map(dimension => DIMENSION_SOURCES[dimension]).find(source => source !== 'campaigns') ?? 'campaigns';
+}
+
+// Problems with a query, in the shape the API reports them
+export function validateQuery(query: CampaignQuery): ApiErrorDetail[] {
+  const errors: ApiErrorDetail[] = [];
+  const unknown = (parameter: string, value: string, allowed: string[]) =>
+    errors.push({ parameter, value, message: `Unknown ${parameter.replace('_', ' ')} "${value}"`, allowed });
+
+  query.group_by.filter(dimension => !QUERY_DIMENSIONS.includes(dimension))
+    .forEach(dimension => unknown('group_by', dimension, QUERY_DIMENSIONS));
+  (query.measures ?? []).filter(measure => !QUERY_MEASURES.includes(measure))
+    .forEach(measure => unknown('measures', measure, QUERY_MEASURES));
+  (Object.keys(query.filters ?? {}) as QueryDimension[]).filter(dimension => !QUERY_DIMENSIONS.includes(dimension))
+    .forEach(dimension => unknown('filter', dimension, QUERY_DIMENSIONS));
+  if (errors.length > 0) return errors;
+
+  const dimensions = [...query.group_by, ...Object.keys(query.filters ?? {}) as QueryDimension[]];
+  const breakdowns = [...new Set(dimensions.map(dimension => DIMENSION_SOURCES[dimension]))]
+    .filter(source => source !== 'campaigns');
+  if (breakdowns.length > 1) {
+    const [first, second] = breakdowns.map(source => dimensions.find(dimension => DIMENSION_SOURCES[dimension] === source)!);
+    errors.push({
+      parameter: 'group_by',
+      value: dimensions.join(','),
+      message: `${first} and ${second} come from different breakdowns (${breakdowns.join(', ')}) and cannot be combined`,
+    });
+  }
+
+  if (query.sort && !(query.group_by as string[]).includes(query.sort.by) && !(QUERY_MEASURES as string[]).includes(query.sort.by)) {
+    errors.push({
+      parameter: 'sort',
+      value: query.sort.by,
+      message: `Cannot sort by "${query.sort.by}": expected a grouped dimension or a measure`,
+      allowed: [...query.group_by, ...QUERY_MEASURES],
+    });
+  }
+
+  if (query.limit !== undefined && (!Number.isInteger(query.limit) || query.limit < 1)) {
+    errors.push({ parameter: 'limit', value: String(query.limit), message: 'limit must be a positive integer' });
+  }
+
+  return errors;
+}
+
+// Counters summed over `facts`, ratios re-derived from the sums, and the
+// number of distinct campaigns contributing
+function measure(facts: Fact[]): MeasureValues {
+  return {
+    ...summarizeTotals(facts.map(fact => fact.totals)),
+    campaign_count: new Set(facts.map(fact => fact.campaign.id)).size,
+  };
+}
+
+function pickMeasures<M extends QueryMeasure>(values: MeasureValues, measures: M[]): Pick<MeasureValues, M> {
+  return Object.fromEntries(measures.map(key => [key, values[key]])) as Pick<MeasureValues, M>;
+}
+
+// Numbers that are not (e.g. a ratio over redacted spend) sort last either way
+function compareValues(a: string | number, b: string | number, direction: SortDirection): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    if (Number.isNaN(a) || Number.isNaN(b)) return Number.isNaN(a) ? (Number.isNaN(b) ? 0 : 1) : -1;
+    return direction === 'asc' ? a - b : b - a;
+  }
+  const order = String(a).localeCompare(String(b));
+  return direction === 'asc' ? order : -order;
+}
+
+// Run `query` over `campaigns`. Throws when validateQuery reports a problem.
+// Without a sort, rows come in the order their groups were first seen.
+export function runQuery<D extends QueryDimension, M extends QueryMeasure = QueryMeasure>(
+  campaigns: Campaign[],
+  query: CampaignQuery<D, M>
+): QueryResult<D, M> {
+  const errors = validateQuery(query);
+  if (errors.length > 0) throw new Error(errors.map(error => error.message).join('; '));
+
+  const source = querySource(query);
+  // Case-insensitive, like the campaign filters of /api/marketing-data
+  const filters = (Object.entries(query.filters ?? {}) as [QueryDimension, string[]][])
+    .map(([dimension, allowed]) => [dimension, allowed.map(value => value.toLowerCase())] as const);
+  const facts = campaigns
+    .flatMap(campaign => factsOf(campaign, source))
+    .filter(fact => filters.every(([dimension, allowed]) => allowed.includes((fact.values[dimension] ?? '').toLowerCase())));
+
+  const groups = new Map<string, { values: Record<D, string>; facts: Fact[] }>();
+  facts.forEach(fact => {
+    const values = Object.fromEntries(query.group_by.map(dimension => [dimension, fact.values[dimension] ?? ''])) as Record<D, string>;
+    const key = JSON.stringify(query.group_by.map(dimension => values[dimension]));
+    const group = groups.get(key);
+    if (group) {
+      group.facts.push(fact);
+    } else {
+      groups.set(key, { values, facts: [fact] });
+    }
+  });
+
+  const measures = query.measures ?? (QUERY_MEASURES as M[]);
+  const measured = [...groups.values()].map(group => ({ values: group.values, measures: measure(group.facts) }));
+
+  if (query.sort) {
+    const { by, direction } = query.sort;
+    const valueOf = (row: (typeof measured)[number]) =>
+      (query.group_by as string[]).includes(by) ? row.values[by as D] : row.measures[by as QueryMeasure];
+    measured.sort((a, b) => compareValues(valueOf(a), valueOf(b), direction));
+  }
+
+  const limited = query.limit === undefined ? measured : measured.slice(0, query.limit);
+
+  return {
+    source,
+    total_rows: measured.length,
+    rows: limited.map(row => ({ ...row.values, ...pickMeasures(row.measures, measures) }) as QueryRow<D, M>),
+    totals: pickMeasures(measure(facts), measures),
+    estimated_measures: measures.filter(measure => ESTIMATED_MEASURES[source].includes(measure)),
+  };
+}
+
+export type ParseQueryResult =
+  | { ok: true; query: CampaignQuery }
+  | { ok: false; errors: ApiErrorDetail[] };
+
+const listParameter = (params: URLSearchParams, name: string) =>
+  params.getAll(name).flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+
+// Read a query from URL parameters: group_by and measures as comma-separated
+// lists, a filter per dimension (?region=Dubai,Sharjah), sort=<dimension or
+// measure> with order=asc|desc (measures default to descending) and limit.
+export function parseQuery(params: URLSearchParams): ParseQueryResult {
+  const query: CampaignQuery = { group_by: listParameter(params, 'group_by') as QueryDimension[] };
+  const errors: ApiErrorDetail[] = [];
+
+  const measures = listParameter(params, 'measures');
+  if (measures.length > 0) query.measures = measures as QueryMeasure[];
+
+  QUERY_DIMENSIONS.forEach(dimension => {
+    const values = listParameter(params, dimension);
+    if (values.length > 0) query.filters = { ...query.filters, [dimension]: values };
+  });
+
+  const sort = params.get('sort');
+  const order = params.get('order');
+  if (order && order !== 'asc' && order !== 'desc') {
+    errors.push({ parameter: 'order', value: order, message: 'order must be asc or desc', allowed: ['asc', 'desc'] });
+  }
+  if (sort) {
+    const isMeasure = (QUERY_MEASURES as string[]).includes(sort);
+    query.sort = {
+      by: sort as QueryDimension | QueryMeasure,
+      direction: order === 'asc' || order === 'desc' ? order : isMeasure ? 'desc' : 'asc',
+    };
+  }
+
+  const limit = params.get('limit');
+  if (limit !== null) query.limit = Number(limit);
+
+  errors.push(...validateQuery(query));
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, query };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { reconcile, recomputeStats } from './reconciliation';
+import { redactMarketingData } from './access';
+import { fixtureData } from '../test/fixtures';
+
+describe('reconcile', () => {
+  it('finds the fixture consistent', () => {
+    const report = reconcile(fixtureData());
+    expect(report.discrepancies).toEqual([]);
+    expect(report.checked).toBeGreaterThan(0);
+  });
+
+  it('reports stats that disagree with the campaigns', () => {
+    const data = fixtureData();
+    data.marketing_stats.total_revenue += 1000;
+    data.marketing_stats.top_performing_medium = 'Carrier pigeon';
+
+    const report = reconcile(data);
+    expect(report.discrepancies.map(entry => entry.field)).toEqual(['top_performing_medium', 'total_revenue']);
+    expect(report.discrepancies[1]).toMatchObject({ scope: 'marketing_stats', difference: 1000 });
+  });
+
+  it('reports breakdown rows that do not add up to the campaign', () => {
+    const data = fixtureData();
+    data.campaigns[0].regional_performance[0].clicks += 10;
+
+    const [discrepancy] = reconcile(data).discrepancies;
+    expect(discrepancy).toMatchObject({
+      scope: 'regional_performance',
+      campaign: { id: data.campaigns[0].id },
+      field: 'clicks',
+      difference: -10,
+    });
+  });
+
+  it('ignores differences within rounding', () => {
+    const data = fixtureData();
+    data.marketing_stats.total_revenue += 0.005;
+    expect(reconcile(data).discrepancies).toEqual([]);
+  });
+
+  it('skips the fields redacted for viewers', () => {
+    const full = reconcile(fixtureData());
+    const redacted = reconcile(redactMarketingData(fixtureData(), 'viewer'));
+    expect(redacted.discrepancies).toEqual([]);
+    expect(redacted.checked).toBeLessThan(full.checked);
+  });
+});
+
+describe('recomputeStats', () => {
+  it('derives averages from the totals', () => {
+    const stats = recomputeStats(fixtureData().campaigns);
+    expect(stats.average_roas).toBe(Math.round(stats.total_revenue / stats.total_spend * 100) / 100);
+  });
+});
@@ -0,0 +1,143 @@
+import { Campaign, MarketingData, MarketingStats } from '../types/marketing';
+import { CampaignRef, percentChange } from './campaign-diff';
+import { MetricTotals, METRIC_COUNTERS, deriveMetrics, round, sumTotals } from './metrics';
+
+export type ReconciliationScope = 'marketing_stats' | 'weekly_performance' | 'regional_performance' | 'device_performance';
+
+export const RECONCILIATION_SCOPES: ReconciliationScope[] = [
+  'marketing_stats',
+  'weekly_performance',
+  'regional_performance',
+  'device_performance',
+];
+
+export interface Discrepancy {
+  scope: ReconciliationScope;
+  // Set for breakdown checks: the campaign whose rows do not add up
+  campaign?: CampaignRef;
+  field: string;
+  // The value in the payload and the value recomputed from the campaigns or rows
+  reported: number | string;
+  recomputed: number | string;
+  // Numeric fields only: reported - recomputed, and that relative to recomputed (null when it is 0)
+  difference?: number;
+  percent_difference?: number | null;
+}
+
+export interface ReconciliationReport {
+  // Comparisons made; fields missing from the payload (e.g. redacted spend) are skipped
+  checked: number;
+  discrepancies: Discrepancy[];
+}
+
+// Payload values are rounded to cents or two decimals, so differences within
+// this much of the recomputed value are rounding, not disagreement
+export interface ReconciliationTolerance {
+  absolute: number;
+  relative: number;
+}
+
+export const DEFAULT_TOLERANCE: ReconciliationTolerance = { absolute: 0.01, relative: 0.0001 };
+
+const BREAKDOWNS: { scope: Exclude<ReconciliationScope, 'marketing_stats'>; rows: (campaign: Campaign) => MetricTotals[] }[] = [
+  { scope: 'weekly_performance', rows: campaign => campaign.weekly_performance },
+  { scope: 'regional_performance', rows: campaign => campaign.regional_performance },
+  { scope: 'device_performance', rows: campaign => campaign.device_performance },
+];
+
+// Key with the largest summed value; ties go to the first key seen
+function topKey(entries: [string, number][]): string {
+  const sums = new Map<string, number>();
+  entries.forEach(([key, value]) => sums.set(key, (sums.get(key) ?? 0) + value));
+  let best = '';
+  let bestValue = -Infinity;
+  sums.forEach((value, key) => {
+    if (value > bestValue) {
+      best = key;
+      bestValue = value;
+    }
+  });
+  return best;
+}
+
+// marketing_stats as it should be for `campaigns`; averages are ratios of totals.
+// Fields that cannot be recomputed are NaN and left out of the comparison.
+export function recomputeStats(campaigns: Campaign[]): MarketingStats {
+  const totals = sumTotals(campaigns);
+  // A total that could not be summed (a field missing somewhere) leaves its ratios NaN
+  const derived = deriveMetrics(totals);
+
+  return {
+    total_campaigns: campaigns.length,
+    active_campaigns: campaigns.filter(campaign => campaign.status === 'Active').length,
+    total_spend: round(totals.spend),
+    total_revenue: round(totals.revenue),
+    total_conversions: totals.conversions,
+    average_roas: round(derived.roas),
+    top_performing_medium: topKey(campaigns.map(campaign => [campaign.medium, campaign.revenue])),
+    top_performing_region: topKey(campaigns.flatMap(campaign =>
+      campaign.regional_performance.map(region => [region.region, region.revenue] as [string, number])
+    )),
+    total_impressions: totals.impressions,
+    total_clicks: totals.clicks,
+    average_ctr: round(derived.ctr),
+    average_conversion_rate: round(derived.conversion_rate),
+  };
+}
+
+function compare(
+  reported: unknown,
+  recomputed: unknown,
+  tolerance: ReconciliationTolerance
+): Pick<Discrepancy, 'reported' | 'recomputed' | 'difference' | 'percent_difference'> | null | undefined {
+  if (typeof reported === 'number' && typeof recomputed === 'number') {
+    if (!Number.isFinite(reported) || !Number.isFinite(recomputed)) return undefined;
+    const difference = reported - recomputed;
+    if (Math.abs(difference) <= Math.max(tolerance.absolute, Math.abs(recomputed) * tolerance.relative)) return null;
+    return { reported, recomputed, difference, percent_difference: percentChange(recomputed, reported) };
+  }
+  if (typeof reported === 'string' && typeof recomputed === 'string') {
+    return reported === recomputed ? null : { reported, recomputed };
+  }
+  // Missing on one side, e.g. spend redacted for viewers: nothing to compare
+  return undefined;
+}
+
+// Compare every marketing_stats field with the value recomputed from the campaigns,
+// and each campaign's weekly, regional and device rows with the campaign totals.
+// Discrepancies are ordered by relative size, largest first.
+export function reconcile(data: MarketingData, tolerance: ReconciliationTolerance = DEFAULT_TOLERANCE): ReconciliationReport {
+  const discrepancies: Discrepancy[] = [];
+  let checked = 0;
+
+  const check = (entry: Omit<Discrepancy, 'reported' | 'recomputed'>, reported: unknown, recomputed: unknown) => {
+    const result = compare(reported, recomputed, tolerance);
+    if (result === undefined) return;
+    checked += 1;
+    if (result) discrepancies.push({ ...entry, ...result });
+  };
+
+  const expected = recomputeStats(data.campaigns);
+  (Object.keys(expected) as (keyof MarketingStats)[]).forEach(field => {
+    check({ scope: 'marketing_stats', field }, data.marketing_stats[field], expected[field]);
+  });
+
+  data.campaigns.forEach(campaign => {
+    const ref = { id: campaign.id, name: campaign.name };
+    BREAKDOWNS.forEach(({ scope, rows }) => {
+      const breakdown = rows(campaign);
+      if (breakdown.length === 0) return;
+      const sums = sumTotals(breakdown);
+      METRIC_COUNTERS.forEach(field => {
+        check({ scope, campaign: ref, field }, campaign[field], sums[field]);
+      });
+    });
+  });
+
+  // Text mismatches and differences from 0 have no percentage and sort first
+  const magnitude = (entry: Discrepancy) =>
+    entry.percent_difference == null ? Infinity : Math.abs(entry.percent_difference);
+  discrepancies.sort((a, b) => magnitude(b) - magnitude(a));
+
+  return { checked, discrepancies };
+}
@@ -0,0 +1,18 @@
+// Map positions of the regions the payload reports, by region name
+export const UAE_CITY_COORDINATES: { [key: string]: [number, number] } = {
+  'Dubai': [25.2048, 55.2708],
+  'Sharjah': [25.3460, 55.4200],
+  'Abu Dhabi': [24.4539, 54.3773],
+  'Al Ain': [24.1302, 55.8023],
+  'Ras Al Khaimah': [25.6741, 55.9804],
+  'Fujairah': [25.1288, 56.3265],
+  'Ajman': [25.4052, 55.5136],
+  'Umm Al Quwain': [25.5653, 55.5533]
+};
+
+// Where the heat map places a region missing from the table above
+export const FALLBACK_COORDINATES: [number, number] = [25.0, 55.0];
+
+export function regionCoordinates(region: string): [number, number] | undefined {
+  return UAE_CITY_COORDINATES[region];
+}
@@ -0,0 +1,79 @@
+import type { NextRequest } from 'next/server';
+import { Role, isRole } from '../access';
+
+// Uses only Web Crypto so the middleware can check keys too
+
+// A program calling the API with its own key instead of a session
+export interface ApiClient {
+  id: string;
+  role: Role;
+}
+
+interface ConfiguredClient extends ApiClient {
+  key: string;
+}
+
+// API_CLIENT_KEYS is a comma-separated list of client:role:key entries
+function readClients(): ConfiguredClient[] {
+  return (process.env.API_CLIENT_KEYS ?? '').split(',').map(entry => entry.trim()).filter(Boolean).flatMap(entry => {
+    const [id, role, key] = entry.split(':');
+    if (!id || !isRole(role) || !key) {
+      console.warn(`Ignoring malformed API_CLIENT_KEYS entry for "${id ?? ''}"`);
+      return [];
+    }
+    return [{ id, role, key }];
+  });
+}
+
+// Key sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`, if any
+export function readRequestApiKey(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim() || null;
+  }
+  return request.headers.get('x-api-key')?.trim() || null;
+}
+
+const encoder = new TextEncoder();
+
+// Compares digests so the time taken does not depend on where the keys differ
+async function sameKey(a: string, b: string): Promise<boolean> {
+  const [left, right] = await Promise.all([
+    crypto.subtle.digest('SHA-256', encoder.encode(a)),
+    crypto.subtle.digest('SHA-256', encoder.encode(b)),
+  ]);
+  const x = new Uint8Array(left);
+  const y = new Uint8Array(right);
+  let difference = 0;
+  x.forEach((byte, index) => { difference |= byte ^ y[index]; });
+  return difference === 0;
+}
+
+// The client whose key `key` is, or null when no configured client has it
+export async function findApiClient(key: string): Promise<ApiClient | null> {
+  for (const client of readClients()) {
+    if (await sameKey(key, client.key)) return { id: client.id, role: client.role };
+  }
+  return null;
+}
+
+// MARKETING_INGEST_API_KEYS is a comma-separated list of keys accepted by the ingest endpoint
+export const ingestKeys = () =>
+  (process.env.MARKETING_INGEST_API_KEYS ?? '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean);
+
+// Position of `key` in MARKETING_INGEST_API_KEYS, starting at 1, or null when it is not an ingest key
+export async function findIngestKey(key: string): Promise<number | null> {
+  const keys = ingestKeys();
+  for (let index = 0; index < keys.length; index++) {
+    if (await sameKey(key, keys[index])) return index + 1;
+  }
+  return null;
+}
+
+export async function getRequestApiClient(request: NextRequest): Promise<ApiClient | null> {
+  const key = readRequestApiKey(request);
+  return key ? findApiClient(key) : null;
+}
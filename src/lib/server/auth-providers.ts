@@ -0,0 +1,89 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { isRole } from '../access';
+import { SessionUser } from './session';
+
+export interface Credentials {
+  username: string;
+  password: string;
+  // Only honoured by the stub provider
+  role?: string;
+}
+
+export type AuthProviderId = 'local' | 'stub';
+
+export interface AuthProvider {
+  id: AuthProviderId;
+  // The signed-in user, or null when the credentials are rejected
+  authenticate: (credentials: Credentials) => Promise<SessionUser | null>;
+}
+
+interface LocalUser extends SessionUser {
+  passwordHash: string;
+}
+
+// scrypt.<salt hex>.<key hex>; no `$`, which .env files would expand as a variable
+export function hashPassword(password: string, salt = randomBytes(16).toString('hex')): string {
+  return `scrypt.${salt}.${scryptSync(password, salt, 64).toString('hex')}`;
+}
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, key] = stored.split('.');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'hex');
+  if (expected.length === 0) return false;
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+// AUTH_USERS is a comma-separated list of username:role:passwordHash entries
+function readLocalUsers(): Map<string, LocalUser> {
+  const users = new Map<string, LocalUser>();
+  (process.env.AUTH_USERS ?? '').split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const [username, role, passwordHash] = entry.split(':');
+    if (!username || !isRole(role) || !passwordHash) {
+      console.warn(`Ignoring malformed AUTH_USERS entry for "${username ?? ''}"`);
+      return;
+    }
+    users.set(username.toLowerCase(), { username, name: username, role, passwordHash });
+  });
+  return users;
+}
+
+// Checked for unknown usernames so response times do not reveal which accounts exist
+const UNKNOWN_USER_HASH = hashPassword(randomBytes(16).toString('hex'));
+
+// Accounts configured on the server
+const localProvider: AuthProvider = {
+  id: 'local',
+  async authenticate({ username, password }) {
+    const user = readLocalUsers().get(username.trim().toLowerCase());
+    const valid = verifyPassword(password, user?.passwordHash ?? UNKNOWN_USER_HASH);
+    if (!valid || !user) return null;
+    return { username: user.username, name: user.name, role: user.role };
+  },
+};
+
+// Offline development and demos: any username signs in with the role it asks for
+const stubProvider: AuthProvider = {
+  id: 'stub',
+  async authenticate({ username, role }) {
+    const name = username.trim();
+    if (!name) return null;
+    return { username: name, name, role: isRole(role) ? role : 'viewer' };
+  },
+};
+
+const PROVIDERS: Record<AuthProviderId, AuthProvider> = {
+  local: localProvider,
+  stub: stubProvider,
+};
+
+// AUTH_PROVIDER selects how credentials are checked (default: local). The stub
+// provider lets anyone sign in as admin, so production refuses it.
+export function getAuthProvider(): AuthProvider {
+  const id = process.env.AUTH_PROVIDER;
+  if (id === 'stub' && process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_PROVIDER=stub is for development only; use local in production');
+  }
+  return id === 'stub' || id === 'local' ? PROVIDERS[id] : localProvider;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSwrCache } from './cache';
+
+function setup() {
+  let time = 0;
+  let version = 0;
+  const load = vi.fn(async () => ++version);
+  const cache = createSwrCache({ load, ttlMs: 1000, staleWhileRevalidateMs: 5000, now: () => time });
+  return { cache, load, advance: (ms: number) => { time += ms; } };
+}
+
+describe('createSwrCache', () => {
+  it('loads on a miss and serves hits until the TTL passes', async () => {
+    const { cache, load, advance } = setup();
+
+    expect(await cache.get()).toEqual({ value: 1, fetchedAt: 0, status: 'miss' });
+    advance(999);
+    expect(await cache.get()).toMatchObject({ value: 1, status: 'hit' });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves a stale entry while it refreshes in the background', async () => {
+    const { cache, load, advance } = setup();
+    await cache.get();
+    advance(1500);
+
+    expect(await cache.get()).toMatchObject({ value: 1, status: 'stale' });
+    await vi.waitFor(() => expect(cache.peek()?.value).toBe(2));
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('loads again once an entry is past the stale window', async () => {
+    const { cache, advance } = setup();
+    await cache.get();
+    advance(6000);
+
+    expect(await cache.get()).toMatchObject({ value: 2, status: 'miss' });
+  });
+
+  it('shares one load between concurrent misses', async () => {
+    const { cache, load } = setup();
+    const results = await Promise.all([cache.get(), cache.get(), cache.get()]);
+
+    expect(results.map(result => result.value)).toEqual([1, 1, 1]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not let a load started before invalidate repopulate the cache', async () => {
+    let release: (value: string) => void = () => {};
+    const load = vi.fn()
+      .mockImplementationOnce(() => new Promise<string>(resolve => { release = resolve; }))
+      .mockResolvedValue('fresh');
+    const cache = createSwrCache<string>({ load, ttlMs: 1000, staleWhileRevalidateMs: 0 });
+
+    const pending = cache.get();
+    cache.invalidate();
+    release('outdated');
+
+    expect((await pending).value).toBe('outdated');
+    expect(cache.peek()).toBeNull();
+    expect((await cache.get()).value).toBe('fresh');
+  });
+
+  it('keeps nothing when a load fails', async () => {
+    const load = vi.fn().mockRejectedValueOnce(new Error('upstream down')).mockResolvedValue('ok');
+    const cache = createSwrCache<string>({ load, ttlMs: 1000, staleWhileRevalidateMs: 0 });
+
+    await expect(cache.get()).rejects.toThrow('upstream down');
+    expect((await cache.get()).value).toBe('ok');
+  });
+});
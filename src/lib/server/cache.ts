@@ -0,0 +1,80 @@
+export interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+export interface CacheOptions<T> {
+  load: () => Promise<T>;
+  // How long an entry is served without revalidation
+  ttlMs: number;
+  // How long past the TTL a stale entry may still be served while a refresh runs
+  staleWhileRevalidateMs: number;
+  now?: () => number;
+}
+
+export type CacheStatus = 'hit' | 'stale' | 'miss';
+
+export interface CacheResult<T> extends CacheEntry<T> {
+  status: CacheStatus;
+}
+
+export interface SwrCache<T> {
+  get(): Promise<CacheResult<T>>;
+  peek(): CacheEntry<T> | null;
+  invalidate(): void;
+}
+
+// In-process cache with stale-while-revalidate semantics. Concurrent misses
+// share a single in-flight load.
+export function createSwrCache<T>({ load, ttlMs, staleWhileRevalidateMs, now = Date.now }: CacheOptions<T>): SwrCache<T> {
+  let entry: CacheEntry<T> | null = null;
+  let inFlight: Promise<CacheEntry<T>> | null = null;
+  // Bumped on invalidate so a load started before it never repopulates the cache
+  let generation = 0;
+
+  const refresh = () => {
+    if (!inFlight) {
+      const startedGeneration = generation;
+      const pending: Promise<CacheEntry<T>> = load()
+        .then(value => {
+          const fresh = { value, fetchedAt: now() };
+          if (startedGeneration === generation) entry = fresh;
+          return fresh;
+        })
+        .finally(() => {
+          if (inFlight === pending) inFlight = null;
+        });
+      inFlight = pending;
+    }
+    return inFlight;
+  };
+
+  return {
+    async get() {
+      if (entry) {
+        const age = now() - entry.fetchedAt;
+        if (age < ttlMs) {
+          return { ...entry, status: 'hit' };
+        }
+        if (age < ttlMs + staleWhileRevalidateMs) {
+          // Serve the stale entry and revalidate in the background
+          refresh().catch(error => console.error('Background cache refresh failed:', error));
+          return { ...entry, status: 'stale' };
+        }
+      }
+
+      const fresh = await refresh();
+      return { ...fresh, status: 'miss' };
+    },
+
+    peek() {
+      return entry;
+    },
+
+    invalidate() {
+      entry = null;
+      inFlight = null;
+      generation += 1;
+    },
+  };
+}
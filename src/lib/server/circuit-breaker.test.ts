@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createCircuitBreaker, CircuitOpenError } from './circuit-breaker';
+
+const fail = () => Promise.reject(new Error('upstream down'));
+const succeed = () => Promise.resolve('ok');
+
+function setup() {
+  let time = 0;
+  const breaker = createCircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000, now: () => time });
+  return { breaker, advance: (ms: number) => { time += ms; } };
+}
+
+describe('createCircuitBreaker', () => {
+  it('opens after the threshold of consecutive failures and rejects calls without running them', async () => {
+    const { breaker } = setup();
+    await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+    expect(breaker.getState()).toBe('closed');
+    await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+    expect(breaker.getState()).toBe('open');
+
+    let called = false;
+    const rejected = breaker.execute(async () => { called = true; });
+    await expect(rejected).rejects.toBeInstanceOf(CircuitOpenError);
+    await expect(rejected).rejects.toMatchObject({ retryAt: 1000 });
+    expect(called).toBe(false);
+  });
+
+  it('resets the count on success', async () => {
+    const { breaker } = setup();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    expect(breaker.getFailureCount()).toBe(0);
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('lets one trial call through after the reset timeout and closes when it succeeds', async () => {
+    const { breaker, advance } = setup();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    advance(1000);
+    expect(breaker.getState()).toBe('half-open');
+
+    let release: (value: string) => void = () => {};
+    const trial = breaker.execute(() => new Promise<string>(resolve => { release = resolve; }));
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+    release('ok');
+
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('opens again straight away when the trial call fails', async () => {
+    const { breaker, advance } = setup();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    advance(1000);
+
+    await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+    expect(breaker.getState()).toBe('open');
+    advance(999);
+    expect(breaker.getState()).toBe('open');
+  });
+});
@@ -0,0 +1,74 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a single trial call is let through
+  resetTimeoutMs: number;
+  now?: () => number;
+}
+
+export class CircuitOpenError extends Error {
+  retryAt: number;
+
+  constructor(retryAt: number) {
+    super(`Upstream circuit is open; next attempt after ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+export interface CircuitBreaker {
+  execute<T>(action: () => Promise<T>): Promise<T>;
+  getState(): CircuitState;
+  getFailureCount(): number;
+}
+
+// Stop calling a failing dependency for a while instead of retrying it on every request
+export function createCircuitBreaker({ failureThreshold, resetTimeoutMs, now = Date.now }: CircuitBreakerOptions): CircuitBreaker {
+  let state: CircuitState = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  const currentState = (): CircuitState => {
+    if (state === 'open' && now() - openedAt >= resetTimeoutMs) {
+      state = 'half-open';
+    }
+    return state;
+  };
+
+  return {
+    async execute<T>(action: () => Promise<T>) {
+      const stateNow = currentState();
+      if (stateNow === 'open' || (stateNow === 'half-open' && trialInFlight)) {
+        throw new CircuitOpenError(openedAt + resetTimeoutMs);
+      }
+
+      const isTrial = stateNow === 'half-open';
+      if (isTrial) trialInFlight = true;
+
+      try {
+        const result = await action();
+        state = 'closed';
+        failures = 0;
+        return result;
+      } catch (error) {
+        failures += 1;
+        if (isTrial || failures >= failureThreshold) {
+          state = 'open';
+          openedAt = now();
+        }
+        throw error;
+      } finally {
+        if (isTrial) trialInFlight = false;
+      }
+    },
+
+    getState: currentState,
+
+    getFailureCount() {
+      return failures;
+    },
+  };
+}
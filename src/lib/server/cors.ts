@@ -0,0 +1,23 @@
+import type { NextRequest } from 'next/server';
+
+// API_ALLOWED_ORIGINS is a comma-separated list of origins (scheme://host[:port])
+// whose pages may call the API from the browser; `*` allows any origin.
+// The dashboard's own origin is always allowed.
+const allowedOrigins = () =>
+  (process.env.API_ALLOWED_ORIGINS ?? '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+
+// Whether a request from `origin` may reach the API; requests without an Origin
+// header (same-origin navigations, curl, server-to-server) are not cross-origin
+export function isAllowedOrigin(request: NextRequest, origin = request.headers.get('origin')): boolean {
+  if (!origin) return true;
+  try {
+    if (new URL(origin).host === request.headers.get('host')) return true;
+  } catch {
+    return false;
+  }
+  const allowed = allowedOrigins();
+  return allowed.includes('*') || allowed.includes(origin);
+}
@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MarketingData } from '../../types/marketing';
+import { generateMarketingData } from './generate-data';
+import { validateMarketingData, formatValidationIssues } from '../validate-marketing-data';
+
+export type DataSourceKind = 'remote' | 'fixture' | 'generated';
+
+export interface MarketingDataSource {
+  kind: DataSourceKind;
+  // Human-readable origin (URL, fixture path or seed) for logs and diagnostics
+  description: string;
+  // `signal` cancels a load that is no longer wanted, e.g. one that timed out
+  load(signal?: AbortSignal): Promise<MarketingData>;
+}
+
+export const DEFAULT_REMOTE_URL = 'https://www.amanabootcamp.org/api/fs-classwork-data/amana-marketing';
+const DEFAULT_FIXTURE_DIR = 'fixtures/marketing-data';
+const DEFAULT_FIXTURE_NAME = 'default';
+
+export function createRemoteSource(url: string = DEFAULT_REMOTE_URL): MarketingDataSource {
+  return {
+    kind: 'remote',
+    description: url,
+    async load(signal) {
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        // Add cache control to prevent stale data
+        cache: 'no-store',
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      return response.json();
+    },
+  };
+}
+
+export function createFixtureSource(
+  directory: string = DEFAULT_FIXTURE_DIR,
+  name: string = DEFAULT_FIXTURE_NAME
+): MarketingDataSource {
+  const file = path.resolve(process.cwd(), directory, `${name}.json`);
+
+  return {
+    kind: 'fixture',
+    description: file,
+    async load() {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await fs.readFile(file, 'utf8'));
+      } catch (error) {
+        throw new Error(`Could not read fixture ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      const result = validateMarketingData(parsed, 'strict');
+      if (!result.valid) {
+        throw new Error(`Fixture ${file} does not match MarketingData: ${formatValidationIssues(result.errors)}`);
+      }
+
+      return result.data!;
+    },
+  };
+}
+
+export function createGeneratedSource(seed = 1, campaignCount?: number): MarketingDataSource {
+  return {
+    kind: 'generated',
+    description: `seed ${seed}`,
+    async load() {
+      return generateMarketingData({ seed, campaignCount });
+    },
+  };
+}
+
+// Pick the data source from environment configuration:
+//   MARKETING_DATA_SOURCE   remote (default) | fixture | generated
+//   MARKETING_DATA_URL      upstream URL for the remote source
+//   MARKETING_FIXTURE_DIR   directory holding <name>.json fixtures
+//   MARKETING_FIXTURE       fixture name without extension
+//   MARKETING_DATA_SEED     seed for the generated source
+//   MARKETING_DATA_CAMPAIGNS number of generated campaigns
+export function getDataSource(env: NodeJS.ProcessEnv = process.env): MarketingDataSource {
+  const kind = (env.MARKETING_DATA_SOURCE || 'remote').toLowerCase();
+
+  switch (kind) {
+    case 'remote':
+      return createRemoteSource(env.MARKETING_DATA_URL || DEFAULT_REMOTE_URL);
+    case 'fixture':
+      return createFixtureSource(
+        env.MARKETING_FIXTURE_DIR || DEFAULT_FIXTURE_DIR,
+        env.MARKETING_FIXTURE || DEFAULT_FIXTURE_NAME
+      );
+    case 'generated':
+      return createGeneratedSource(
+        Number(env.MARKETING_DATA_SEED) || 1,
+        Number(env.MARKETING_DATA_CAMPAIGNS) || undefined
+      );
+    default:
+      throw new Error(`Unknown MARKETING_DATA_SOURCE "${kind}" (expected remote, fixture or generated)`);
+  }
+}
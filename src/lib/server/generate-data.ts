@@ -0,0 +1,301 @@
+import {
+  MarketingData,
+  Campaign,
+  WeeklyPerformance,
+  RegionalPerformance,
+  DevicePerformance,
+  DemographicBreakdown,
+  Creative,
+} from '../../types/marketing';
+import { conversionRate, ctr, deriveMetrics, percentage, ratio, round, roundMetrics } from '../metrics';
+
+export interface GenerateOptions {
+  seed?: number;
+  campaignCount?: number;
+  weekCount?: number;
+  startDate?: string;
+}
+
+const STATUSES = ['Active', 'Paused', 'Completed'];
+const OBJECTIVES = ['Awareness', 'Consideration', 'Conversion', 'Retention'];
+const MEDIUMS = ['Instagram', 'Facebook', 'Google Ads', 'TikTok', 'LinkedIn'];
+const FORMATS = ['Image', 'Video', 'Carousel', 'Story', 'Search'];
+const PRODUCT_CATEGORIES = ['Electronics', 'Fashion', 'Home & Garden', 'Beauty', 'Sports'];
+const REGIONS = ['Dubai', 'Abu Dhabi', 'Sharjah', 'Al Ain', 'Ajman', 'Ras Al Khaimah', 'Fujairah', 'Umm Al Quwain'];
+const AGE_GROUPS = ['18-24', '25-34', '35-44', '45-54'];
+const GENDERS = ['Male', 'Female'];
+const DEVICES = ['Mobile', 'Desktop'];
+const INTERESTS = ['Technology', 'Shopping', 'Travel', 'Fitness', 'Food', 'Fashion'];
+const BEHAVIORS = ['Online shoppers', 'Frequent travelers', 'Early adopters', 'Deal seekers'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Small deterministic PRNG so the same seed always yields the same dataset
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    between: (min: number, max: number) => min + next() * (max - min),
+    int: (min: number, max: number) => Math.floor(min + next() * (max - min + 1)),
+    pick: <T>(items: T[]): T => items[Math.floor(next() * items.length)],
+    sample: <T>(items: T[], count: number): T[] =>
+      [...items].sort(() => next() - 0.5).slice(0, count),
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+const isoDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Split a total into `count` random shares that add back up to the total exactly
+function split(random: Random, total: number, count: number, decimals = 0): number[] {
+  const weights = Array.from({ length: count }, () => random.between(0.5, 1.5));
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  const factor = Math.pow(10, decimals);
+  const shares = weights.map(weight => Math.floor((total * weight / weightSum) * factor) / factor);
+  const assigned = shares.reduce((sum, share) => sum + share, 0);
+  shares[count - 1] = Math.round((shares[count - 1] + total - assigned) * factor) / factor;
+  return shares;
+}
+
+interface Totals {
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  spend: number;
+  revenue: number;
+}
+
+function splitTotals(random: Random, totals: Totals, count: number): Totals[] {
+  const impressions = split(random, totals.impressions, count);
+  const clicks = split(random, totals.clicks, count);
+  const conversions = split(random, totals.conversions, count);
+  const spend = split(random, totals.spend, count, 2);
+  const revenue = split(random, totals.revenue, count, 2);
+
+  return impressions.map((_, index) => ({
+    impressions: impressions[index],
+    clicks: clicks[index],
+    conversions: conversions[index],
+    spend: spend[index],
+    revenue: revenue[index],
+  }));
+}
+
+function generateCampaign(random: Random, id: number, weekStarts: number[]): Campaign {
+  const medium = random.pick(MEDIUMS);
+  const objective = random.pick(OBJECTIVES);
+  const format = random.pick(FORMATS);
+  const productCategory = random.pick(PRODUCT_CATEGORIES);
+  const regions = random.sample(REGIONS, random.int(3, REGIONS.length));
+
+  const budget = Math.round(random.between(5000, 60000));
+  const spend = round(budget * random.between(0.4, 1));
+  const impressions = Math.round(spend * random.between(40, 120));
+  const clicks = Math.round(impressions * random.between(0.01, 0.05));
+  const conversions = Math.round(clicks * random.between(0.02, 0.08));
+  const revenue = round(spend * random.between(1.2, 6));
+  const totals = { impressions, clicks, conversions, spend, revenue };
+
+  const weekly_performance: WeeklyPerformance[] = splitTotals(random, totals, weekStarts.length)
+    .map((share, index) => ({
+      week_start: isoDate(weekStarts[index]),
+      week_end: isoDate(weekStarts[index] + 6 * DAY_MS),
+      ...share,
+    }));
+
+  const regional_performance: RegionalPerformance[] = splitTotals(random, totals, regions.length)
+    .map((share, index) => ({
+      region: regions[index],
+      country: 'UAE',
+      ...share,
+      ...roundMetrics(deriveMetrics(share)),
+    }));
+
+  const device_performance: DevicePerformance[] = splitTotals(random, totals, DEVICES.length)
+    .map((share, index) => ({
+      device: DEVICES[index],
+      ...share,
+      ctr: round(ctr(share)),
+      conversion_rate: round(conversionRate(share)),
+      percentage_of_traffic: round(percentage(share.impressions, impressions)),
+    }));
+
+  const segments = AGE_GROUPS.flatMap(age_group => GENDERS.map(gender => ({ age_group, gender })));
+  const audienceShares = split(random, 100, segments.length, 2);
+  const demographic_breakdown: DemographicBreakdown[] = splitTotals(
+    random,
+    { impressions, clicks, conversions, spend: 0, revenue: 0 },
+    segments.length
+  ).map((share, index) => ({
+    ...segments[index],
+    percentage_of_audience: audienceShares[index],
+    performance: {
+      impressions: share.impressions,
+      clicks: share.clicks,
+      conversions: share.conversions,
+      ctr: round(ctr(share)),
+      conversion_rate: round(conversionRate(share)),
+    },
+  }));
+
+  const creativeCount = random.int(1, 3);
+  const creativeImpressions = split(random, impressions, creativeCount);
+  const creatives: Creative[] = creativeImpressions.map((creativeImpression, index) => {
+    const creativeClicks = Math.round(creativeImpression * random.between(0.01, 0.05));
+    return {
+      id: id * 100 + index + 1,
+      name: `${productCategory} ${format} ${String.fromCharCode(65 + index)}`,
+      format,
+      url: `https://cdn.example.com/creatives/${id}-${index + 1}.jpg`,
+      performance_score: round(random.between(4, 10)),
+      is_primary: index === 0,
+      impressions: creativeImpression,
+      clicks: creativeClicks,
+      ctr: round(percentage(creativeClicks, creativeImpression)),
+      a_b_test_variant: String.fromCharCode(65 + index),
+    };
+  });
+
+  const startTime = weekStarts[0];
+
+  return {
+    id,
+    name: `${productCategory} ${objective} - ${medium} ${format}`,
+    status: random.pick(STATUSES),
+    objective,
+    medium,
+    format,
+    product_category: productCategory,
+    budget,
+    spend,
+    budget_utilization: round(percentage(spend, budget)),
+    impressions,
+    clicks,
+    conversions,
+    revenue,
+    average_order_value: round(ratio(revenue, conversions)),
+    ...roundMetrics(deriveMetrics(totals)),
+    target_demographics: {
+      age_groups: random.sample(AGE_GROUPS, random.int(1, AGE_GROUPS.length)),
+      genders: random.sample(GENDERS, random.int(1, GENDERS.length)),
+      primary_device: random.pick(DEVICES),
+    },
+    demographic_breakdown,
+    device_performance,
+    weekly_performance,
+    regional_performance,
+    creatives,
+    timeline: {
+      start_date: isoDate(startTime),
+      created_date: isoDate(startTime - random.int(3, 14) * DAY_MS),
+      last_updated: isoDate(weekStarts[weekStarts.length - 1] + 6 * DAY_MS),
+    },
+    targeting: {
+      regions,
+      interests: random.sample(INTERESTS, random.int(1, 3)),
+      behaviors: random.sample(BEHAVIORS, random.int(1, 2)),
+      custom_audiences: [],
+    },
+  };
+}
+
+// Sum a campaign field and pick the key with the highest total
+function topBy(campaigns: Campaign[], key: (campaign: Campaign) => string[], value: (campaign: Campaign) => number[]) {
+  const totals: { [key: string]: number } = {};
+  campaigns.forEach(campaign => {
+    const keys = key(campaign);
+    const values = value(campaign);
+    keys.forEach((name, index) => {
+      totals[name] = (totals[name] || 0) + values[index];
+    });
+  });
+  return Object.entries(totals).sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+}
+
+// Build a complete, internally consistent MarketingData payload from a seed
+export function generateMarketingData(options: GenerateOptions = {}): MarketingData {
+  const {
+    seed = 1,
+    campaignCount = 12,
+    weekCount = 8,
+    startDate = '2025-01-06',
+  } = options;
+
+  const random = createRandom(seed);
+  const firstWeek = new Date(`${startDate}T00:00:00Z`).getTime();
+  const allWeekStarts = Array.from({ length: weekCount }, (_, index) => firstWeek + index * 7 * DAY_MS);
+
+  const campaigns = Array.from({ length: campaignCount }, (_, index) => {
+    const offset = random.int(0, Math.floor(weekCount / 2));
+    return generateCampaign(random, index + 1, allWeekStarts.slice(offset));
+  });
+
+  const sum = (key: 'spend' | 'revenue' | 'impressions' | 'clicks' | 'conversions') =>
+    round(campaigns.reduce((total, campaign) => total + campaign[key], 0));
+
+  const totalSpend = sum('spend');
+  const totalRevenue = sum('revenue');
+  const totalImpressions = sum('impressions');
+  const totalClicks = sum('clicks');
+  const totalConversions = sum('conversions');
+
+  const topMedium = topBy(campaigns, c => [c.medium], c => [c.revenue]);
+  const topRegion = topBy(
+    campaigns,
+    c => c.regional_performance.map(r => r.region),
+    c => c.regional_performance.map(r => r.revenue)
+  );
+  const topProduct = topBy(campaigns, c => [c.product_category], c => [c.conversions]);
+  const lastUpdated = allWeekStarts[allWeekStarts.length - 1] + 6 * DAY_MS;
+
+  return {
+    message: 'Generated marketing data',
+    company_info: {
+      name: 'Amana Marketing',
+      founded: '2019',
+      headquarters: 'Dubai, UAE',
+      industry: 'Digital Marketing',
+      description: 'Generated sample dataset for offline development and demos.',
+    },
+    marketing_stats: {
+      total_campaigns: campaigns.length,
+      active_campaigns: campaigns.filter(c => c.status === 'Active').length,
+      total_spend: totalSpend,
+      total_revenue: totalRevenue,
+      total_conversions: totalConversions,
+      average_roas: round(ratio(totalRevenue, totalSpend)),
+      top_performing_medium: topMedium,
+      top_performing_region: topRegion,
+      total_impressions: totalImpressions,
+      total_clicks: totalClicks,
+      average_ctr: round(percentage(totalClicks, totalImpressions)),
+      average_conversion_rate: round(percentage(totalConversions, totalClicks)),
+    },
+    campaigns,
+    market_insights: {
+      last_updated: new Date(lastUpdated).toISOString(),
+      peak_performance_day: random.pick(['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']),
+      peak_performance_time: `${random.int(9, 21)}:00`,
+      top_converting_product: topProduct,
+      fastest_growing_region: random.pick(REGIONS),
+    },
+    filters: {
+      available_statuses: STATUSES,
+      available_objectives: OBJECTIVES,
+      available_mediums: MEDIUMS,
+      available_formats: FORMATS,
+      available_product_categories: PRODUCT_CATEGORIES,
+      available_regions: REGIONS,
+      applied: {},
+    },
+  };
+}
@@ -0,0 +1,151 @@
+import { HealthReport, HealthSummary, ValidationIssue } from '../../types/marketing';
+import { getDataSource } from './data-source';
+import { getMarketingData, getUpstreamCircuitState, validationMode, InvalidMarketingDataError, MarketingDataResult } from './marketing-data';
+
+// HEALTH_UPSTREAM_TIMEOUT and HEALTH_PROBE_INTERVAL are in seconds
+const PROBE_TIMEOUT_MS = (Number(process.env.HEALTH_UPSTREAM_TIMEOUT) || 5) * 1000;
+const PROBE_INTERVAL_MS = (Number(process.env.HEALTH_PROBE_INTERVAL) || 30) * 1000;
+
+// Issues listed in the report; the counts cover all of them
+const MAX_LISTED_ISSUES = 10;
+
+type UpstreamProbe = Omit<HealthReport['upstream'], 'circuit'>;
+
+// One probe per process, shared by every caller until it is PROBE_INTERVAL_MS old
+const globalForHealth = globalThis as unknown as {
+  upstreamProbe?: { startedAt: number; result: Promise<UpstreamProbe> };
+};
+
+// Loads the data source directly, bypassing the cache, and times it. A load
+// that outlasts PROBE_TIMEOUT_MS is aborted rather than left running.
+async function probeUpstream(now: number): Promise<UpstreamProbe> {
+  const source = getDataSource();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  const started = performance.now();
+  const probe = { source: source.kind, target: source.description, probed_at: new Date(now).toISOString() };
+
+  try {
+    await source.load(controller.signal);
+    return { ...probe, reachable: true, latency_ms: Math.round(performance.now() - started) };
+  } catch (error) {
+    return {
+      ...probe,
+      reachable: false,
+      latency_ms: Math.round(performance.now() - started),
+      error: controller.signal.aborted
+        ? `No response within ${PROBE_TIMEOUT_MS / 1000}s`
+        : error instanceof Error ? error.message : 'Unknown error',
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// The health endpoint is public, so callers must not be able to drive load on
+// the data source: the probe runs at most once per PROBE_INTERVAL_MS, and not
+// at all while the circuit breaker is keeping requests off the source
+function latestProbe(now: number): Promise<UpstreamProbe> {
+  if (getUpstreamCircuitState().state === 'open') {
+    const source = getDataSource();
+    return Promise.resolve({
+      source: source.kind,
+      target: source.description,
+      probed_at: null,
+      reachable: null,
+      latency_ms: null,
+      error: 'Not probed while the upstream circuit is open',
+    });
+  }
+
+  const last = globalForHealth.upstreamProbe;
+  if (last && now - last.startedAt < PROBE_INTERVAL_MS) return last.result;
+
+  const result = probeUpstream(now);
+  globalForHealth.upstreamProbe = { startedAt: now, result };
+  return result;
+}
+
+const distinctCount = (values: string[]) => new Set(values).size;
+
+// Upstream reachability, cache age, validation of the served payload and basic
+// consistency checks, for uptime probes and for telling apart upstream, proxy
+// and payload failures
+export async function checkHealth(now = Date.now()): Promise<HealthReport> {
+  const [probe, served] = await Promise.all([
+    latestProbe(now),
+    getMarketingData().then(
+      result => ({ result, error: null }),
+      (error: unknown) => ({ result: null as MarketingDataResult | null, error })
+    ),
+  ]);
+  // Read after the load so a failure it just recorded is included
+  const upstream = { ...probe, circuit: getUpstreamCircuitState() };
+
+  const problems: string[] = [];
+  if (upstream.reachable === false) problems.push(`Data source unreachable: ${upstream.error}`);
+  if (upstream.circuit.state !== 'closed') problems.push(`Upstream circuit is ${upstream.circuit.state}`);
+
+  const { result, error } = served;
+  const errors: ValidationIssue[] = error instanceof InvalidMarketingDataError ? error.violations : [];
+  const warnings = result?.warnings ?? [];
+
+  if (!result) {
+    problems.push(`No data can be served: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } else if (result.stale) {
+    problems.push(`Serving last-known-good data from ${new Date(result.stale.savedAt).toISOString()}`);
+  }
+  if (warnings.length > 0) problems.push(`${warnings.length} validation warning(s) in the served payload`);
+
+  const data = result?.data;
+  const totalCampaigns = data && {
+    reported: data.marketing_stats.total_campaigns,
+    actual: data.campaigns.length,
+    matches: data.marketing_stats.total_campaigns === data.campaigns.length,
+  };
+  if (totalCampaigns && !totalCampaigns.matches) {
+    problems.push(`marketing_stats.total_campaigns is ${totalCampaigns.reported} but the payload has ${totalCampaigns.actual} campaigns`);
+  }
+
+  return {
+    status: !result ? 'down' : problems.length > 0 ? 'degraded' : 'ok',
+    checked_at: new Date(now).toISOString(),
+    problems,
+    upstream,
+    cache: {
+      status: result?.cacheStatus ?? 'empty',
+      fetched_at: result ? new Date(result.fetchedAt).toISOString() : null,
+      age_seconds: result ? Math.max(0, Math.floor((now - result.fetchedAt) / 1000)) : null,
+      serving_last_known_good: result?.stale
+        ? {
+          stale: true,
+          cached_at: new Date(result.stale.savedAt).toISOString(),
+          age_seconds: Math.floor((now - result.stale.savedAt) / 1000),
+          reason: result.stale.reason,
+        }
+        : null,
+    },
+    validation: {
+      mode: validationMode,
+      valid: errors.length === 0 && !!result,
+      warnings: warnings.length,
+      errors: errors.length,
+      issues: [...errors, ...warnings].slice(0, MAX_LISTED_ISSUES),
+    },
+    counts: data
+      ? {
+        campaigns: data.campaigns.length,
+        regions: distinctCount(data.campaigns.flatMap(c => c.regional_performance.map(r => r.region))),
+        weeks: distinctCount(data.campaigns.flatMap(c => c.weekly_performance.map(w => w.week_start))),
+        devices: distinctCount(data.campaigns.flatMap(c => c.device_performance.map(d => d.device))),
+      }
+      : null,
+    consistency: totalCampaigns ? { total_campaigns: totalCampaigns } : null,
+  };
+}
+
+// The report without details for callers who may not see them: the source URL
+// and validation issue paths describe the deployment and the payload
+export function summarizeHealth(report: HealthReport): HealthSummary {
+  return { status: report.status, checked_at: report.checked_at };
+}
@@ -0,0 +1,76 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { upsertCampaigns, readIngestedDataset, applyIngestedDataset, IngestRejectedError } from './ingest-store';
+import { fixtureCampaign, fixtureData } from '../../test/fixtures';
+
+const ingestDir = mkdtempSync(path.join(tmpdir(), 'ingest-store-'));
+process.env.MARKETING_INGEST_PATH = path.join(ingestDir, 'ingested.json');
+
+afterAll(() => rmSync(ingestDir, { recursive: true, force: true }));
+
+beforeEach(() => {
+  rmSync(process.env.MARKETING_INGEST_PATH!, { force: true });
+});
+
+describe('upsertCampaigns', () => {
+  const served = fixtureCampaign({ id: 1 });
+
+  it('stores partial patches for served campaigns and reports repeats as unchanged', async () => {
+    expect(await upsertCampaigns([{ id: 1, status: 'Paused' }], [served])).toEqual([{ id: 1, action: 'updated' }]);
+    const written = await readIngestedDataset();
+    expect(written.campaigns['1']).toEqual({ id: 1, status: 'Paused' });
+
+    expect(await upsertCampaigns([{ id: 1, status: 'Paused' }], [served])).toEqual([{ id: 1, action: 'unchanged' }]);
+    expect((await readIngestedDataset()).updated_at).toBe(written.updated_at);
+  });
+
+  it('treats a patch matching the served values as unchanged and writes nothing', async () => {
+    expect(await upsertCampaigns([{ id: 1, status: served.status }], [served])).toEqual([{ id: 1, action: 'unchanged' }]);
+    expect((await readIngestedDataset()).updated_at).toBeNull();
+  });
+
+  it('creates complete campaigns and rejects partial ones for unknown ids', async () => {
+    const complete = fixtureCampaign({ id: 2, name: 'Ingested' });
+    expect(await upsertCampaigns([complete], [served])).toEqual([{ id: 2, action: 'created' }]);
+
+    await expect(upsertCampaigns([{ id: 3, status: 'Active' }], [served])).rejects.toBeInstanceOf(IngestRejectedError);
+    expect(Object.keys((await readIngestedDataset()).campaigns)).toEqual(['2']);
+  });
+
+  it('merges repeated ids within a request', async () => {
+    await upsertCampaigns([{ id: 1, status: 'Paused' }, { id: 1, clicks: 10 }], [served]);
+    expect((await readIngestedDataset()).campaigns['1']).toEqual({ id: 1, status: 'Paused', clicks: 10 });
+  });
+
+  it('does not lose records when ingests run at the same time', async () => {
+    await Promise.all([
+      upsertCampaigns([{ id: 1, status: 'Paused' }], [served, fixtureCampaign({ id: 2 })]),
+      upsertCampaigns([{ id: 2, status: 'Paused' }], [served, fixtureCampaign({ id: 2 })]),
+    ]);
+    expect(Object.keys((await readIngestedDataset()).campaigns).sort()).toEqual(['1', '2']);
+  });
+});
+
+describe('applyIngestedDataset', () => {
+  it('patches served campaigns, appends complete new ones and skips incomplete ones', () => {
+    const data = fixtureData();
+    const [first] = data.campaigns;
+    const added = fixtureCampaign({ id: 9001, medium: 'Podcast' });
+
+    const { data: merged, skipped } = applyIngestedDataset(data, {
+      updated_at: '2025-03-01T00:00:00.000Z',
+      campaigns: {
+        [first.id]: { id: first.id, status: 'Paused' },
+        9001: added,
+        9002: { id: 9002, status: 'Active' },
+      },
+    });
+
+    expect(merged.campaigns.find(campaign => campaign.id === first.id)?.status).toBe('Paused');
+    expect(merged.campaigns.at(-1)).toEqual(added);
+    expect(merged.filters.available_mediums).toContain('Podcast');
+    expect(skipped).toEqual([9002]);
+  });
+});
@@ -0,0 +1,141 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Campaign, Filters, MarketingData, IngestResult } from '../../types/marketing';
+import { validateCampaign } from '../validate-marketing-data';
+
+export type CampaignPatch = Partial<Campaign> & { id: number };
+
+// Campaign records pushed to the ingest endpoint, keyed by id, layered over the data source
+export interface IngestedDataset {
+  updated_at: string | null;
+  campaigns: { [id: string]: CampaignPatch };
+}
+
+export type UpsertResult = IngestResult;
+
+export class IngestRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IngestRejectedError';
+  }
+}
+
+// MARKETING_INGEST_PATH overrides where ingested records are kept
+const ingestPath = () =>
+  path.resolve(process.cwd(), process.env.MARKETING_INGEST_PATH || '.data/ingested.json');
+
+// Serialize writes so concurrent ingests never lose each other's records
+const globalForIngest = globalThis as unknown as { ingestQueue?: Promise<unknown> };
+
+export async function readIngestedDataset(): Promise<IngestedDataset> {
+  try {
+    const dataset = JSON.parse(await fs.readFile(ingestPath(), 'utf8'));
+    if (typeof dataset?.campaigns === 'object' && dataset.campaigns !== null) {
+      return dataset;
+    }
+  } catch {
+    // Missing or unreadable file: nothing has been ingested yet
+  }
+  return { updated_at: null, campaigns: {} };
+}
+
+async function writeIngestedDataset(dataset: IngestedDataset) {
+  const file = ingestPath();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(dataset));
+  await fs.rename(temporary, file);
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Merge patches by id. Fields in a patch replace the stored ones, so sending the
+// same records again is a no-op. A patch for an id that is in neither `current`
+// nor the stored records must describe a complete Campaign.
+export function upsertCampaigns(patches: CampaignPatch[], current: Campaign[]): Promise<UpsertResult[]> {
+  const run = async () => {
+    const dataset = await readIngestedDataset();
+    const served = new Map(current.map(campaign => [campaign.id, campaign]));
+    const results: UpsertResult[] = [];
+    const pending: { [id: string]: CampaignPatch } = {};
+
+    patches.forEach(patch => {
+      const key = String(patch.id);
+      const stored = pending[key] ?? dataset.campaigns[key];
+      const base = { ...served.get(patch.id), ...stored };
+      const exists = served.has(patch.id) || stored !== undefined;
+
+      if (!exists) {
+        const issues = validateCampaign(patch, `campaign ${patch.id}`);
+        if (issues.length > 0) {
+          throw new IngestRejectedError(
+            `Campaign ${patch.id} does not exist yet, so it must be a complete Campaign (${issues[0].path} ${issues[0].message})`
+          );
+        }
+      }
+
+      const changed = Object.entries(patch).some(([field, value]) =>
+        !sameValue((base as Record<string, unknown>)[field], value)
+      );
+      if (changed) {
+        pending[key] = { ...stored, ...patch };
+      }
+      results.push({ id: patch.id, action: !exists ? 'created' : changed ? 'updated' : 'unchanged' });
+    });
+
+    if (Object.keys(pending).length > 0) {
+      await writeIngestedDataset({
+        updated_at: new Date().toISOString(),
+        campaigns: { ...dataset.campaigns, ...pending },
+      });
+    }
+    return results;
+  };
+
+  const next = (globalForIngest.ingestQueue ?? Promise.resolve()).then(run, run);
+  globalForIngest.ingestQueue = next.catch(() => undefined);
+  return next;
+}
+
+const LIST_FIELDS: [keyof Filters, (campaign: Campaign) => string[]][] = [
+  ['available_statuses', campaign => [campaign.status]],
+  ['available_objectives', campaign => [campaign.objective]],
+  ['available_mediums', campaign => [campaign.medium]],
+  ['available_formats', campaign => [campaign.format]],
+  ['available_product_categories', campaign => [campaign.product_category]],
+  ['available_regions', campaign => campaign.regional_performance.map(region => region.region)],
+];
+
+// Layer ingested records over a payload: patches update matching campaigns,
+// complete records for unknown ids are appended, and the filter option lists
+// gain any new values so the ingested campaigns can be filtered on.
+export function applyIngestedDataset(data: MarketingData, dataset: IngestedDataset): { data: MarketingData; skipped: number[] } {
+  const patches = Object.values(dataset.campaigns);
+  if (patches.length === 0) return { data, skipped: [] };
+
+  const byId = new Map(patches.map(patch => [patch.id, patch]));
+  const campaigns = data.campaigns.map(campaign => {
+    const patch = byId.get(campaign.id);
+    byId.delete(campaign.id);
+    return patch ? { ...campaign, ...patch } : campaign;
+  });
+
+  // Patches for campaigns the data source no longer returns can only be served if complete
+  const skipped: number[] = [];
+  byId.forEach(patch => {
+    if (validateCampaign(patch).length === 0) {
+      campaigns.push(patch as Campaign);
+    } else {
+      skipped.push(patch.id);
+    }
+  });
+
+  const filters = { ...data.filters };
+  LIST_FIELDS.forEach(([key, valuesOf]) => {
+    const values = new Set(filters[key] as string[]);
+    campaigns.forEach(campaign => valuesOf(campaign).forEach(value => values.add(value)));
+    Object.assign(filters, { [key]: [...values] });
+  });
+
+  return { data: { ...data, campaigns, filters }, skipped };
+}
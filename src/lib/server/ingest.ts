@@ -0,0 +1,75 @@
+import type { NextRequest } from 'next/server';
+import { Campaign, IngestSummary, ValidationIssue } from '../../types/marketing';
+import { validatePartialCampaign, formatValidationIssues } from '../validate-marketing-data';
+import { getMarketingData, invalidateMarketingDataCache } from './marketing-data';
+import { upsertCampaigns, CampaignPatch } from './ingest-store';
+
+// Request handling shared by the ingest endpoint (API keys) and the import
+// endpoint (signed-in finance and admin users)
+
+// Bodies larger than this are refused before parsing
+export const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+export type ReadCampaignRecordsResult =
+  | { ok: true; records: CampaignPatch[] }
+  | { ok: false; status: number; error: string; message: string; violations?: ValidationIssue[] };
+
+// The campaign records in the request body: either { campaigns: [...] } or a bare
+// array, each a valid full or partial campaign
+export async function readCampaignRecords(request: NextRequest): Promise<ReadCampaignRecordsResult> {
+  const text = await request.text();
+  if (Buffer.byteLength(text) > MAX_BODY_BYTES) {
+    return { ok: false, status: 413, error: 'Payload too large', message: `Request bodies are limited to ${MAX_BODY_BYTES} bytes` };
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return { ok: false, status: 400, error: 'Invalid JSON', message: 'The request body must be JSON' };
+  }
+
+  const records = Array.isArray(body)
+    ? body
+    : (body as { campaigns?: unknown } | null)?.campaigns;
+  if (!Array.isArray(records) || records.length === 0) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'Invalid campaign records',
+      message: 'Expected a non-empty array of campaigns or { "campaigns": [...] }',
+    };
+  }
+
+  const violations = records.flatMap((record, index) => validatePartialCampaign(record, `campaigns[${index}]`));
+  if (violations.length > 0) {
+    return { ok: false, status: 400, error: 'Invalid campaign records', message: formatValidationIssues(violations), violations };
+  }
+  return { ok: true, records: records as CampaignPatch[] };
+}
+
+// Upsert `records` into the ingested dataset and drop the cache when anything changed
+export async function ingestCampaignRecords(records: CampaignPatch[]): Promise<IngestSummary> {
+  // Campaigns currently served decide whether a record patches or creates one;
+  // without them every record is treated as new and must be complete
+  let current: Campaign[] = [];
+  try {
+    current = (await getMarketingData()).data.campaigns;
+  } catch (error) {
+    console.warn('Ingesting without the current marketing data:', error);
+  }
+
+  const results = await upsertCampaigns(records, current);
+  const count = (action: string) => results.filter(result => result.action === action).length;
+  if (results.some(result => result.action !== 'unchanged')) {
+    invalidateMarketingDataCache();
+  }
+
+  return {
+    received: records.length,
+    created: count('created'),
+    updated: count('updated'),
+    unchanged: count('unchanged'),
+    results,
+  };
+}
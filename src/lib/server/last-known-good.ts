@@ -0,0 +1,35 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MarketingData } from '../../types/marketing';
+
+export interface LastKnownGood {
+  data: MarketingData;
+  savedAt: number;
+}
+
+// MARKETING_DATA_SNAPSHOT_PATH overrides where the last successful payload is kept
+const snapshotPath = () =>
+  path.resolve(process.cwd(), process.env.MARKETING_DATA_SNAPSHOT_PATH || '.data/last-known-good.json');
+
+// Persist the latest successful payload so it can be served when the upstream fails
+export async function saveLastKnownGood(data: MarketingData, savedAt = Date.now()): Promise<void> {
+  const file = snapshotPath();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  // Write to a temporary file first so a crash never leaves a half-written snapshot
+  const temporary = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify({ savedAt, data }));
+  await fs.rename(temporary, file);
+}
+
+export async function readLastKnownGood(): Promise<LastKnownGood | null> {
+  try {
+    const snapshot = JSON.parse(await fs.readFile(snapshotPath(), 'utf8'));
+    if (typeof snapshot?.savedAt !== 'number' || typeof snapshot?.data !== 'object') {
+      return null;
+    }
+    return snapshot;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,57 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { getMarketingData, getUpstreamCircuitState, invalidateMarketingDataCache } from './marketing-data';
+import { fixtureData } from '../../test/fixtures';
+
+// Read when marketing-data.ts loads
+const { load } = vi.hoisted(() => {
+  process.env.UPSTREAM_TIMEOUT = '0.05';
+  return { load: vi.fn() };
+});
+
+vi.mock('./data-source', async importOriginal => ({
+  ...await importOriginal<typeof import('./data-source')>(),
+  getDataSource: () => ({ kind: 'remote', description: 'test upstream', load }),
+}));
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'marketing-data-'));
+process.env.MARKETING_DATA_SNAPSHOT_PATH = path.join(dataDir, 'last-known-good.json');
+process.env.MARKETING_SNAPSHOT_DIR = path.join(dataDir, 'snapshots');
+process.env.MARKETING_INGEST_PATH = path.join(dataDir, 'ingested.json');
+
+afterAll(() => rmSync(dataDir, { recursive: true, force: true }));
+
+beforeEach(() => {
+  rmSync(process.env.MARKETING_DATA_SNAPSHOT_PATH!, { force: true });
+  invalidateMarketingDataCache();
+  load.mockReset();
+});
+
+describe('getMarketingData upstream timeout', () => {
+  it('aborts a load that outlasts UPSTREAM_TIMEOUT and counts it as a failure', async () => {
+    let signal: AbortSignal | undefined;
+    load.mockImplementation((given: AbortSignal) => {
+      signal = given;
+      return new Promise((_, reject) => given.addEventListener('abort', () => reject(new Error('aborted'))));
+    });
+
+    await expect(getMarketingData()).rejects.toThrow('The remote data source did not respond within 0.05s');
+    expect(signal?.aborted).toBe(true);
+    expect(getUpstreamCircuitState().failures).toBe(1);
+  });
+
+  it('gives up on a source that ignores the signal and serves the last-known-good snapshot', async () => {
+    load.mockResolvedValueOnce(fixtureData());
+    await getMarketingData();
+    invalidateMarketingDataCache();
+
+    load.mockReturnValue(new Promise(() => {}));
+    const result = await getMarketingData();
+
+    expect(result.stale?.reason).toBe('The remote data source did not respond within 0.05s');
+    expect(result.data.campaigns).toHaveLength(fixtureData().campaigns.length);
+    expect(getUpstreamCircuitState().failures).toBe(1);
+  });
+});
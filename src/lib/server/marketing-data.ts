@@ -0,0 +1,174 @@
+import { createHash } from 'crypto';
+import { MarketingData, ValidationIssue } from '../../types/marketing';
+import { getDataSource, DataSourceKind, MarketingDataSource } from './data-source';
+import { createSwrCache, SwrCache, CacheStatus } from './cache';
+import { createCircuitBreaker, CircuitBreaker } from './circuit-breaker';
+import { saveLastKnownGood, readLastKnownGood } from './last-known-good';
+import { saveSnapshot } from './snapshot-store';
+import { readIngestedDataset, applyIngestedDataset } from './ingest-store';
+import { validateMarketingData, formatValidationIssues, ValidationMode } from '../validate-marketing-data';
+
+export interface LoadedMarketingData {
+  data: MarketingData;
+  warnings: ValidationIssue[];
+  source: DataSourceKind;
+  // Set when the data source failed and the last-known-good snapshot is served instead
+  stale?: {
+    savedAt: number;
+    reason: string;
+  };
+}
+
+export interface MarketingDataResult extends LoadedMarketingData {
+  fetchedAt: number;
+  cacheStatus: CacheStatus;
+}
+
+export class InvalidMarketingDataError extends Error {
+  violations: ValidationIssue[];
+
+  constructor(violations: ValidationIssue[]) {
+    super(formatValidationIssues(violations));
+    this.name = 'InvalidMarketingDataError';
+    this.violations = violations;
+  }
+}
+
+// MARKETING_DATA_VALIDATION=strict rejects any malformed payload; the default
+// (lenient) drops malformed campaigns and reports them as warnings
+export const validationMode: ValidationMode =
+  process.env.MARKETING_DATA_VALIDATION === 'strict' ? 'strict' : 'lenient';
+
+// MARKETING_DATA_CACHE_TTL / MARKETING_DATA_STALE_TTL are in seconds
+const readSeconds = (value: string | undefined, fallback: number) => {
+  const seconds = Number(value);
+  return (value !== undefined && value !== '' && Number.isFinite(seconds) && seconds >= 0 ? seconds : fallback) * 1000;
+};
+
+export const CACHE_TTL_MS = readSeconds(process.env.MARKETING_DATA_CACHE_TTL, 60);
+export const STALE_WHILE_REVALIDATE_MS = readSeconds(process.env.MARKETING_DATA_STALE_TTL, 300);
+
+// Keep one cache and circuit breaker per server process, even if route bundles load this module separately
+const globalForCache = globalThis as unknown as {
+  marketingDataCache?: SwrCache<LoadedMarketingData>;
+  upstreamCircuit?: CircuitBreaker;
+};
+
+// UPSTREAM_FAILURE_THRESHOLD consecutive failures open the circuit for UPSTREAM_RESET_TIMEOUT seconds
+const circuit = globalForCache.upstreamCircuit ??= createCircuitBreaker({
+  failureThreshold: Number(process.env.UPSTREAM_FAILURE_THRESHOLD) || 3,
+  resetTimeoutMs: readSeconds(process.env.UPSTREAM_RESET_TIMEOUT, 30),
+});
+
+// UPSTREAM_TIMEOUT is in seconds; the default matches the per-attempt timeout of
+// the client in src/lib/api.ts, so a page never waits on a load the server has given up on
+export const UPSTREAM_TIMEOUT_MS = (Number(process.env.UPSTREAM_TIMEOUT) || 15) * 1000;
+
+// Aborts the load after UPSTREAM_TIMEOUT_MS and fails it even if the source
+// ignores the signal, so a hung upstream counts against the circuit breaker
+// and the last-known-good snapshot is served
+async function loadWithTimeout(source: MarketingDataSource): Promise<unknown> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new Error(`The ${source.kind} data source did not respond within ${UPSTREAM_TIMEOUT_MS / 1000}s`));
+      controller.abort();
+    }, UPSTREAM_TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([source.load(controller.signal), timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function loadFromSource(source: MarketingDataSource): Promise<LoadedMarketingData> {
+  const payload = await loadWithTimeout(source);
+
+  const validation = validateMarketingData(payload, validationMode);
+  if (!validation.valid) {
+    throw new InvalidMarketingDataError(validation.errors);
+  }
+  if (validation.warnings.length > 0) {
+    console.warn('Marketing data validation warnings:', validation.warnings);
+  }
+
+  return { data: validation.data!, warnings: validation.warnings, source: source.kind };
+}
+
+async function loadFromSourceOrSnapshot(): Promise<LoadedMarketingData> {
+  const source = getDataSource();
+
+  try {
+    const loaded = await circuit.execute(() => loadFromSource(source));
+    await Promise.all([
+      saveLastKnownGood(loaded.data).catch(error =>
+        console.error('Could not save last-known-good marketing data:', error)
+      ),
+      // Keep a history of every successful fetch for the snapshot endpoints
+      saveSnapshot(loaded.data, source.kind).catch(error =>
+        console.error('Could not save marketing data snapshot:', error)
+      ),
+    ]);
+    return loaded;
+  } catch (error) {
+    const snapshot = await readLastKnownGood();
+    if (!snapshot) throw error;
+
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`Serving last-known-good marketing data from ${new Date(snapshot.savedAt).toISOString()}:`, reason);
+
+    return {
+      data: snapshot.data,
+      warnings: [],
+      source: source.kind,
+      stale: { savedAt: snapshot.savedAt, reason },
+    };
+  }
+}
+
+// Records pushed to /api/marketing-data/ingest are layered over whatever the source returned
+async function loadMarketingData(): Promise<LoadedMarketingData> {
+  const loaded = await loadFromSourceOrSnapshot();
+  const { data, skipped } = applyIngestedDataset(loaded.data, await readIngestedDataset());
+  if (skipped.length > 0) {
+    console.warn(`Ignoring incomplete ingested campaigns missing from the data source: ${skipped.join(', ')}`);
+  }
+  return { ...loaded, data };
+}
+
+const cache = globalForCache.marketingDataCache ??= createSwrCache({
+  load: loadMarketingData,
+  ttlMs: CACHE_TTL_MS,
+  staleWhileRevalidateMs: STALE_WHILE_REVALIDATE_MS,
+});
+
+export async function getMarketingData(): Promise<MarketingDataResult> {
+  const { value, fetchedAt, status } = await cache.get();
+  return { ...value, fetchedAt, cacheStatus: status };
+}
+
+export function getUpstreamCircuitState() {
+  return { state: circuit.getState(), failures: circuit.getFailureCount() };
+}
+
+export function invalidateMarketingDataCache() {
+  cache.invalidate();
+}
+
+// Strong ETag over the response content
+export function createETag(body: string): string {
+  return `"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+// True when an If-None-Match header (possibly a list, possibly weak) matches the ETag
+export function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === '*') return true;
+  return ifNoneMatch
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .includes(etag);
+}
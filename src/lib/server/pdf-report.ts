@@ -0,0 +1,485 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb, RGB } from 'pdf-lib';
+import { Campaign, MarketingData } from '../../types/marketing';
+import { CampaignFilters, hasCampaignFilters } from '../campaign-filters';
+import { aggregateRegions, aggregateWeekly, WeeklyAggregate } from '../aggregates';
+import { recomputeStats } from '../reconciliation';
+import { METRIC_COUNTERS, sumTotals } from '../metrics';
+
+export type ReportSection = 'kpis' | 'insights' | 'top_campaigns' | 'weekly_trend' | 'regions';
+
+export const REPORT_SECTIONS: ReportSection[] = ['kpis', 'insights', 'top_campaigns', 'weekly_trend', 'regions'];
+
+export interface ReportOptions {
+  sections: ReportSection[];
+  // Also the reporting period: start_date limits every section to the campaigns starting in it
+  filters: CampaignFilters;
+  // Rows in each top-campaigns table
+  topCount: number;
+}
+
+// A4 portrait in PDF points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const COLORS = {
+  text: rgb(0.07, 0.09, 0.15),
+  muted: rgb(0.42, 0.45, 0.5),
+  border: rgb(0.82, 0.84, 0.86),
+  headerFill: rgb(0.95, 0.96, 0.97),
+  accent: rgb(0.23, 0.51, 0.96),
+  revenue: rgb(0.06, 0.73, 0.51),
+};
+
+interface TableColumn {
+  header: string;
+  // Fraction of the content width
+  width: number;
+  align?: 'left' | 'right';
+}
+
+// Standard fonts only cover WinAnsi; replace anything else so drawing never throws
+const toWinAnsi = (text: string) =>
+  text.replace(/[–—]/g, '-').replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+
+const formatCompactCurrency = (value: number) => {
+  if (Math.abs(value) >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
+  if (Math.abs(value) >= 1_000) return `$${(value / 1_000).toFixed(1)}k`;
+  return `$${value.toFixed(0)}`;
+};
+
+const formatWeek = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+// Top-to-bottom page writer that starts a new page whenever content would overflow
+function createLayout(doc: PDFDocument, regular: PDFFont, bold: PDFFont) {
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN + 20) newPage();
+  };
+
+  const fitText = (text: string, font: PDFFont, size: number, maxWidth: number) => {
+    let fitted = toWinAnsi(text);
+    if (font.widthOfTextAtSize(fitted, size) <= maxWidth) return fitted;
+    while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}...`, size) > maxWidth) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}...`;
+  };
+
+  const drawText = (text: string, x: number, top: number, options: { size?: number; font?: PDFFont; color?: RGB; maxWidth?: number } = {}) => {
+    const size = options.size ?? 10;
+    const font = options.font ?? regular;
+    page.drawText(fitText(text, font, size, options.maxWidth ?? CONTENT_WIDTH), {
+      x,
+      y: top - size,
+      size,
+      font,
+      color: options.color ?? COLORS.text,
+    });
+  };
+
+  return {
+    title(text: string, subtitle: string[]) {
+      drawText(text, MARGIN, y, { size: 22, font: bold });
+      y -= 30;
+      subtitle.forEach(line => {
+        drawText(line, MARGIN, y, { size: 10, color: COLORS.muted });
+        y -= 14;
+      });
+      page.drawLine({
+        start: { x: MARGIN, y: y - 4 },
+        end: { x: PAGE_WIDTH - MARGIN, y: y - 4 },
+        thickness: 1,
+        color: COLORS.border,
+      });
+      y -= 20;
+    },
+
+    heading(text: string, note?: string) {
+      ensureSpace(60);
+      drawText(text, MARGIN, y, { size: 14, font: bold });
+      y -= 20;
+      if (note) {
+        drawText(note, MARGIN, y, { size: 9, color: COLORS.muted });
+        y -= 14;
+      }
+      y -= 4;
+    },
+
+    note(text: string) {
+      ensureSpace(20);
+      drawText(text, MARGIN, y, { size: 10, color: COLORS.muted });
+      y -= 24;
+    },
+
+    // Label/value boxes, `perRow` to a row
+    metricGrid(items: { label: string; value: string }[], perRow = 3) {
+      const gap = 10;
+      const boxWidth = (CONTENT_WIDTH - gap * (perRow - 1)) / perRow;
+      const boxHeight = 46;
+
+      for (let start = 0; start < items.length; start += perRow) {
+        ensureSpace(boxHeight + gap);
+        items.slice(start, start + perRow).forEach((item, index) => {
+          const x = MARGIN + index * (boxWidth + gap);
+          page.drawRectangle({
+            x,
+            y: y - boxHeight,
+            width: boxWidth,
+            height: boxHeight,
+            borderColor: COLORS.border,
+            borderWidth: 1,
+            color: COLORS.headerFill,
+          });
+          drawText(item.label, x + 8, y - 8, { size: 8, color: COLORS.muted, maxWidth: boxWidth - 16 });
+          drawText(item.value, x + 8, y - 22, { size: 13, font: bold, maxWidth: boxWidth - 16 });
+        });
+        y -= boxHeight + gap;
+      }
+      y -= 8;
+    },
+
+    // Repeats the header row on every page the table spans
+    table(columns: TableColumn[], rows: string[][]) {
+      const rowHeight = 18;
+      const size = 9;
+
+      const drawRow = (cells: string[], header: boolean) => {
+        if (header) {
+          page.drawRectangle({ x: MARGIN, y: y - rowHeight, width: CONTENT_WIDTH, height: rowHeight, color: COLORS.headerFill });
+        }
+        let x = MARGIN;
+        columns.forEach((column, index) => {
+          const width = column.width * CONTENT_WIDTH;
+          const font = header ? bold : regular;
+          const text = fitText(cells[index] ?? '', font, size, width - 8);
+          const textX = column.align === 'right'
+            ? x + width - 4 - font.widthOfTextAtSize(text, size)
+            : x + 4;
+          page.drawText(text, { x: textX, y: y - rowHeight + 5, size, font, color: header ? COLORS.muted : COLORS.text });
+          x += width;
+        });
+        page.drawLine({
+          start: { x: MARGIN, y: y - rowHeight },
+          end: { x: PAGE_WIDTH - MARGIN, y: y - rowHeight },
+          thickness: 0.5,
+          color: COLORS.border,
+        });
+        y -= rowHeight;
+      };
+
+      ensureSpace(rowHeight * 3);
+      drawRow(columns.map(column => column.header), true);
+      rows.forEach(row => {
+        if (y - rowHeight < MARGIN + 20) {
+          newPage();
+          drawRow(columns.map(column => column.header), true);
+        }
+        drawRow(row, false);
+      });
+      y -= 16;
+    },
+
+    lineChart(labels: string[], series: { name: string; values: number[]; color: RGB }[]) {
+      const height = 200;
+      const axisWidth = 48;
+      ensureSpace(height + 70);
+
+      const left = MARGIN + axisWidth;
+      const right = PAGE_WIDTH - MARGIN;
+      const top = y - 10;
+      const bottom = top - height;
+      const max = Math.max(1, ...series.flatMap(s => s.values)) * 1.1;
+
+      // Horizontal grid lines with value labels
+      for (let step = 0; step <= 4; step++) {
+        const value = (max / 4) * step;
+        const lineY = bottom + (height / 4) * step;
+        page.drawLine({ start: { x: left, y: lineY }, end: { x: right, y: lineY }, thickness: 0.5, color: COLORS.border });
+        const label = formatCompactCurrency(value);
+        page.drawText(label, {
+          x: left - 6 - regular.widthOfTextAtSize(label, 8),
+          y: lineY - 3,
+          size: 8,
+          font: regular,
+          color: COLORS.muted,
+        });
+      }
+
+      const xFor = (index: number) =>
+        labels.length <= 1 ? (left + right) / 2 : left + ((right - left) / (labels.length - 1)) * index;
+      const yFor = (value: number) => bottom + (value / max) * height;
+
+      // Skip x labels when there are too many weeks to fit
+      const labelEvery = Math.ceil(labels.length / 10);
+      labels.forEach((label, index) => {
+        if (index % labelEvery !== 0) return;
+        const text = toWinAnsi(label);
+        page.drawText(text, {
+          x: xFor(index) - regular.widthOfTextAtSize(text, 8) / 2,
+          y: bottom - 14,
+          size: 8,
+          font: regular,
+          color: COLORS.muted,
+        });
+      });
+
+      series.forEach(({ values, color }) => {
+        values.forEach((value, index) => {
+          if (index > 0) {
+            page.drawLine({
+              start: { x: xFor(index - 1), y: yFor(values[index - 1]) },
+              end: { x: xFor(index), y: yFor(value) },
+              thickness: 1.5,
+              color,
+            });
+          }
+          page.drawCircle({ x: xFor(index), y: yFor(value), size: 2.5, color });
+        });
+      });
+
+      // Legend
+      let legendX = left;
+      const legendY = bottom - 32;
+      series.forEach(({ name, color }) => {
+        page.drawRectangle({ x: legendX, y: legendY, width: 10, height: 10, color });
+        page.drawText(name, { x: legendX + 14, y: legendY + 1, size: 9, font: regular, color: COLORS.text });
+        legendX += 24 + regular.widthOfTextAtSize(name, 9) + 16;
+      });
+
+      y = legendY - 20;
+    },
+  };
+}
+
+type Layout = ReturnType<typeof createLayout>;
+
+function describeScope(data: MarketingData, options: ReportOptions, totalCampaigns: number): string[] {
+  const lines = [data.company_info.name, `Generated ${new Date().toUTCString()}`];
+
+  const { start_date, name, ...lists } = options.filters;
+  if (start_date) {
+    lines.push(`Reporting period: campaigns starting ${start_date.from ?? 'any time'} to ${start_date.to ?? 'latest'}`);
+  }
+
+  if (name || hasCampaignFilters(lists)) {
+    const parts = [
+      ...(name ? [`name contains "${name}"`] : []),
+      ...Object.entries(lists).map(([key, value]) => `${key.replace('_', ' ')}: ${value.join(', ')}`),
+    ];
+    lines.push(`Filters: ${parts.join('; ')}`);
+  }
+
+  lines.push(`Campaigns included: ${data.campaigns.length} of ${totalCampaigns}`);
+  return lines;
+}
+
+// Campaigns limited to the weeks that overlap the reporting period. Those with
+// weekly rows get their counters summed from the weeks kept, so totals never
+// include activity from outside the period.
+function campaignsInPeriod(campaigns: Campaign[], period: CampaignFilters['start_date']): Campaign[] {
+  if (!period) return campaigns;
+  return campaigns.map(campaign => {
+    if (campaign.weekly_performance.length === 0) return campaign;
+    const weekly_performance = campaign.weekly_performance.filter(week =>
+      (!period.from || week.week_end.slice(0, 10) >= period.from) &&
+      (!period.to || week.week_start.slice(0, 10) <= period.to)
+    );
+    const totals = sumTotals(weekly_performance);
+    return {
+      ...campaign,
+      ...Object.fromEntries(METRIC_COUNTERS.map(counter => [counter, totals[counter]])),
+      weekly_performance,
+    };
+  });
+}
+
+// marketing_stats as reported for the whole dataset, or recomputed from the
+// campaigns in the report when filters or a period narrow it down
+function renderKpis(layout: Layout, data: MarketingData, filtered: boolean, period: CampaignFilters['start_date']) {
+  const stats = filtered ? recomputeStats(campaignsInPeriod(data.campaigns, period)) : data.marketing_stats;
+  layout.heading(
+    'Key Performance Indicators',
+    filtered
+      ? `Computed from the campaigns included in this report${period ? ', over the weeks in the reporting period' : ''}.`
+      : undefined
+  );
+  layout.metricGrid([
+    { label: 'Total Campaigns', value: stats.total_campaigns.toLocaleString('en-US') },
+    { label: 'Active Campaigns', value: stats.active_campaigns.toLocaleString('en-US') },
+    { label: 'Total Spend', value: formatCurrency(stats.total_spend) },
+    { label: 'Total Revenue', value: formatCurrency(stats.total_revenue) },
+    { label: 'Average ROAS', value: `${stats.average_roas.toFixed(2)}x` },
+    { label: 'Total Conversions', value: stats.total_conversions.toLocaleString('en-US') },
+    { label: 'Total Impressions', value: stats.total_impressions.toLocaleString('en-US') },
+    { label: 'Total Clicks', value: stats.total_clicks.toLocaleString('en-US') },
+    { label: 'Average CTR', value: `${stats.average_ctr.toFixed(2)}%` },
+    { label: 'Average Conversion Rate', value: `${stats.average_conversion_rate.toFixed(2)}%` },
+    { label: 'Top Performing Medium', value: stats.top_performing_medium },
+    { label: 'Top Performing Region', value: stats.top_performing_region },
+  ]);
+}
+
+function renderInsights(layout: Layout, data: MarketingData, filtered: boolean) {
+  const insights = data.market_insights;
+  layout.heading(
+    'Market Insights',
+    `Last updated ${insights.last_updated}${filtered ? '. These cover the whole dataset, not only the campaigns in this report.' : ''}`
+  );
+  layout.metricGrid([
+    { label: 'Peak Performance Day', value: insights.peak_performance_day },
+    { label: 'Peak Performance Time', value: insights.peak_performance_time },
+    { label: 'Top Converting Product', value: insights.top_converting_product },
+    { label: 'Fastest Growing Region', value: insights.fastest_growing_region },
+  ], 2);
+}
+
+function renderTopCampaigns(layout: Layout, campaigns: Campaign[], topCount: number) {
+  const columns: TableColumn[] = [
+    { header: '#', width: 0.05 },
+    { header: 'Campaign', width: 0.41 },
+    { header: 'Medium', width: 0.14 },
+    { header: 'Revenue', width: 0.14, align: 'right' },
+    { header: 'Spend', width: 0.14, align: 'right' },
+    { header: 'ROAS', width: 0.12, align: 'right' },
+  ];
+  const toRows = (ranked: Campaign[]) => ranked.slice(0, topCount).map((campaign, index) => [
+    String(index + 1),
+    campaign.name,
+    campaign.medium,
+    formatCurrency(campaign.revenue),
+    formatCurrency(campaign.spend),
+    `${campaign.roas.toFixed(2)}x`,
+  ]);
+
+  layout.heading('Top Campaigns by Revenue');
+  layout.table(columns, toRows([...campaigns].sort((a, b) => b.revenue - a.revenue)));
+
+  layout.heading('Top Campaigns by ROAS');
+  layout.table(columns, toRows([...campaigns].sort((a, b) => b.roas - a.roas)));
+}
+
+function renderWeeklyTrend(layout: Layout, weeks: WeeklyAggregate[]) {
+  layout.heading('Weekly Revenue & Spend');
+  if (weeks.length === 0) {
+    layout.note('No weekly data for the campaigns in this report.');
+    return;
+  }
+
+  layout.lineChart(
+    weeks.map(week => formatWeek(week.week_start)),
+    [
+      { name: 'Revenue', values: weeks.map(week => week.revenue), color: COLORS.revenue },
+      { name: 'Spend', values: weeks.map(week => week.spend), color: COLORS.accent },
+    ]
+  );
+  layout.table(
+    [
+      { header: 'Week', width: 0.28 },
+      { header: 'Revenue', width: 0.18, align: 'right' },
+      { header: 'Spend', width: 0.18, align: 'right' },
+      { header: 'Conversions', width: 0.18, align: 'right' },
+      { header: 'ROAS', width: 0.18, align: 'right' },
+    ],
+    weeks.map(week => [
+      `${week.week_start} - ${week.week_end}`,
+      formatCurrency(week.revenue),
+      formatCurrency(week.spend),
+      week.conversions.toLocaleString('en-US'),
+      `${week.roas.toFixed(2)}x`,
+    ])
+  );
+}
+
+function renderRegions(layout: Layout, campaigns: Campaign[], filters: CampaignFilters) {
+  const regions = aggregateRegions(campaigns)
+    .filter(row => !filters.region || filters.region.includes(row.region))
+    .sort((a, b) => b.revenue - a.revenue);
+
+  layout.heading('Regional Ranking', 'Ranked by revenue');
+  layout.table(
+    [
+      { header: '#', width: 0.06 },
+      { header: 'Region', width: 0.26 },
+      { header: 'Revenue', width: 0.17, align: 'right' },
+      { header: 'Spend', width: 0.17, align: 'right' },
+      { header: 'Conversions', width: 0.17, align: 'right' },
+      { header: 'ROAS', width: 0.17, align: 'right' },
+    ],
+    regions.map((region, index) => [
+      String(index + 1),
+      `${region.region}, ${region.country}`,
+      formatCurrency(region.revenue),
+      formatCurrency(region.spend),
+      region.conversions.toLocaleString('en-US'),
+      `${region.roas.toFixed(2)}x`,
+    ])
+  );
+}
+
+// Render the report for campaigns that already passed `options.filters`
+export async function buildMarketingReport(
+  data: MarketingData,
+  options: ReportOptions,
+  totalCampaigns: number
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Marketing Performance Report - ${data.company_info.name}`);
+  doc.setProducer(data.company_info.name);
+  doc.setCreationDate(new Date());
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const layout = createLayout(doc, regular, bold);
+
+  layout.title('Marketing Performance Report', describeScope(data, options, totalCampaigns));
+
+  const filtered = hasCampaignFilters(options.filters);
+  const sections = REPORT_SECTIONS.filter(section => options.sections.includes(section));
+  sections.forEach(section => {
+    switch (section) {
+      case 'kpis':
+        renderKpis(layout, data, filtered, options.filters.start_date);
+        break;
+      case 'insights':
+        renderInsights(layout, data, filtered);
+        break;
+      case 'top_campaigns':
+        renderTopCampaigns(layout, data.campaigns, options.topCount);
+        break;
+      case 'weekly_trend':
+        renderWeeklyTrend(layout, aggregateWeekly(campaignsInPeriod(data.campaigns, options.filters.start_date)));
+        break;
+      case 'regions':
+        renderRegions(layout, data.campaigns, options.filters);
+        break;
+    }
+  });
+
+  // Footer with page numbers once the page count is known
+  const pages = doc.getPages();
+  pages.forEach((page, index) => {
+    const footer = toWinAnsi(`${data.company_info.name}  |  Page ${index + 1} of ${pages.length}`);
+    page.drawText(footer, {
+      x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(footer, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font: regular,
+      color: COLORS.muted,
+    });
+  });
+
+  return doc.save();
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter, forwardedClientAddress, requestClientAddress } from './rate-limit';
+
+describe('forwardedClientAddress', () => {
+  it('ignores the header when no proxy is trusted', () => {
+    expect(forwardedClientAddress('203.0.113.7', 0)).toBeNull();
+  });
+
+  it('takes the address the outermost trusted proxy added', () => {
+    // The client prepended a spoofed address; one proxy appended the real one
+    expect(forwardedClientAddress('10.0.0.1, 203.0.113.7', 1)).toBe('203.0.113.7');
+    expect(forwardedClientAddress('10.0.0.1, 203.0.113.7, 192.0.2.1', 2)).toBe('203.0.113.7');
+  });
+
+  it('falls back to the first hop when there are fewer hops than proxies', () => {
+    expect(forwardedClientAddress('203.0.113.7', 3)).toBe('203.0.113.7');
+  });
+
+  it('is null without a usable header', () => {
+    expect(forwardedClientAddress(null, 1)).toBeNull();
+    expect(forwardedClientAddress(' , ', 1)).toBeNull();
+  });
+});
+
+describe('requestClientAddress', () => {
+  const headers = new Headers({ 'x-real-ip': '198.51.100.4', 'x-forwarded-for': '10.0.0.1, 203.0.113.7' });
+
+  it('prefers the address the platform reports, then the configured header', () => {
+    expect(requestClientAddress(headers, '192.0.2.9', { ipHeader: 'x-real-ip', proxies: 1 })).toBe('192.0.2.9');
+    expect(requestClientAddress(headers, null, { ipHeader: 'x-real-ip', proxies: 1 })).toBe('198.51.100.4');
+  });
+
+  it('falls back to trusted proxies, and to null without any', () => {
+    expect(requestClientAddress(headers, null, { ipHeader: null, proxies: 1 })).toBe('203.0.113.7');
+    expect(requestClientAddress(headers, null, { ipHeader: null, proxies: 0 })).toBeNull();
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('allows a burst up to capacity, then refills over time', () => {
+    let time = 0;
+    const limiter = createRateLimiter({ capacity: 2, refillPerSecond: 0.5, now: () => time });
+
+    expect(limiter.take('a')).toEqual({ allowed: true, limit: 2, remaining: 1, retryAfterSeconds: 0 });
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a')).toEqual({ allowed: false, limit: 2, remaining: 0, retryAfterSeconds: 2 });
+    expect(limiter.take('b').allowed).toBe(true);
+
+    time = 2000;
+    expect(limiter.take('a').allowed).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+export interface RateLimiterOptions {
+  // Requests a client may make back to back
+  capacity: number;
+  // Tokens added back per second
+  refillPerSecond: number;
+  // Buckets kept before full (idle) ones are dropped
+  maxBuckets?: number;
+  now?: () => number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  // Whole requests left in the bucket after this one
+  remaining: number;
+  // Seconds until the next request would be allowed; 0 when allowed
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  take(key: string): RateLimitResult;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Token bucket per key: each request takes a token, tokens refill at a steady rate
+// up to `capacity`, so short bursts pass while sustained floods are turned away
+export function createRateLimiter({ capacity, refillPerSecond, maxBuckets = 10_000, now = Date.now }: RateLimiterOptions): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+
+  const refill = (bucket: Bucket, at: number) => {
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((at - bucket.updatedAt) / 1000) * refillPerSecond);
+    bucket.updatedAt = at;
+  };
+
+  const pruneFullBuckets = (at: number) => {
+    buckets.forEach((bucket, key) => {
+      refill(bucket, at);
+      if (bucket.tokens >= capacity) buckets.delete(key);
+    });
+  };
+
+  return {
+    take(key) {
+      const at = now();
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        if (buckets.size >= maxBuckets) pruneFullBuckets(at);
+        bucket = { tokens: capacity, updatedAt: at };
+        buckets.set(key, bucket);
+      }
+      refill(bucket, at);
+
+      if (bucket.tokens < 1) {
+        return {
+          allowed: false,
+          limit: capacity,
+          remaining: 0,
+          retryAfterSeconds: Math.max(1, Math.ceil((1 - bucket.tokens) / refillPerSecond)),
+        };
+      }
+
+      bucket.tokens -= 1;
+      return { allowed: true, limit: capacity, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+    },
+  };
+}
+
+// API_RATE_LIMIT is requests per minute per client (default 120, 0 turns limiting off);
+// API_RATE_BURST is how many may arrive at once (default: the per-minute limit)
+const perMinute = Number(process.env.API_RATE_LIMIT ?? 120);
+const burst = Number(process.env.API_RATE_BURST) > 0 ? Number(process.env.API_RATE_BURST) : perMinute;
+
+// One limiter per server process, even if the middleware bundle is loaded more than once
+const globalForRateLimit = globalThis as unknown as { apiRateLimiter?: RateLimiter };
+
+export const apiRateLimiter: RateLimiter | null = Number.isFinite(perMinute) && perMinute > 0
+  ? globalForRateLimit.apiRateLimiter ??= createRateLimiter({ capacity: burst, refillPerSecond: perMinute / 60 })
+  : null;
+
+// API_TRUSTED_PROXIES is how many proxies in front of the app append to
+// X-Forwarded-For (default 0). Entries left of those are whatever the client
+// sent, so only the one the outermost trusted proxy added identifies the caller.
+const trustedProxies = Math.max(0, Math.floor(Number(process.env.API_TRUSTED_PROXIES) || 0));
+
+// The caller's address from an X-Forwarded-For header, or null when no proxy is
+// trusted to have set it
+export function forwardedClientAddress(forwardedFor: string | null, proxies = trustedProxies): string | null {
+  if (proxies === 0 || !forwardedFor) return null;
+  const hops = forwardedFor.split(',').map(hop => hop.trim()).filter(Boolean);
+  return hops[Math.max(0, hops.length - proxies)] ?? null;
+}
+
+// API_CLIENT_IP_HEADER names a header the hosting platform sets to the caller's
+// address, replacing any value the client sent (e.g. x-real-ip on Vercel,
+// cf-connecting-ip behind Cloudflare)
+const clientIpHeader = process.env.API_CLIENT_IP_HEADER?.trim().toLowerCase() || null;
+
+// The caller's address: the one the platform reports for the connection, then
+// API_CLIENT_IP_HEADER, then X-Forwarded-For through trusted proxies; null when
+// none of them can be relied on
+export function requestClientAddress(
+  headers: Headers,
+  platformAddress?: string | null,
+  { ipHeader = clientIpHeader, proxies = trustedProxies } = {}
+): string | null {
+  return platformAddress?.trim()
+    || (ipHeader ? headers.get(ipHeader)?.trim() : null)
+    || forwardedClientAddress(headers.get('x-forwarded-for'), proxies);
+}
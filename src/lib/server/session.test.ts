@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSessionToken, verifySessionToken, SESSION_TTL_SECONDS } from './session';
+
+const user = { username: 'sam', name: 'Sam', role: 'viewer' as const };
+const NOW = Date.parse('2025-03-01T12:00:00Z');
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('session tokens', () => {
+  it('verify the session they were signed with until it expires', async () => {
+    const token = await createSessionToken(user, NOW);
+
+    expect(await verifySessionToken(token, NOW)).toEqual({ ...user, expires_at: NOW / 1000 + SESSION_TTL_SECONDS });
+    expect(await verifySessionToken(token, NOW + SESSION_TTL_SECONDS * 1000 - 1)).not.toBeNull();
+    expect(await verifySessionToken(token, NOW + SESSION_TTL_SECONDS * 1000)).toBeNull();
+  });
+
+  it('reject a payload changed after signing', async () => {
+    const [, signature] = (await createSessionToken(user, NOW)).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...user, role: 'admin', expires_at: NOW / 1000 + 60 })).toString('base64url');
+
+    expect(await verifySessionToken(`${forged}.${signature}`, NOW)).toBeNull();
+  });
+
+  it('reject tokens signed with another secret', async () => {
+    vi.stubEnv('AUTH_SECRET', 'one secret');
+    const token = await createSessionToken(user, NOW);
+    vi.stubEnv('AUTH_SECRET', 'another secret');
+
+    expect(await verifySessionToken(token, NOW)).toBeNull();
+  });
+
+  it('reject malformed tokens', async () => {
+    const token = await createSessionToken(user, NOW);
+
+    for (const malformed of [undefined, '', 'no-signature', `${token}.extra`, 'not base64!.at all']) {
+      expect(await verifySessionToken(malformed, NOW)).toBeNull();
+    }
+  });
+});
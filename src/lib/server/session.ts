@@ -0,0 +1,95 @@
+import type { NextRequest } from 'next/server';
+import { Role, SessionUser, isRole } from '../access';
+import { getRequestApiClient } from './api-clients';
+
+// Uses only Web Crypto so the middleware can verify sessions too
+
+export type { SessionUser };
+
+export interface Session extends SessionUser {
+  // Unix time in seconds
+  expires_at: number;
+}
+
+export const SESSION_COOKIE = 'marketing_session';
+
+// AUTH_SESSION_TTL is in seconds; sessions last a working day by default
+export const SESSION_TTL_SECONDS = Number(process.env.AUTH_SESSION_TTL) > 0
+  ? Number(process.env.AUTH_SESSION_TTL)
+  : 8 * 60 * 60;
+
+const DEVELOPMENT_SECRET = 'development-only-session-secret';
+
+function sessionSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET must be set to sign sessions');
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+const signingKey = () =>
+  crypto.subtle.importKey('raw', encoder.encode(sessionSecret()), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+// <base64url JSON payload>.<base64url HMAC-SHA256 of the payload>
+export async function createSessionToken(user: SessionUser, now = Date.now()): Promise<string> {
+  const session: Session = { ...user, expires_at: Math.floor(now / 1000) + SESSION_TTL_SECONDS };
+  const payload = toBase64Url(encoder.encode(JSON.stringify(session)));
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// The session in `token`, or null when it is malformed, tampered with or expired
+export async function verifySessionToken(token: string | undefined, now = Date.now()): Promise<Session | null> {
+  if (!token) return null;
+  const [payload, signature, extra] = token.split('.');
+  if (!payload || !signature || extra !== undefined) return null;
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await signingKey(), fromBase64Url(signature), encoder.encode(payload));
+    if (!valid) return null;
+
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as Session;
+    if (!isRole(session.role) || typeof session.username !== 'string') return null;
+    return session.expires_at * 1000 > now ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getRequestSession(request: NextRequest): Promise<Session | null> {
+  return verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+// Role to enforce for a request, from the session or else the client API key. The
+// middleware has already turned away anonymous requests, so having neither only
+// happens on public routes and gets the least access.
+export async function getRequestRole(request: NextRequest): Promise<Role> {
+  const session = await getRequestSession(request);
+  if (session) return session.role;
+  return (await getRequestApiClient(request))?.role ?? 'viewer';
+}
+
+export function sessionCookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge,
+  };
+}
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { saveSnapshot, listSnapshots, readSnapshot } from './snapshot-store';
+import { fixtureData } from '../../test/fixtures';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), 'snapshots-'));
+  process.env.MARKETING_SNAPSHOT_DIR = dir;
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  delete process.env.MARKETING_SNAPSHOT_DIR;
+  delete process.env.MARKETING_SNAPSHOT_LIMIT;
+});
+
+// Payloads that differ in their campaign count
+const payload = (campaigns: number) => {
+  const data = fixtureData();
+  data.campaigns = data.campaigns.slice(0, campaigns);
+  return data;
+};
+
+describe('saveSnapshot', () => {
+  it('records a fetch that can be read back', async () => {
+    const summary = await saveSnapshot(payload(3), 'fixture');
+
+    expect(await listSnapshots()).toEqual([summary]);
+    expect((await readSnapshot(summary.id))?.data).toEqual(payload(3));
+  });
+
+  it('skips a payload identical to the latest snapshot', async () => {
+    const first = await saveSnapshot(payload(3), 'fixture');
+    const second = await saveSnapshot(payload(3), 'fixture');
+
+    expect(second).toEqual(first);
+    expect(await listSnapshots()).toHaveLength(1);
+  });
+
+  it('records a payload that reverts to an older one, sharing its data file', async () => {
+    await saveSnapshot(payload(3), 'fixture');
+    await saveSnapshot(payload(4), 'fixture');
+    await saveSnapshot(payload(3), 'fixture');
+
+    expect((await listSnapshots()).map(summary => summary.campaign_count)).toEqual([3, 4, 3]);
+    expect(readdirSync(path.join(dir, 'data'))).toHaveLength(2);
+  });
+
+  it('keeps only the newest MARKETING_SNAPSHOT_LIMIT snapshots and their data', async () => {
+    process.env.MARKETING_SNAPSHOT_LIMIT = '2';
+    await Promise.all([1, 2, 3, 4].map(count => saveSnapshot(payload(count), 'fixture')));
+
+    expect((await listSnapshots()).map(summary => summary.campaign_count)).toEqual([4, 3]);
+    expect(readdirSync(path.join(dir, 'data'))).toHaveLength(2);
+  });
+});
@@ -0,0 +1,134 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { MarketingData } from '../../types/marketing';
+
+export interface SnapshotSummary {
+  id: string;
+  fetched_at: string;
+  source: string;
+  // sha1 of the payload; identical payloads share one data file
+  hash: string;
+  campaign_count: number;
+}
+
+export interface Snapshot extends SnapshotSummary {
+  data: MarketingData;
+}
+
+// MARKETING_SNAPSHOT_DIR overrides where snapshot history is kept
+const snapshotDir = () =>
+  path.resolve(process.cwd(), process.env.MARKETING_SNAPSHOT_DIR || '.data/snapshots');
+
+// One JSON line per fetch, oldest first
+const indexPath = () => path.join(snapshotDir(), 'index.jsonl');
+const dataPath = (hash: string) => path.join(snapshotDir(), 'data', `${hash}.json`);
+
+// Sortable, filename-safe id such as 20250113T101500123Z-4f2a
+const createSnapshotId = (fetchedAt: Date) =>
+  `${fetchedAt.toISOString().replace(/[-:.]/g, '')}-${randomBytes(2).toString('hex')}`;
+
+async function writeAtomic(file: string, contents: string) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, contents);
+  await fs.rename(temporary, file);
+}
+
+// MARKETING_SNAPSHOT_LIMIT caps how many snapshots are kept; older ones, and
+// data files no longer listed, are pruned
+const snapshotLimit = () => Number(process.env.MARKETING_SNAPSHOT_LIMIT) > 0
+  ? Math.floor(Number(process.env.MARKETING_SNAPSHOT_LIMIT))
+  : 500;
+
+// Serialize writes so concurrent saves never interleave index rewrites
+const globalForSnapshots = globalThis as unknown as { snapshotQueue?: Promise<unknown> };
+
+// Record a successful fetch. A payload identical to the latest snapshot's is not
+// recorded again, and data files are content-addressed, so one that reverts to an
+// older payload only adds a line to the index. Returns the latest snapshot.
+export async function saveSnapshot(data: MarketingData, source: string, fetchedAt = new Date()): Promise<SnapshotSummary> {
+  const body = JSON.stringify(data);
+  const hash = createHash('sha1').update(body).digest('hex');
+
+  const run = async () => {
+    const snapshots = await listSnapshots();
+    if (snapshots[0]?.hash === hash) return snapshots[0];
+
+    const file = dataPath(hash);
+    const exists = await fs.access(file).then(() => true, () => false);
+    if (!exists) {
+      await writeAtomic(file, body);
+    }
+
+    const summary: SnapshotSummary = {
+      id: createSnapshotId(fetchedAt),
+      fetched_at: fetchedAt.toISOString(),
+      source,
+      hash,
+      campaign_count: data.campaigns.length,
+    };
+    const limit = snapshotLimit();
+    if (snapshots.length < limit) {
+      await fs.mkdir(snapshotDir(), { recursive: true });
+      await fs.appendFile(indexPath(), `${JSON.stringify(summary)}\n`);
+    } else {
+      await pruneSnapshots([summary, ...snapshots.slice(0, limit - 1)], snapshots.slice(limit - 1));
+    }
+    return summary;
+  };
+
+  const next = (globalForSnapshots.snapshotQueue ?? Promise.resolve()).then(run, run);
+  globalForSnapshots.snapshotQueue = next.catch(() => undefined);
+  return next;
+}
+
+// Rewrite the index with only `kept` (newest first) and delete the data files
+// that only `dropped` snapshots referred to
+async function pruneSnapshots(kept: SnapshotSummary[], dropped: SnapshotSummary[]) {
+  await writeAtomic(indexPath(), [...kept].reverse().map(summary => `${JSON.stringify(summary)}\n`).join(''));
+
+  const keptHashes = new Set(kept.map(summary => summary.hash));
+  const unused = new Set(dropped.map(summary => summary.hash).filter(hash => !keptHashes.has(hash)));
+  await Promise.all([...unused].map(hash =>
+    fs.rm(dataPath(hash), { force: true }).catch(error =>
+      console.warn(`Could not remove snapshot data ${hash}:`, error)
+    )
+  ));
+}
+
+// Newest first
+export async function listSnapshots(): Promise<SnapshotSummary[]> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(indexPath(), 'utf8');
+  } catch {
+    return [];
+  }
+
+  const snapshots: SnapshotSummary[] = [];
+  contents.split('\n').forEach(line => {
+    if (!line.trim()) return;
+    try {
+      const entry = JSON.parse(line);
+      if (typeof entry?.id === 'string' && typeof entry?.hash === 'string') {
+        snapshots.push(entry);
+      }
+    } catch {
+      // A partially written last line is skipped rather than failing the listing
+    }
+  });
+  return snapshots.reverse();
+}
+
+export async function readSnapshot(id: string): Promise<Snapshot | null> {
+  const summary = (await listSnapshots()).find(snapshot => snapshot.id === id);
+  if (!summary) return null;
+
+  try {
+    const data: MarketingData = JSON.parse(await fs.readFile(dataPath(summary.hash), 'utf8'));
+    return { ...summary, data };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,96 @@
+import ExcelJS from 'exceljs';
+import { MarketingData } from '../../types/marketing';
+import { CampaignFilters } from '../campaign-filters';
+import { EXPORT_DATASETS, ExportDatasetName, ExportValueType } from '../export-datasets';
+import { isFinancialField } from '../access';
+import { CURRENCIES, CurrencySettings, DEFAULT_CURRENCY_SETTINGS, convertAmount } from '../currency';
+
+// Sheet order and names in the reporting workbook
+const SHEETS: { dataset: ExportDatasetName; name: string }[] = [
+  { dataset: 'campaigns', name: 'Campaigns' },
+  { dataset: 'weekly', name: 'Weekly Trend' },
+  { dataset: 'regions', name: 'Regions' },
+  { dataset: 'devices', name: 'Devices' },
+  { dataset: 'demographics', name: 'Demographics' },
+  { dataset: 'creatives', name: 'Creatives' },
+];
+
+// Percentages are stored as 0-100 values, so the format appends a literal "%".
+// Money is shown with the symbol of the currency it was converted to.
+function numberFormats(currency: CurrencySettings['currency']): { [type in ExportValueType]?: string } {
+  return {
+    integer: '#,##0',
+    number: '#,##0.00',
+    currency: `"${CURRENCIES[currency].symbol}"#,##0.00`,
+    percent: '0.00"%"',
+    date: 'yyyy-mm-dd',
+  };
+}
+
+const COLUMN_WIDTHS: { [type in ExportValueType]: number } = {
+  string: 24,
+  integer: 14,
+  number: 14,
+  currency: 16,
+  percent: 14,
+  date: 13,
+};
+
+function cellValue(value: unknown, type: ExportValueType, currency: CurrencySettings): ExcelJS.CellValue {
+  if (value === null || value === undefined) return null;
+  if (type === 'currency' && typeof value === 'number') {
+    return Number.isFinite(value) ? convertAmount(value, currency) : null;
+  }
+  if (type === 'date' && typeof value === 'string') {
+    const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+// One sheet per export dataset, built from campaigns that already passed the filters.
+// Without includeFinancials the budget, spend and spend-derived columns are left out.
+// Money amounts are converted to `currency`, as the dashboard displays them.
+export async function buildMarketingWorkbook(
+  data: MarketingData,
+  filters: CampaignFilters,
+  includeFinancials = true,
+  currency: CurrencySettings = DEFAULT_CURRENCY_SETTINGS
+): Promise<Buffer> {
+  const formats = numberFormats(currency.currency);
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = data.company_info.name;
+  workbook.created = new Date();
+
+  SHEETS.forEach(({ dataset, name }) => {
+    const { rows } = EXPORT_DATASETS[dataset];
+    const columns = EXPORT_DATASETS[dataset].columns.filter(column => includeFinancials || !isFinancialField(column.key));
+    const sheet = workbook.addWorksheet(name, {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    });
+
+    sheet.columns = columns.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: Math.max(COLUMN_WIDTHS[column.type], column.header.length + 2),
+      style: formats[column.type] ? { numFmt: formats[column.type] } : {},
+    }));
+
+    rows(data.campaigns, filters).forEach(row => {
+      const values = row as Record<string, unknown>;
+      sheet.addRow(Object.fromEntries(
+        columns.map(column => [column.key, cellValue(values[column.key], column.type, currency)])
+      ));
+    });
+
+    const header = sheet.getRow(1);
+    header.font = { bold: true };
+    header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE5E7EB' } };
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer);
+}
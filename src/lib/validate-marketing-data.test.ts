@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  validateMarketingData,
+  validateCampaign,
+  validatePartialCampaign,
+  formatValidationIssues,
+} from './validate-marketing-data';
+import { fixtureData, fixtureCampaign } from '../test/fixtures';
+
+describe('validateMarketingData', () => {
+  it('accepts the fixture', () => {
+    const result = validateMarketingData(fixtureData());
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.data?.campaigns).toHaveLength(fixtureData().campaigns.length);
+  });
+
+  it('rejects a payload that is not an object', () => {
+    const result = validateMarketingData(null);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([{ path: '', message: 'expected object, received null' }]);
+  });
+
+  it('rejects a malformed campaign in strict mode', () => {
+    const data = fixtureData() as unknown as { campaigns: Record<string, unknown>[] };
+    data.campaigns[1].spend = 'a lot';
+
+    const result = validateMarketingData(data);
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(issue => issue.path)).toEqual(['campaigns[1].spend']);
+  });
+
+  it('drops malformed campaigns in lenient mode and reports them as warnings', () => {
+    const data = fixtureData() as unknown as { campaigns: Record<string, unknown>[] };
+    const name = data.campaigns[1].name;
+    data.campaigns[1].spend = 'a lot';
+    delete data.campaigns[1].clicks;
+
+    const result = validateMarketingData(data, 'lenient');
+    expect(result.valid).toBe(true);
+    expect(result.data?.campaigns).toHaveLength(data.campaigns.length - 1);
+    expect(result.data?.campaigns.map(campaign => campaign.name)).not.toContain(name);
+    expect(result.warnings[0]).toEqual({
+      path: 'campaigns[1]',
+      message: `dropped campaign "${name}" with 2 violation(s)`,
+    });
+    expect(result.warnings.slice(1).map(issue => issue.path).sort()).toEqual(['campaigns[1].clicks', 'campaigns[1].spend']);
+  });
+
+  it('still rejects problems outside the campaigns in lenient mode', () => {
+    const data = fixtureData() as unknown as Record<string, unknown>;
+    delete data.marketing_stats;
+
+    expect(validateMarketingData(data, 'lenient').valid).toBe(false);
+  });
+});
+
+describe('validateCampaign', () => {
+  it('accepts a fixture campaign', () => {
+    expect(validateCampaign(fixtureCampaign())).toEqual([]);
+  });
+
+  it('reports violations under the given path', () => {
+    const issues = validateCampaign({ ...fixtureCampaign(), impressions: '1,000' }, 'campaigns[0]');
+    expect(issues.map(issue => issue.path)).toEqual(['campaigns[0].impressions']);
+  });
+});
+
+describe('validatePartialCampaign', () => {
+  it('accepts a patch of known fields', () => {
+    expect(validatePartialCampaign({ id: 3, spend: 120.5, status: 'Paused' })).toEqual([]);
+  });
+
+  it('requires a positive integer id', () => {
+    expect(validatePartialCampaign({ spend: 1 })).toEqual([{ path: 'campaign.id', message: 'is required' }]);
+    expect(validatePartialCampaign({ id: 1.5 })).toEqual([{ path: 'campaign.id', message: 'expected a positive integer' }]);
+  });
+
+  it('rejects fields that are not part of Campaign', () => {
+    expect(validatePartialCampaign({ id: 1, owner: 'Sam' }, 'campaigns[0]')).toEqual([
+      { path: 'campaigns[0].owner', message: 'is not a Campaign field' },
+    ]);
+  });
+});
+
+describe('formatValidationIssues', () => {
+  it('lists up to the limit and counts the rest', () => {
+    const issues = ['a', 'b', 'c'].map(path => ({ path, message: 'is required' }));
+    expect(formatValidationIssues(issues, 2)).toBe('a is required; b is required; and 1 more');
+  });
+
+  it('names the root path', () => {
+    expect(formatValidationIssues([{ path: '', message: 'expected object' }])).toBe('(root) expected object');
+  });
+});
@@ -0,0 +1,344 @@
+import { MarketingData, Campaign, ValidationIssue } from '../types/marketing';
+
+export type { ValidationIssue };
+
+export type ValidationMode = 'strict' | 'lenient';
+
+export interface ValidationResult {
+  valid: boolean;
+  // The validated payload; in lenient mode malformed campaigns are removed
+  data?: MarketingData;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+type Check = (value: unknown, path: string, issues: ValidationIssue[]) => void;
+
+interface ObjectSchema {
+  fields: { [key: string]: Check };
+  check: Check;
+}
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const string: Check = (value, path, issues) => {
+  if (typeof value !== 'string') {
+    issues.push({ path, message: `expected string, received ${describe(value)}` });
+  }
+};
+
+const number: Check = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({
+      path,
+      message: typeof value === 'number'
+        ? `expected finite number, received ${value}`
+        : `expected number, received ${describe(value)}`,
+    });
+  }
+};
+
+const boolean: Check = (value, path, issues) => {
+  if (typeof value !== 'boolean') {
+    issues.push({ path, message: `expected boolean, received ${describe(value)}` });
+  }
+};
+
+const record: Check = (value, path, issues) => {
+  if (!isObject(value)) {
+    issues.push({ path, message: `expected object, received ${describe(value)}` });
+  }
+};
+
+const arrayOf = (item: Check): Check => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected array, received ${describe(value)}` });
+    return;
+  }
+  value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues));
+};
+
+function object(fields: { [key: string]: Check }): ObjectSchema {
+  return {
+    fields,
+    check: (value, path, issues) => {
+      if (!isObject(value)) {
+        issues.push({ path, message: `expected object, received ${describe(value)}` });
+        return;
+      }
+      Object.entries(fields).forEach(([key, check]) => {
+        if (!(key in value)) {
+          issues.push({ path: joinPath(path, key), message: 'is required' });
+          return;
+        }
+        check(value[key], joinPath(path, key), issues);
+      });
+    },
+  };
+}
+
+// One schema per interface in src/types/marketing.ts
+
+const companyInfo = object({
+  name: string,
+  founded: string,
+  headquarters: string,
+  industry: string,
+  description: string,
+});
+
+const marketingStats = object({
+  total_campaigns: number,
+  active_campaigns: number,
+  total_spend: number,
+  total_revenue: number,
+  total_conversions: number,
+  average_roas: number,
+  top_performing_medium: string,
+  top_performing_region: string,
+  total_impressions: number,
+  total_clicks: number,
+  average_ctr: number,
+  average_conversion_rate: number,
+});
+
+const targetDemographics = object({
+  age_groups: arrayOf(string),
+  genders: arrayOf(string),
+  primary_device: string,
+});
+
+const demographicPerformance = object({
+  impressions: number,
+  clicks: number,
+  conversions: number,
+  ctr: number,
+  conversion_rate: number,
+});
+
+const demographicBreakdown = object({
+  age_group: string,
+  gender: string,
+  percentage_of_audience: number,
+  performance: demographicPerformance.check,
+});
+
+const devicePerformance = object({
+  device: string,
+  impressions: number,
+  clicks: number,
+  conversions: number,
+  spend: number,
+  revenue: number,
+  ctr: number,
+  conversion_rate: number,
+  percentage_of_traffic: number,
+});
+
+const weeklyPerformance = object({
+  week_start: string,
+  week_end: string,
+  impressions: number,
+  clicks: number,
+  conversions: number,
+  spend: number,
+  revenue: number,
+});
+
+const regionalPerformance = object({
+  region: string,
+  country: string,
+  impressions: number,
+  clicks: number,
+  conversions: number,
+  spend: number,
+  revenue: number,
+  ctr: number,
+  conversion_rate: number,
+  cpc: number,
+  cpa: number,
+  roas: number,
+});
+
+const creative = object({
+  id: number,
+  name: string,
+  format: string,
+  url: string,
+  performance_score: number,
+  is_primary: boolean,
+  impressions: number,
+  clicks: number,
+  ctr: number,
+  a_b_test_variant: string,
+});
+
+const timeline = object({
+  start_date: string,
+  created_date: string,
+  last_updated: string,
+});
+
+const targeting = object({
+  regions: arrayOf(string),
+  interests: arrayOf(string),
+  behaviors: arrayOf(string),
+  custom_audiences: arrayOf(string),
+});
+
+const campaignSchema = object({
+  id: number,
+  name: string,
+  status: string,
+  objective: string,
+  medium: string,
+  format: string,
+  product_category: string,
+  budget: number,
+  spend: number,
+  budget_utilization: number,
+  impressions: number,
+  clicks: number,
+  conversions: number,
+  revenue: number,
+  average_order_value: number,
+  ctr: number,
+  conversion_rate: number,
+  cpc: number,
+  cpa: number,
+  roas: number,
+  target_demographics: targetDemographics.check,
+  demographic_breakdown: arrayOf(demographicBreakdown.check),
+  device_performance: arrayOf(devicePerformance.check),
+  weekly_performance: arrayOf(weeklyPerformance.check),
+  regional_performance: arrayOf(regionalPerformance.check),
+  creatives: arrayOf(creative.check),
+  timeline: timeline.check,
+  targeting: targeting.check,
+});
+
+const marketInsights = object({
+  last_updated: string,
+  peak_performance_day: string,
+  peak_performance_time: string,
+  top_converting_product: string,
+  fastest_growing_region: string,
+});
+
+const filters = object({
+  available_statuses: arrayOf(string),
+  available_objectives: arrayOf(string),
+  available_mediums: arrayOf(string),
+  available_formats: arrayOf(string),
+  available_product_categories: arrayOf(string),
+  available_regions: arrayOf(string),
+  applied: record,
+});
+
+// Everything except `campaigns`, which is checked entry by entry
+const marketingDataSections = object({
+  message: string,
+  company_info: companyInfo.check,
+  marketing_stats: marketingStats.check,
+  market_insights: marketInsights.check,
+  filters: filters.check,
+});
+
+// Check a single campaign; returns the path-level violations (empty when valid)
+export function validateCampaign(value: unknown, path = 'campaign'): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  campaignSchema.check(value, path, issues);
+  return issues;
+}
+
+// Check a partial campaign used to patch or create one by id: `id` must be a
+// positive integer, every other field present must match its type, and fields
+// that are not part of Campaign are rejected.
+export function validatePartialCampaign(value: unknown, path = 'campaign'): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(value)) {
+    issues.push({ path, message: `expected object, received ${describe(value)}` });
+    return issues;
+  }
+
+  if (!('id' in value)) {
+    issues.push({ path: joinPath(path, 'id'), message: 'is required' });
+  } else if (!Number.isInteger(value.id) || (value.id as number) < 1) {
+    issues.push({ path: joinPath(path, 'id'), message: 'expected a positive integer' });
+  }
+
+  Object.entries(value).forEach(([key, fieldValue]) => {
+    if (key === 'id') return;
+    const check = campaignSchema.fields[key];
+    if (!check) {
+      issues.push({ path: joinPath(path, key), message: 'is not a Campaign field' });
+      return;
+    }
+    check(fieldValue, joinPath(path, key), issues);
+  });
+  return issues;
+}
+
+// Validate an untrusted payload against the MarketingData interfaces.
+// strict: any violation rejects the payload.
+// lenient: malformed campaigns are dropped and reported as warnings; problems
+// anywhere else in the payload still reject it.
+export function validateMarketingData(input: unknown, mode: ValidationMode = 'strict'): ValidationResult {
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+
+  if (!isObject(input)) {
+    return {
+      valid: false,
+      errors: [{ path: '', message: `expected object, received ${describe(input)}` }],
+      warnings,
+    };
+  }
+
+  marketingDataSections.check(input, '', errors);
+
+  const campaigns: Campaign[] = [];
+  if (!('campaigns' in input)) {
+    errors.push({ path: 'campaigns', message: 'is required' });
+  } else if (!Array.isArray(input.campaigns)) {
+    errors.push({ path: 'campaigns', message: `expected array, received ${describe(input.campaigns)}` });
+  } else {
+    input.campaigns.forEach((campaign, index) => {
+      const issues = validateCampaign(campaign, `campaigns[${index}]`);
+      if (issues.length === 0) {
+        campaigns.push(campaign as Campaign);
+      } else if (mode === 'lenient') {
+        const name = isObject(campaign) && typeof campaign.name === 'string' ? ` "${campaign.name}"` : '';
+        warnings.push({
+          path: `campaigns[${index}]`,
+          message: `dropped campaign${name} with ${issues.length} violation(s)`,
+        }, ...issues);
+      } else {
+        errors.push(...issues);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings };
+  }
+
+  return {
+    valid: true,
+    data: { ...(input as unknown as MarketingData), campaigns },
+    errors,
+    warnings,
+  };
+}
+
+export function formatValidationIssues(issues: ValidationIssue[], limit = 5): string {
+  const shown = issues.slice(0, limit).map(issue => `${issue.path || '(root)'} ${issue.message}`);
+  if (issues.length > limit) shown.push(`and ${issues.length - limit} more`);
+  return shown.join('; ');
+}
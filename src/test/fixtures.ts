@@ -0,0 +1,13 @@
+import fixture from '../../fixtures/marketing-data/default.json';
+import { Campaign, MarketingData } from '../types/marketing';
+
+// Test data built from the bundled fixture, which validates, scans and
+// reconciles clean. Each call returns a fresh copy that tests may modify.
+
+export function fixtureData(): MarketingData {
+  return structuredClone(fixture) as unknown as MarketingData;
+}
+
+export function fixtureCampaign(overrides: Partial<Campaign> = {}): Campaign {
+  return { ...fixtureData().campaigns[0], ...overrides };
+}
@@ -154,6 +154,14 @@ export interface Filters {
   applied: Record<string, any>;
 }
 
+// Present when the route serves its last-known-good snapshot because the upstream failed
+export interface DataFreshness {
+  stale: boolean;
+  cached_at: string;
+  age_seconds: number;
+  reason: string;
+}
+
 export interface MarketingData {
   message: string;
   company_info: CompanyInfo;
@@ -161,10 +169,94 @@ export interface MarketingData {
   campaigns: Campaign[];
   market_insights: MarketInsights;
   filters: Filters;
+  freshness?: DataFreshness;
+}
+
+export interface ApiErrorDetail {
+  parameter: string;
+  value?: string;
+  message: string;
+  allowed?: string[];
+}
+
+export interface ValidationIssue {
+  // Location of the offending value, e.g. "campaigns[3].regional_performance[0].roas"
+  path: string;
+  message: string;
 }
 
 export interface ApiResponse {
   error?: string;
   message?: string;
+  details?: ApiErrorDetail[];
+  violations?: ValidationIssue[];
   data?: MarketingData;
 }
+
+export interface IngestResult {
+  id: number;
+  action: 'created' | 'updated' | 'unchanged';
+}
+
+// Response of POST /api/marketing-data/ingest
+export interface IngestSummary {
+  received: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  results: IngestResult[];
+}
+
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+// What anonymous and non-admin callers of GET /api/health get
+export type HealthSummary = Pick<HealthReport, 'status' | 'checked_at'>;
+
+// Response of GET /api/health for admins
+export interface HealthReport {
+  // ok: fresh, valid and consistent data; degraded: served but something needs
+  // attention; down: no data can be served (the endpoint then answers 503)
+  status: HealthStatus;
+  checked_at: string;
+  // Why the status is not ok
+  problems: string[];
+  upstream: {
+    source: 'remote' | 'fixture' | 'generated';
+    target: string;
+    // When the shared probe last ran; null, with reachable and latency_ms, while
+    // the circuit is open and the source is left alone
+    probed_at: string | null;
+    reachable: boolean | null;
+    latency_ms: number | null;
+    error?: string;
+    circuit: { state: 'closed' | 'open' | 'half-open'; failures: number };
+  };
+  cache: {
+    status: 'hit' | 'stale' | 'miss' | 'empty';
+    fetched_at: string | null;
+    age_seconds: number | null;
+    // Set while the last-known-good snapshot is served because the source failed
+    serving_last_known_good: DataFreshness | null;
+  };
+  validation: {
+    mode: 'strict' | 'lenient';
+    valid: boolean;
+    warnings: number;
+    errors: number;
+    // The first few issues, for a quick look without the logs
+    issues: ValidationIssue[];
+  };
+  counts: {
+    campaigns: number;
+    regions: number;
+    weeks: number;
+    devices: number;
+  } | null;
+  consistency: {
+    total_campaigns: {
+      reported: number;
+      actual: number;
+      matches: boolean;
+    };
+  } | null;
+}